@@ -5,9 +5,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Eye, EyeOff, Key, Save, Trash2, Shield, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { SecureStorage, logSecurityEvent, checkApiKeyAge, markApiKeyCreated } from '@/lib/security';
+import { AiProvider, loadProviderOrder, savePreferredProvider } from '@/lib/apiKeys';
 
 interface ApiKeys {
   openai: string;
@@ -22,6 +24,7 @@ export const ApiKeyManager: React.FC = () => {
     claude: '',
     google: ''
   });
+  const [preferredProvider, setPreferredProvider] = useState<AiProvider>(() => loadProviderOrder()[0]);
   const [showKeys, setShowKeys] = useState<Record<string, boolean>>({
     openai: false,
     claude: false,
@@ -87,6 +90,7 @@ export const ApiKeyManager: React.FC = () => {
   const saveApiKeys = async () => {
     try {
       const success = await saveEncryptedKeys(apiKeys);
+      savePreferredProvider(preferredProvider);
       if (success) {
         // Mark when keys were created for rotation reminders
         Object.keys(apiKeys).forEach(key => {
@@ -314,6 +318,23 @@ export const ApiKeyManager: React.FC = () => {
           </TabsContent>
         </Tabs>
 
+        <div className="space-y-2">
+          <Label htmlFor="preferred-provider">Preferred provider</Label>
+          <Select value={preferredProvider} onValueChange={(value) => setPreferredProvider(value as AiProvider)}>
+            <SelectTrigger id="preferred-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="openai">OpenAI</SelectItem>
+              <SelectItem value="claude">Claude</SelectItem>
+              <SelectItem value="google">Google AI</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Tried first when generating diagrams; the other providers you have keys for are used as fallbacks.
+          </p>
+        </div>
+
         <div className="flex gap-2">
           <Button onClick={saveApiKeys} className="flex-1">
             <Save className="h-4 w-4 mr-2" />
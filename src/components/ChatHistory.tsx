@@ -1,61 +1,93 @@
-import React, { useState, useEffect } from 'react';
-import { MessageSquare, Clock, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { MessageSquare, Clock, Trash2, Pin, PinOff, Pencil, Search, Tag, X, ChevronLeft, ChevronRight, Loader2, Download, Upload, Share2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ShareSessionDialog } from '@/components/ShareSessionDialog';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
+import {
+  ChatSessionSummary,
+  MAX_TITLE_LENGTH,
+  SESSIONS_PAGE_SIZE,
+  deleteSession,
+  listSessionTags,
+  normalizeTag,
+  renameSession,
+  searchChatSessions,
+  setSessionPinned,
+  setSessionTags,
+} from '@/lib/chatSessions';
+import {
+  MAX_IMPORT_SIZE,
+  TRANSCRIPT_FORMAT_LABELS,
+  TranscriptFormat,
+  buildTranscript,
+  importSession,
+  loadSessionExport,
+  parseSessionExport,
+  transcriptFilename,
+} from '@/lib/sessionTranscripts';
+import { downloadBlob } from '@/lib/diagrams/exportDiagram';
 
-interface ChatSession {
-  id: string;
-  title: string;
-  created_at: string;
-  updated_at: string;
-  message_count?: number;
-}
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface ChatHistoryProps {
   currentSessionId: string | null;
   onSessionSelect: (sessionId: string) => void;
   user: any;
+  // Bumped by the parent when a session changed elsewhere, e.g. it received a suggested title
+  refreshKey?: number;
 }
 
-export function ChatHistory({ currentSessionId, onSessionSelect, user }: ChatHistoryProps) {
-  const [sessions, setSessions] = useState<ChatSession[]>([]);
+export function ChatHistory({ currentSessionId, onSessionSelect, user, refreshKey = 0 }: ChatHistoryProps) {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [taggingId, setTaggingId] = useState<string | null>(null);
+  const [tagValue, setTagValue] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [sharedSession, setSharedSession] = useState<ChatSessionSummary | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Only the newest request may update the list when searches overlap
+  const requestRef = useRef(0);
   const { toast } = useToast();
 
   useEffect(() => {
-    if (user) {
-      loadChatSessions();
-    }
-  }, [user]);
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query.trim());
+      setPage(0);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
 
-  const loadChatSessions = async () => {
+  const loadChatSessions = useCallback(async () => {
     if (!user) return;
 
+    const request = ++requestRef.current;
     try {
       setIsLoading(true);
-      const { data, error } = await supabase
-        .from('chat_sessions')
-        .select(`
-          id,
-          title,
-          created_at,
-          updated_at,
-          chat_messages(count)
-        `)
-        .eq('user_id', user.id)
-        .order('updated_at', { ascending: false });
-
-      if (error) throw error;
-
-      const sessionsWithCount = data.map(session => ({
-        ...session,
-        message_count: session.chat_messages?.[0]?.count || 0
-      }));
-
-      setSessions(sessionsWithCount);
+      const result = await searchChatSessions({ query: debouncedQuery, tag: tagFilter, page });
+      if (request !== requestRef.current) return;
+      setSessions(result.sessions);
+      setTotal(result.total);
     } catch (error) {
       console.error('Error loading chat sessions:', error);
       toast({
@@ -64,25 +96,41 @@ export function ChatHistory({ currentSessionId, onSessionSelect, user }: ChatHis
         variant: "destructive",
       });
     } finally {
-      setIsLoading(false);
+      if (request === requestRef.current) setIsLoading(false);
     }
+  }, [user, debouncedQuery, tagFilter, page, toast]);
+
+  const loadTags = useCallback(async () => {
+    if (!user) return;
+    try {
+      setAllTags(await listSessionTags(user.id));
+    } catch (error) {
+      console.error('Error loading session tags:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadChatSessions();
+  }, [loadChatSessions, refreshKey]);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags, refreshKey]);
+
+  const updateSession = (sessionId: string, changes: Partial<ChatSessionSummary>) => {
+    setSessions(prev => prev.map(session => session.id === sessionId ? { ...session, ...changes } : session));
   };
 
   const handleDeleteSession = async (sessionId: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    
+
     if (!user) return;
 
     try {
-      const { error } = await supabase
-        .from('chat_sessions')
-        .delete()
-        .eq('id', sessionId)
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      await deleteSession(sessionId, user.id);
 
       setSessions(prev => prev.filter(session => session.id !== sessionId));
+      setTotal(prev => Math.max(prev - 1, 0));
       toast({
         title: "Session deleted",
         description: "Chat session has been deleted",
@@ -97,25 +145,128 @@ export function ChatHistory({ currentSessionId, onSessionSelect, user }: ChatHis
     }
   };
 
-  if (isLoading) {
-    return (
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Clock className="w-5 h-5" />
-            Chat History
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2">
-            {[1, 2, 3].map(i => (
-              <div key={i} className="h-16 bg-muted rounded animate-pulse" />
-            ))}
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
+  const handleTogglePin = async (session: ChatSessionSummary, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await setSessionPinned(session.id, !session.pinned);
+      // Pinned sessions sort first, so reload rather than patch the order locally
+      await loadChatSessions();
+    } catch (error) {
+      console.error('Error pinning session:', error);
+      toast({
+        title: "Error",
+        description: session.pinned ? "Failed to unpin session" : "Failed to pin session",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startRename = (session: ChatSessionSummary, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setRenamingId(session.id);
+    setRenameValue(session.title);
+  };
+
+  const commitRename = async (session: ChatSessionSummary) => {
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!title || title === session.title) return;
+
+    updateSession(session.id, { title, titleSource: 'user' });
+    try {
+      await renameSession(session.id, title);
+    } catch (error) {
+      console.error('Error renaming session:', error);
+      updateSession(session.id, { title: session.title, titleSource: session.titleSource });
+      toast({
+        title: "Error",
+        description: "Failed to rename session",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveTags = async (session: ChatSessionSummary, tags: string[]) => {
+    updateSession(session.id, { tags });
+    try {
+      await setSessionTags(session.id, tags);
+      loadTags();
+    } catch (error) {
+      console.error('Error updating session tags:', error);
+      updateSession(session.id, { tags: session.tags });
+      toast({
+        title: "Error",
+        description: "Failed to update tags",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const commitTag = (session: ChatSessionSummary) => {
+    const tag = normalizeTag(tagValue);
+    setTaggingId(null);
+    setTagValue('');
+    if (tag && !session.tags.includes(tag)) saveTags(session, [...session.tags, tag]);
+  };
+
+  const handleExport = async (session: ChatSessionSummary, format: TranscriptFormat) => {
+    setExportingId(session.id);
+    try {
+      const data = await loadSessionExport(session.id);
+      downloadBlob(await buildTranscript(data, format), transcriptFilename(session.title, format));
+    } catch (error) {
+      console.error('Error exporting session:', error);
+      toast({
+        title: "Export failed",
+        description: "Could not export the session",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !user) return;
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      toast({
+        title: "File too large",
+        description: "Session exports must be smaller than 10MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const data = parseSessionExport(await file.text());
+      const importedId = await importSession(data, user.id);
+      setQuery('');
+      setTagFilter(null);
+      setPage(0);
+      await Promise.all([loadChatSessions(), loadTags()]);
+      onSessionSelect(importedId);
+      toast({
+        title: "Session imported",
+        description: `${data.session.title} (${data.messages.length} messages)`,
+      });
+    } catch (error) {
+      console.error('Error importing session:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not import the session",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const pageCount = Math.max(Math.ceil(total / SESSIONS_PAGE_SIZE), 1);
+  const isFiltered = Boolean(debouncedQuery || tagFilter);
 
   return (
     <Card>
@@ -123,14 +274,77 @@ export function ChatHistory({ currentSessionId, onSessionSelect, user }: ChatHis
         <CardTitle className="flex items-center gap-2">
           <Clock className="w-5 h-5" />
           Chat History
+          {isLoading && sessions.length > 0 && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto h-8 gap-1"
+            onClick={() => importInputRef.current?.click()}
+            disabled={isImporting}
+            title="Recreate a session from a JSON export"
+          >
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleImport}
+          />
         </CardTitle>
       </CardHeader>
-      <CardContent>
-        {sessions.length === 0 ? (
+      <CardContent className="space-y-3">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search titles and messages"
+            className="pl-8"
+          />
+        </div>
+
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            <Badge
+              variant={tagFilter === null ? 'default' : 'outline'}
+              className="cursor-pointer font-normal"
+              onClick={() => { setTagFilter(null); setPage(0); }}
+            >
+              All
+            </Badge>
+            {allTags.map(tag => (
+              <Badge
+                key={tag}
+                variant={tagFilter === tag ? 'default' : 'outline'}
+                className="cursor-pointer font-normal"
+                onClick={() => { setTagFilter(tagFilter === tag ? null : tag); setPage(0); }}
+              >
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {isLoading && sessions.length === 0 ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-16 bg-muted rounded animate-pulse" />
+            ))}
+          </div>
+        ) : sessions.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">
             <MessageSquare className="w-12 h-12 mx-auto mb-4 opacity-50" />
-            <p>No chat sessions yet</p>
-            <p className="text-sm">Start a conversation to see your history</p>
+            {isFiltered ? (
+              <p>No sessions match your search</p>
+            ) : (
+              <>
+                <p>No chat sessions yet</p>
+                <p className="text-sm">Start a conversation to see your history</p>
+              </>
+            )}
           </div>
         ) : (
           <div className="space-y-2">
@@ -142,36 +356,194 @@ export function ChatHistory({ currentSessionId, onSessionSelect, user }: ChatHis
                 }`}
                 onClick={() => onSessionSelect(session.id)}
               >
-                <div className="flex items-start justify-between">
+                <div className="flex items-start justify-between gap-1">
                   <div className="flex-1 min-w-0">
-                    <h4 className="font-medium text-sm truncate">
-                      {session.title}
-                    </h4>
+                    {renamingId === session.id ? (
+                      <Input
+                        autoFocus
+                        value={renameValue}
+                        maxLength={MAX_TITLE_LENGTH}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onClick={(e) => e.stopPropagation()}
+                        onBlur={() => commitRename(session)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename(session);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="h-7 text-sm"
+                        aria-label="Session title"
+                      />
+                    ) : (
+                      <h4
+                        className="font-medium text-sm truncate flex items-center gap-1"
+                        onDoubleClick={(e) => startRename(session, e)}
+                        title="Double-click to rename"
+                      >
+                        {session.pinned && <Pin className="w-3 h-3 flex-shrink-0 text-primary" />}
+                        <span className="truncate">{session.title}</span>
+                      </h4>
+                    )}
                     <div className="flex items-center gap-2 mt-1">
                       <span className="text-xs text-muted-foreground">
-                        {formatDistanceToNow(new Date(session.updated_at))} ago
+                        {formatDistanceToNow(session.updatedAt)} ago
                       </span>
-                      {session.message_count > 0 && (
+                      {session.messageCount > 0 && (
                         <span className="text-xs bg-muted px-1.5 py-0.5 rounded">
-                          {session.message_count} messages
+                          {session.messageCount} messages
                         </span>
                       )}
                     </div>
+                    <div className="flex flex-wrap items-center gap-1 mt-1.5" onClick={(e) => e.stopPropagation()}>
+                      {session.tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="font-normal gap-1 pr-1">
+                          #{tag}
+                          <button
+                            type="button"
+                            className="rounded-sm opacity-60 hover:opacity-100"
+                            onClick={() => saveTags(session, session.tags.filter(existing => existing !== tag))}
+                            aria-label={`Remove tag ${tag}`}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                      {taggingId === session.id ? (
+                        <Input
+                          autoFocus
+                          value={tagValue}
+                          onChange={(e) => setTagValue(e.target.value)}
+                          onBlur={() => commitTag(session)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitTag(session);
+                            if (e.key === 'Escape') { setTaggingId(null); setTagValue(''); }
+                          }}
+                          placeholder="tag"
+                          className="h-6 w-24 text-xs"
+                          aria-label="New tag"
+                        />
+                      ) : (
+                        <button
+                          type="button"
+                          className="flex items-center gap-0.5 text-xs text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity hover:text-foreground"
+                          onClick={() => { setTaggingId(session.id); setTagValue(''); }}
+                        >
+                          <Tag className="w-3 h-3" />
+                          Add tag
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={cn(
+                        "transition-opacity h-8 w-8 p-0",
+                        session.pinned ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                      )}
+                      onClick={(e) => handleTogglePin(session, e)}
+                      title={session.pinned ? 'Unpin' : 'Pin to the top'}
+                    >
+                      {session.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8 p-0"
+                      onClick={(e) => startRename(session, e)}
+                      title="Rename"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8 p-0"
+                      onClick={(e) => { e.stopPropagation(); setSharedSession(session); }}
+                      title="Share a read-only link"
+                    >
+                      <Share2 className="w-4 h-4" />
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className={cn(
+                            "transition-opacity h-8 w-8 p-0",
+                            exportingId === session.id ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                          )}
+                          onClick={(e) => e.stopPropagation()}
+                          disabled={exportingId === session.id}
+                          title="Export"
+                        >
+                          {exportingId === session.id
+                            ? <Loader2 className="w-4 h-4 animate-spin" />
+                            : <Download className="w-4 h-4" />}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+                        {(Object.keys(TRANSCRIPT_FORMAT_LABELS) as TranscriptFormat[]).map(format => (
+                          <DropdownMenuItem key={format} onSelect={() => handleExport(session, format)}>
+                            {TRANSCRIPT_FORMAT_LABELS[format]}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8 p-0"
+                      onClick={(e) => handleDeleteSession(session.id, e)}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8 p-0"
-                    onClick={(e) => handleDeleteSession(session.id, e)}
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
                 </div>
               </div>
             ))}
           </div>
         )}
+
+        {total > SESSIONS_PAGE_SIZE && (
+          <div className="flex items-center justify-between pt-1">
+            <span className="text-xs text-muted-foreground">
+              {page * SESSIONS_PAGE_SIZE + 1}–{Math.min((page + 1) * SESSIONS_PAGE_SIZE, total)} of {total}
+            </span>
+            <div className="flex gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => setPage(prev => prev - 1)}
+                disabled={page === 0 || isLoading}
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={page + 1 >= pageCount || isLoading}
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
       </CardContent>
+
+      <ShareSessionDialog
+        open={sharedSession !== null}
+        onOpenChange={(open) => !open && setSharedSession(null)}
+        userId={user?.id ?? null}
+        session={sharedSession}
+      />
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -1,8 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Send, Bot, User, Loader2 } from 'lucide-react';
+import { Send, Bot, User, Loader2, Square, FileCode, X, Pencil, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { MarkdownMessage } from '@/components/MarkdownMessage';
+import { ChatFocus, formatFocus } from '@/lib/chatStream';
+import { Citation, formatCitation } from '@/lib/citations';
+import { BranchPosition } from '@/lib/messageTree';
 import { cn } from '@/lib/utils';
 
 interface Message {
@@ -10,17 +15,49 @@ interface Message {
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
+  citations?: Citation[];
+  // Where the message sits among alternatives (edits or regenerations); omitted when unbranched
+  branch?: BranchPosition;
 }
 
 interface ChatWindowProps {
   messages: Message[];
-  onSendMessage: (message: string) => void;
+  // Without it the conversation is read-only and the input is hidden
+  onSendMessage?: (message: string) => void;
   isLoading: boolean;
+  // Id of the assistant message currently being streamed into, if any
+  streamingMessageId?: string | null;
+  onStop?: () => void;
+  onCitationClick?: (citation: Citation) => void;
+  // Ask a question again with new wording, as a new branch
+  onEditMessage?: (messageId: string, content: string) => void;
+  // Answer a question again, as a new branch
+  onRegenerate?: (messageId: string) => void;
+  // Show the previous (-1) or next (1) alternative of a message
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+  // File or selection attached from the file browser; sent along with the next question
+  focus?: ChatFocus | null;
+  onClearFocus?: () => void;
   className?: string;
 }
 
-export function ChatWindow({ messages, onSendMessage, isLoading, className }: ChatWindowProps) {
+export function ChatWindow({
+  messages,
+  onSendMessage,
+  isLoading,
+  streamingMessageId,
+  onStop,
+  onCitationClick,
+  onEditMessage,
+  onRegenerate,
+  onSwitchBranch,
+  focus,
+  onClearFocus,
+  className
+}: ChatWindowProps) {
   const [inputValue, setInputValue] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -32,15 +69,35 @@ export function ChatWindow({ messages, onSendMessage, isLoading, className }: Ch
     scrollToBottom();
   }, [messages]);
 
+  // Suggest a question for newly attached context, selected so typing replaces it
+  useEffect(() => {
+    if (!focus) return;
+    setInputValue(focus.startLine === undefined ? 'What does this file do?' : 'Explain this code.');
+    requestAnimationFrame(() => inputRef.current?.select());
+  }, [focus]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputValue.trim() && !isLoading) {
+    if (inputValue.trim() && !isLoading && onSendMessage) {
       onSendMessage(inputValue.trim());
       setInputValue('');
       inputRef.current?.focus();
     }
   };
 
+  const startEdit = (message: Message) => {
+    setEditingId(message.id);
+    setEditValue(message.content);
+  };
+
+  const submitEdit = (message: Message) => {
+    const content = editValue.trim();
+    setEditingId(null);
+    if (content && content !== message.content && !isLoading) {
+      onEditMessage?.(message.id, content);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -68,11 +125,11 @@ export function ChatWindow({ messages, onSendMessage, isLoading, className }: Ch
             </div>
           ) : (
             <>
-              {messages.map((message, index) => (
+              {messages.filter(message => message.content || message.id !== streamingMessageId).map((message, index) => (
                 <div
                   key={message.id}
                   className={cn(
-                    "flex gap-3 animate-fade-in",
+                    "group flex gap-3 animate-fade-in",
                     message.role === 'user' ? "justify-end" : "justify-start"
                   )}
                   style={{ animationDelay: `${index * 0.1}s` }}
@@ -89,22 +146,125 @@ export function ChatWindow({ messages, onSendMessage, isLoading, className }: Ch
                       ? "bg-primary text-primary-foreground shadow-card" 
                       : "bg-card border shadow-card"
                   )}>
-                    <div className="prose prose-sm max-w-none">
-                      <p className={cn(
-                        "whitespace-pre-wrap leading-relaxed",
-                        message.role === 'user' ? "text-primary-foreground" : "text-foreground"
-                      )}>
-                        {message.content}
-                      </p>
-                    </div>
+                    {message.role === 'user' && editingId === message.id ? (
+                      <div className="space-y-2 min-w-[16rem]">
+                        <Textarea
+                          autoFocus
+                          value={editValue}
+                          onChange={(e) => setEditValue(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                              e.preventDefault();
+                              submitEdit(message);
+                            }
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          className="bg-background text-foreground"
+                          aria-label="Edit question"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="secondary" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => submitEdit(message)}
+                            disabled={!editValue.trim() || isLoading}
+                          >
+                            Save & ask
+                          </Button>
+                        </div>
+                      </div>
+                    ) : message.role === 'user' ? (
+                      <div className="prose prose-sm max-w-none">
+                        <p className="whitespace-pre-wrap leading-relaxed text-primary-foreground">
+                          {message.content}
+                        </p>
+                      </div>
+                    ) : (
+                      <>
+                        <MarkdownMessage
+                          content={message.content}
+                          isStreaming={message.id === streamingMessageId}
+                          className="text-foreground leading-relaxed"
+                        />
+                        {message.id === streamingMessageId && (
+                          <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-foreground/60 animate-pulse" />
+                        )}
+                        {message.citations && message.citations.length > 0 && (
+                          <div className="flex flex-wrap gap-1.5 mt-3">
+                            {message.citations.map(citation => (
+                              <button
+                                key={`${citation.fileId}:${citation.startLine}-${citation.endLine}`}
+                                type="button"
+                                onClick={() => onCitationClick?.(citation)}
+                                className="inline-flex items-center gap-1 rounded-full border bg-muted px-2 py-0.5 text-xs font-mono text-muted-foreground hover:bg-accent hover:text-accent-foreground transition-colors"
+                                title={`Open ${formatCitation(citation)}`}
+                              >
+                                <FileCode className="w-3 h-3" />
+                                {formatCitation(citation)}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
                     <div className={cn(
-                      "text-xs mt-2 opacity-70",
+                      "flex items-center gap-2 text-xs mt-2",
                       message.role === 'user' ? "text-primary-foreground" : "text-muted-foreground"
                     )}>
-                      {message.timestamp.toLocaleTimeString([], { 
-                        hour: '2-digit', 
-                        minute: '2-digit' 
-                      })}
+                      <span className="opacity-70">
+                        {message.timestamp.toLocaleTimeString([], { 
+                          hour: '2-digit', 
+                          minute: '2-digit' 
+                        })}
+                      </span>
+                      {message.branch && message.branch.count > 1 && onSwitchBranch && (
+                        <span className="flex items-center gap-0.5">
+                          <button
+                            type="button"
+                            onClick={() => onSwitchBranch(message.id, -1)}
+                            disabled={message.branch.index === 0 || isLoading}
+                            className="opacity-70 hover:opacity-100 disabled:opacity-30"
+                            aria-label="Previous version"
+                          >
+                            <ChevronLeft className="w-3 h-3" />
+                          </button>
+                          <span className="tabular-nums opacity-70">
+                            {message.branch.index + 1}/{message.branch.count}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => onSwitchBranch(message.id, 1)}
+                            disabled={message.branch.index === message.branch.count - 1 || isLoading}
+                            className="opacity-70 hover:opacity-100 disabled:opacity-30"
+                            aria-label="Next version"
+                          >
+                            <ChevronRight className="w-3 h-3" />
+                          </button>
+                        </span>
+                      )}
+                      {message.role === 'user' && onEditMessage && editingId !== message.id && !isLoading && (
+                        <button
+                          type="button"
+                          onClick={() => startEdit(message)}
+                          className="opacity-0 group-hover:opacity-70 hover:!opacity-100 transition-opacity"
+                          title="Edit and ask again"
+                        >
+                          <Pencil className="w-3 h-3" />
+                        </button>
+                      )}
+                      {message.role === 'assistant' && onRegenerate && !isLoading && (
+                        <button
+                          type="button"
+                          onClick={() => onRegenerate(message.id)}
+                          className="opacity-0 group-hover:opacity-70 hover:!opacity-100 transition-opacity"
+                          title="Regenerate answer"
+                        >
+                          <RefreshCw className="w-3 h-3" />
+                        </button>
+                      )}
                     </div>
                   </Card>
 
@@ -116,8 +276,8 @@ export function ChatWindow({ messages, onSendMessage, isLoading, className }: Ch
                 </div>
               ))}
 
-              {/* Typing Indicator */}
-              {isLoading && (
+              {/* Typing Indicator, until the first streamed tokens arrive */}
+              {isLoading && !messages.some(message => message.id === streamingMessageId && message.content) && (
                 <div className="flex gap-3 justify-start animate-fade-in">
                   <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center flex-shrink-0">
                     <Bot className="w-4 h-4 text-primary-foreground" />
@@ -137,33 +297,61 @@ export function ChatWindow({ messages, onSendMessage, isLoading, className }: Ch
       </div>
 
       {/* Input Area */}
-      <div className="border-t bg-background p-4">
-        <form onSubmit={handleSubmit} className="flex gap-2">
-          <Input
-            ref={inputRef}
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="Ask about your codebase..."
-            className="flex-1"
-            disabled={isLoading}
-          />
-          <Button 
-            type="submit" 
-            disabled={!inputValue.trim() || isLoading}
-            className="px-6"
-          >
-            {isLoading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
+      {onSendMessage && (
+        <div className="border-t bg-background p-4">
+          {focus && (
+            <div className="mb-2 flex items-center gap-2 text-xs text-muted-foreground">
+              <span>Asking about</span>
+              <span className="inline-flex items-center gap-1 rounded-full border bg-muted px-2 py-0.5 font-mono min-w-0">
+                <FileCode className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{formatFocus(focus)}</span>
+                {onClearFocus && (
+                  <button type="button" onClick={onClearFocus} title="Remove context" className="hover:text-foreground">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            </div>
+          )}
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              ref={inputRef}
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Ask about your codebase..."
+              className="flex-1"
+              disabled={isLoading}
+            />
+            {isLoading && onStop ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onStop}
+                className="px-6"
+                title="Stop generating"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
             ) : (
-              <Send className="w-4 h-4" />
+              <Button 
+                type="submit" 
+                disabled={!inputValue.trim() || isLoading}
+                className="px-6"
+              >
+                {isLoading ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Send className="w-4 h-4" />
+                )}
+              </Button>
             )}
-          </Button>
-        </form>
-        <div className="text-xs text-muted-foreground mt-2 text-center">
-          Press Enter to send, Shift+Enter for new line
+          </form>
+          <div className="text-xs text-muted-foreground mt-2 text-center">
+            Press Enter to send, Shift+Enter for new line
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
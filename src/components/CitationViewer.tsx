@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FileViewer } from '@/components/FileViewer';
+import { Citation } from '@/lib/citations';
+import { loadFileContent } from '@/lib/fileContents';
+
+interface CitationViewerProps {
+  citation: Citation | null;
+  onClose: () => void;
+}
+
+// Dialog showing a cited file scrolled to the cited lines
+export const CitationViewer: React.FC<CitationViewerProps> = ({ citation, onClose }) => {
+  const [content, setContent] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!citation) return;
+    let cancelled = false;
+    setContent(null);
+    setError(null);
+
+    loadFileContent(citation.fileId)
+      .then(file => {
+        if (!cancelled) setContent(file.content);
+      })
+      .catch(loadError => {
+        console.error('Error loading cited file:', loadError);
+        if (!cancelled) setError('This file is no longer available in the session.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [citation]);
+
+  return (
+    <Dialog open={!!citation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="font-mono text-base break-all">{citation?.path}</DialogTitle>
+          <DialogDescription>
+            {citation && (citation.startLine === citation.endLine
+              ? `Cited line ${citation.startLine}`
+              : `Cited lines ${citation.startLine}-${citation.endLine}`)}
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : content === null ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span className="text-sm">Loading file...</span>
+          </div>
+        ) : (
+          <FileViewer
+            content={content}
+            path={citation?.path}
+            highlightStart={citation?.startLine}
+            highlightEnd={citation?.endLine}
+            className="max-h-[60vh]"
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2, MessageSquare, Search } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FileTree } from '@/components/FileTree';
+import { CodeSearchPanel } from '@/components/CodeSearchPanel';
+import { FileViewer, LineRange } from '@/components/FileViewer';
+import { ChatFocus } from '@/lib/chatStream';
+import { SessionFileContent, isBinaryPath, loadFileContent } from '@/lib/fileContents';
+import { FileTreeFile, buildFileTree, filterFileTree } from '@/lib/fileTree';
+
+export type CodeBrowserView = 'files' | 'search';
+
+interface CodeBrowserProps {
+  sessionId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  files: FileTreeFile[];
+  // File to show when the browser opens, e.g. the one clicked in the upload list
+  initialFile?: FileTreeFile | null;
+  initialView?: CodeBrowserView;
+  onAsk: (focus: ChatFocus) => void;
+}
+
+const ancestorFolders = (path: string): string[] => {
+  const segments = path.split('/').slice(0, -1);
+  return segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+};
+
+// Dialog with the session's folder tree (or code search) next to a highlighted, searchable file viewer
+export const CodeBrowser: React.FC<CodeBrowserProps> = ({
+  sessionId,
+  open,
+  onOpenChange,
+  files,
+  initialFile,
+  initialView = 'files',
+  onAsk
+}) => {
+  const [view, setView] = useState<CodeBrowserView>(initialView);
+  const [selectedFile, setSelectedFile] = useState<FileTreeFile | null>(null);
+  // Line to scroll to, e.g. a search result's
+  const [targetLine, setTargetLine] = useState<number | undefined>();
+  const [file, setFile] = useState<SessionFileContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [treeFilter, setTreeFilter] = useState('');
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [selection, setSelection] = useState<LineRange | null>(null);
+
+  const tree = useMemo(() => buildFileTree(files), [files]);
+  const visibleTree = useMemo(() => filterFileTree(tree, treeFilter), [tree, treeFilter]);
+
+  const selectFile = (next: FileTreeFile, line?: number) => {
+    // Keep the loaded file when jumping between results in it
+    setSelectedFile(prev => (prev?.id === next.id ? prev : next));
+    setExpandedFolders(prev => new Set([...prev, ...ancestorFolders(next.path)]));
+    setTargetLine(line);
+    setSearchQuery('');
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setView(initialView);
+    if (!initialFile) return;
+    setSelectedFile(initialFile);
+    setExpandedFolders(prev => new Set([...prev, ...ancestorFolders(initialFile.path)]));
+  }, [open, initialFile, initialView]);
+
+  useEffect(() => {
+    if (!selectedFile) return;
+    let cancelled = false;
+    setFile(null);
+    setError(null);
+    setSelection(null);
+    setActiveMatch(0);
+
+    if (isBinaryPath(selectedFile.path)) {
+      setError('Binary files cannot be shown.');
+      return;
+    }
+
+    loadFileContent(selectedFile.id)
+      .then(loaded => {
+        if (!cancelled) setFile(loaded);
+      })
+      .catch(loadError => {
+        console.error('Error loading file:', loadError);
+        if (!cancelled) setError('This file could not be loaded.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile]);
+
+  const matchLines = useMemo(() => {
+    const needle = searchQuery.toLowerCase();
+    if (!file || !needle) return [];
+    return file.content.split('\n').flatMap((line, index) =>
+      line.toLowerCase().includes(needle) ? [index + 1] : []
+    );
+  }, [file, searchQuery]);
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matchLines.length === 0) return;
+    setActiveMatch(prev => (prev + direction + matchLines.length) % matchLines.length);
+  };
+
+  const toggleFolder = (path: string) => {
+    setExpandedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const ask = (range?: LineRange) => {
+    if (!file) return;
+    onAsk({ fileId: file.id, path: file.path, ...range });
+    onOpenChange(false);
+  };
+
+  const currentMatchLine = matchLines.length > 0 ? matchLines[Math.min(activeMatch, matchLines.length - 1)] : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Browse files</DialogTitle>
+          <DialogDescription>
+            Select lines in the viewer to ask about just that range.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-4 min-h-0">
+          <Tabs value={view} onValueChange={(value) => setView(value as CodeBrowserView)} className="min-h-0">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="files">Files</TabsTrigger>
+              <TabsTrigger value="search">Search</TabsTrigger>
+            </TabsList>
+            <TabsContent value="files" className="mt-2 flex flex-col gap-2">
+              <Input
+                value={treeFilter}
+                onChange={(e) => setTreeFilter(e.target.value)}
+                placeholder="Filter files..."
+                className="h-8"
+              />
+              <div className="h-[60vh] overflow-y-auto rounded-md border p-1">
+                {visibleTree.length === 0 ? (
+                  <p className="p-2 text-sm text-muted-foreground">No matching files</p>
+                ) : (
+                  <FileTree
+                    nodes={visibleTree}
+                    expandedFolders={expandedFolders}
+                    onToggleFolder={toggleFolder}
+                    selectedFileId={selectedFile?.id}
+                    onSelectFile={(file) => selectFile(file)}
+                    forceExpanded={!!treeFilter.trim()}
+                  />
+                )}
+              </div>
+            </TabsContent>
+            <TabsContent value="search" className="mt-2">
+              <CodeSearchPanel sessionId={sessionId} onOpenResult={selectFile} />
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex flex-col gap-2 min-w-0">
+            {selectedFile ? (
+              <>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-sm truncate flex-1 min-w-0" title={selectedFile.path}>
+                    {selectedFile.path}
+                  </span>
+                  <div className="relative">
+                    <Search className="absolute left-2 top-2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      value={searchQuery}
+                      onChange={(e) => {
+                        setSearchQuery(e.target.value);
+                        setActiveMatch(0);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1);
+                      }}
+                      placeholder="Find in file"
+                      className="h-8 w-44 pl-8"
+                    />
+                  </div>
+                  {searchQuery && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {matchLines.length === 0 ? 'No matches' : `${Math.min(activeMatch, matchLines.length - 1) + 1} of ${matchLines.length}`}
+                    </span>
+                  )}
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => stepMatch(-1)} disabled={matchLines.length === 0} title="Previous match">
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => stepMatch(1)} disabled={matchLines.length === 0} title="Next match">
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {error ? (
+                  <p className="text-sm text-destructive">{error}</p>
+                ) : file === null ? (
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span className="text-sm">Loading file...</span>
+                  </div>
+                ) : (
+                  <FileViewer
+                    content={file.content}
+                    path={file.path}
+                    highlightStart={currentMatchLine ?? targetLine}
+                    markedLines={matchLines}
+                    onSelectLines={setSelection}
+                    className="h-[52vh]"
+                  />
+                )}
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => ask(selection ?? undefined)} disabled={!file || !selection}>
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    {selection
+                      ? `Ask about lines ${selection.startLine}-${selection.endLine}`
+                      : 'Ask about selection'}
+                  </Button>
+                  <Button size="sm" onClick={() => ask()} disabled={!file}>
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Ask about this file
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="flex h-[60vh] items-center justify-center text-sm text-muted-foreground">
+                Pick a file from the tree to view it
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
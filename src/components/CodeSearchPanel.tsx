@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { FileCode, Loader2, Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { SearchResultGroup, searchCodebase } from '@/lib/codeSearch';
+import { FileTreeFile } from '@/lib/fileTree';
+
+interface CodeSearchPanelProps {
+  sessionId: string | null;
+  onOpenResult: (file: FileTreeFile, line: number) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Symbol and full-text search across the session; results open in the code viewer
+export const CodeSearchPanel: React.FC<CodeSearchPanelProps> = ({ sessionId, onOpenResult }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResultGroup[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId || !query.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setIsSearching(true);
+      searchCodebase(sessionId, query)
+        .then(groups => {
+          if (!cancelled) {
+            setResults(groups);
+            setError(null);
+          }
+        })
+        .catch(searchError => {
+          console.error('Code search failed:', searchError);
+          if (!cancelled) setError('Search failed. Please try again.');
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [sessionId, query]);
+
+  const resultLine = (group: SearchResultGroup, line: number, key: string, children: React.ReactNode) => (
+    <button
+      key={key}
+      type="button"
+      onClick={() => onOpenResult({ id: group.fileId, path: group.path }, line)}
+      className="flex w-full items-start gap-2 rounded px-2 py-1 text-left text-xs hover:bg-accent/50"
+    >
+      <span className="w-8 flex-shrink-0 text-right font-mono text-muted-foreground">{line}</span>
+      <span className="min-w-0 flex-1">{children}</span>
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-2 min-h-0">
+      <div className="relative">
+        <Search className="absolute left-2 top-2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Symbol or text..."
+          className="h-8 pl-8"
+          autoFocus
+        />
+      </div>
+
+      <div className="h-[60vh] overflow-y-auto rounded-md border p-1 space-y-3">
+        {isSearching && results.length === 0 ? (
+          <div className="flex items-center gap-2 p-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Searching...
+          </div>
+        ) : error ? (
+          <p className="p-2 text-sm text-destructive">{error}</p>
+        ) : !query.trim() ? (
+          <p className="p-2 text-sm text-muted-foreground">
+            Find where functions, classes and types are defined, or any text in the uploaded files.
+          </p>
+        ) : results.length === 0 ? (
+          <p className="p-2 text-sm text-muted-foreground">No results for "{query.trim()}"</p>
+        ) : (
+          results.map(group => (
+            <div key={group.fileId}>
+              <div className="flex items-center gap-1.5 px-1 text-sm font-medium" title={group.path}>
+                <FileCode className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate">{group.path}</span>
+              </div>
+              {group.symbols.map(symbol => resultLine(group, symbol.line, symbol.id, (
+                <span className="flex items-center gap-1.5 min-w-0">
+                  <Badge variant="secondary" className="px-1.5 py-0 text-[10px] font-normal">{symbol.kind}</Badge>
+                  <span className="truncate font-mono" title={symbol.signature}>{symbol.signature || symbol.name}</span>
+                </span>
+              )))}
+              {group.lines.map(match => resultLine(group, match.line, `line-${match.line}`, (
+                <span className="block truncate font-mono text-muted-foreground">{match.text}</span>
+              )))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
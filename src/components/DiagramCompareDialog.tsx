@@ -0,0 +1,237 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GitCompare, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { SessionDiagram, listDiagramVersions } from '@/lib/sessionDiagrams';
+import { ComparableSession, listComparableSessions, loadSessionSnapshot, versionSnapshot } from '@/lib/graphSnapshots';
+import { GraphDiff, diffImportGraphs } from '@/lib/diagrams/graphDiff';
+
+// A session's uploaded files, or one of its saved dependency graph versions
+const FILES_SNAPSHOT = 'files';
+
+interface SnapshotChoice {
+  sessionId: string;
+  snapshot: string;
+}
+
+interface DiagramCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string | null;
+  // Preselected as the newer side of the comparison
+  sessionId: string | null;
+  onCompare: (diff: GraphDiff, changesOnly: boolean) => void;
+}
+
+interface SnapshotPickerProps {
+  label: string;
+  sessions: ComparableSession[];
+  versions: SessionDiagram[] | undefined;
+  choice: SnapshotChoice;
+  onChange: (choice: SnapshotChoice) => void;
+}
+
+const SnapshotPicker: React.FC<SnapshotPickerProps> = ({ label, sessions, versions, choice, onChange }) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    <Select value={choice.sessionId} onValueChange={sessionId => onChange({ sessionId, snapshot: FILES_SNAPSHOT })}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose a session" />
+      </SelectTrigger>
+      <SelectContent>
+        {sessions.map(session => (
+          <SelectItem key={session.id} value={session.id}>
+            {session.title} · {session.updatedAt.toLocaleDateString()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <Select
+      value={choice.snapshot}
+      onValueChange={snapshot => onChange({ ...choice, snapshot })}
+      disabled={!choice.sessionId}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={FILES_SNAPSHOT}>Uploaded files</SelectItem>
+        {versions?.map(version => (
+          <SelectItem key={version.id} value={version.id}>
+            Saved dependency graph v{version.version} · {version.createdAt.toLocaleString()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+// Pick two snapshots of a codebase's dependency graph and compare them
+export const DiagramCompareDialog: React.FC<DiagramCompareDialogProps> = ({
+  open,
+  onOpenChange,
+  userId,
+  sessionId,
+  onCompare
+}) => {
+  const [sessions, setSessions] = useState<ComparableSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Saved "Module dependencies" versions per session, loaded when a session is picked
+  const [versionsBySession, setVersionsBySession] = useState<Record<string, SessionDiagram[]>>({});
+  const requestedVersions = useRef(new Set<string>());
+  const [before, setBefore] = useState<SnapshotChoice>({ sessionId: '', snapshot: FILES_SNAPSHOT });
+  const [after, setAfter] = useState<SnapshotChoice>({ sessionId: sessionId ?? '', snapshot: FILES_SNAPSHOT });
+  const [changesOnly, setChangesOnly] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open || !userId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setAfter({ sessionId: sessionId ?? '', snapshot: FILES_SNAPSHOT });
+    // Versions may have been saved since the dialog was last open
+    requestedVersions.current.clear();
+    setVersionsBySession({});
+
+    listComparableSessions(userId)
+      .then(loaded => {
+        if (cancelled) return;
+        setSessions(loaded);
+        // Default to comparing against the most recent other session
+        const previous = loaded.find(session => session.id !== sessionId);
+        setBefore({ sessionId: previous?.id ?? '', snapshot: FILES_SNAPSHOT });
+      })
+      .catch(loadError => {
+        console.error('Error loading sessions to compare:', loadError);
+        if (!cancelled) setError('Failed to load your sessions.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId, sessionId]);
+
+  useEffect(() => {
+    if (!open) return;
+    [before.sessionId, after.sessionId].forEach(id => {
+      if (!id || requestedVersions.current.has(id)) return;
+      requestedVersions.current.add(id);
+      listDiagramVersions(id)
+        .then(versions => {
+          setVersionsBySession(prev => ({
+            ...prev,
+            [id]: versions.filter(version => version.kind === 'dependencies'),
+          }));
+        })
+        .catch(loadError => {
+          console.error('Error loading saved dependency graphs:', loadError);
+          setVersionsBySession(prev => ({ ...prev, [id]: [] }));
+        });
+    });
+  }, [open, before.sessionId, after.sessionId]);
+
+  const snapshotLabel = (choice: SnapshotChoice, version: SessionDiagram | undefined) => {
+    const title = sessions.find(session => session.id === choice.sessionId)?.title ?? 'Session';
+    return version ? `${title} v${version.version}` : `${title} (uploaded files)`;
+  };
+
+  const loadSnapshot = (choice: SnapshotChoice) => {
+    const version = versionsBySession[choice.sessionId]?.find(candidate => candidate.id === choice.snapshot);
+    const label = snapshotLabel(choice, version);
+    return version ? Promise.resolve(versionSnapshot(version, label)) : loadSessionSnapshot(choice.sessionId, label);
+  };
+
+  const compare = async () => {
+    setIsComparing(true);
+    try {
+      const [beforeSnapshot, afterSnapshot] = await Promise.all([loadSnapshot(before), loadSnapshot(after)]);
+      onCompare(diffImportGraphs(beforeSnapshot, afterSnapshot), changesOnly);
+    } catch (compareError) {
+      console.error('Error comparing dependency graphs:', compareError);
+      toast({
+        title: "Comparison Failed",
+        description: "Failed to load the files or saved graphs to compare",
+        variant: "destructive",
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const isSameSnapshot = before.sessionId === after.sessionId && before.snapshot === after.snapshot;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="w-5 h-5" />
+            Compare dependency graphs
+          </DialogTitle>
+          <DialogDescription>
+            Compare the module dependencies of two sessions, e.g. an older and a newer upload of the same repository, or two saved versions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span className="text-sm">Loading sessions...</span>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <SnapshotPicker
+                label="Before"
+                sessions={sessions}
+                versions={versionsBySession[before.sessionId]}
+                choice={before}
+                onChange={setBefore}
+              />
+              <SnapshotPicker
+                label="After"
+                sessions={sessions}
+                versions={versionsBySession[after.sessionId]}
+                choice={after}
+                onChange={setAfter}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="compare-changes-only"
+                checked={changesOnly}
+                onCheckedChange={checked => setChangesOnly(checked === true)}
+              />
+              <Label htmlFor="compare-changes-only" className="font-normal">
+                Only show changed modules and dependencies
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={compare}
+            disabled={isLoading || isComparing || !before.sessionId || !after.sessionId || isSameSnapshot}
+            className="flex items-center gap-2"
+          >
+            {isComparing ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+            Compare
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Image, Loader2 } from 'lucide-react';
+import { Button, ButtonProps } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_BACKGROUND_LABELS,
+  EXPORT_SCALES,
+  ExportBackground,
+  ExportFormat,
+  ExportOptions,
+  downloadBlob,
+  exportDiagram,
+} from '@/lib/diagrams/exportDiagram';
+
+interface DiagramExportMenuProps {
+  code: string;
+  // Markup last passed to safeSetInnerHTML by the preview, null until a render succeeds
+  renderedSvg: string | null;
+  variant?: ButtonProps['variant'];
+  size?: ButtonProps['size'];
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  svg: 'SVG (vector)',
+  png: 'PNG',
+  pdf: 'PDF',
+};
+
+export const DiagramExportMenu: React.FC<DiagramExportMenuProps> = ({ code, renderedSvg, variant = 'outline', size }) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const update = (changes: Partial<ExportOptions>) => setOptions(current => ({ ...current, ...changes }));
+
+  const runExport = async () => {
+    if (!renderedSvg) return;
+
+    setIsExporting(true);
+    try {
+      const blob = await exportDiagram(code, renderedSvg, options);
+      downloadBlob(blob, `codebase-diagram-${Date.now()}.${options.format}`);
+      setOpen(false);
+      toast({
+        title: "Diagram Exported",
+        description: `Saved as ${options.format.toUpperCase()}${options.format === 'svg' ? '' : ` at ${options.scale}x`}`,
+      });
+    } catch (error) {
+      console.error('Error exporting diagram:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export the diagram",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant={variant} size={size} disabled={!renderedSvg || isExporting} className="flex items-center gap-2">
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Image className="w-4 h-4" />}
+          {isExporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <div className="space-y-1">
+          <Label>Format</Label>
+          <Select value={options.format} onValueChange={value => update({ format: value as ExportFormat })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+                <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Scale</Label>
+          <Select
+            value={String(options.scale)}
+            onValueChange={value => update({ scale: Number(value) })}
+            disabled={options.format === 'svg'}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_SCALES.map(scale => (
+                <SelectItem key={scale} value={String(scale)}>{scale}x</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label>Background</Label>
+          <Select value={options.background} onValueChange={value => update({ background: value as ExportBackground })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EXPORT_BACKGROUND_LABELS) as ExportBackground[]).map(background => (
+                <SelectItem key={background} value={background}>{EXPORT_BACKGROUND_LABELS[background]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {options.format === 'pdf' && options.background === 'transparent' && (
+            <p className="text-xs text-muted-foreground">PDF pages are exported on white</p>
+          )}
+        </div>
+
+        <Button onClick={runExport} disabled={!renderedSvg || isExporting} className="w-full">
+          Download {options.format.toUpperCase()}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
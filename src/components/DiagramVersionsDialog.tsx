@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { DIAGRAM_SOURCE_LABELS, SessionDiagram, listDiagramVersions } from '@/lib/sessionDiagrams';
+import { diffLines } from '@/lib/diagrams/lineDiff';
+import { getDiagramKind } from '@/lib/diagrams/diagramKinds';
+import { cn } from '@/lib/utils';
+
+interface DiagramVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string | null;
+  // Code in the editor, compared against when a single version is selected
+  currentCode: string;
+  onRestore: (version: SessionDiagram) => void;
+}
+
+// Saved versions of the session's diagram, with restore and a line diff of two versions
+export const DiagramVersionsDialog: React.FC<DiagramVersionsDialogProps> = ({
+  open,
+  onOpenChange,
+  sessionId,
+  currentCode,
+  onRestore
+}) => {
+  const [versions, setVersions] = useState<SessionDiagram[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open || !sessionId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setSelectedIds([]);
+
+    listDiagramVersions(sessionId)
+      .then(loaded => {
+        if (!cancelled) setVersions(loaded);
+      })
+      .catch(loadError => {
+        console.error('Error loading diagram versions:', loadError);
+        if (!cancelled) setError('Failed to load the version history.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, sessionId]);
+
+  // Keep at most two selections, dropping the oldest pick
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id)
+      ? prev.filter(selected => selected !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const comparison = useMemo(() => {
+    const selected = versions
+      .filter(version => selectedIds.includes(version.id))
+      .sort((a, b) => a.version - b.version);
+    if (selected.length === 0) return null;
+
+    const [from, to] = selected;
+    return {
+      fromLabel: `v${from.version}`,
+      toLabel: to ? `v${to.version}` : 'current editor',
+      lines: diffLines(from.code, to ? to.code : currentCode),
+    };
+  }, [versions, selectedIds, currentCode]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Diagram versions
+          </DialogTitle>
+          <DialogDescription>
+            Select one version to compare it with the editor, or two to compare them with each other.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span className="text-sm">Loading versions...</span>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved versions for this session yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[20rem_1fr] gap-4">
+            <ul className="max-h-[60vh] overflow-y-auto space-y-1 pr-1">
+              {versions.map(version => (
+                <li
+                  key={version.id}
+                  className={cn(
+                    "flex items-start gap-2 rounded-md border p-2 text-sm",
+                    selectedIds.includes(version.id) && "border-primary bg-accent/40"
+                  )}
+                >
+                  <Checkbox
+                    checked={selectedIds.includes(version.id)}
+                    onCheckedChange={() => toggleSelected(version.id)}
+                    className="mt-0.5"
+                    aria-label={`Compare version ${version.version}`}
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{version.version}</span>
+                      <Badge variant="secondary" className="font-normal">{DIAGRAM_SOURCE_LABELS[version.source] ?? version.source}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {version.createdAt.toLocaleString()}
+                    </div>
+                    {(version.kind || version.provider || version.fileSet.length > 0) && (
+                      <div className="text-xs text-muted-foreground truncate">
+                        {[
+                          getDiagramKind(version.kind)?.label,
+                          version.model ?? version.provider,
+                          version.fileSet.length > 0 && `${version.fileSet.length} files`
+                        ]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => onRestore(version)}
+                    title="Load this version into the editor as a new version"
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="min-w-0">
+              {comparison ? (
+                <>
+                  <p className="mb-2 text-sm text-muted-foreground">
+                    {comparison.fromLabel} → {comparison.toLabel}
+                  </p>
+                  <div className="max-h-[56vh] overflow-auto rounded-md border font-mono text-xs">
+                    {comparison.lines.map((line, index) => (
+                      <div
+                        key={index}
+                        className={cn(
+                          "flex whitespace-pre",
+                          line.type === 'added' && "bg-green-100 dark:bg-green-900/30",
+                          line.type === 'removed' && "bg-red-100 dark:bg-red-900/30"
+                        )}
+                      >
+                        <span className="w-10 flex-shrink-0 select-none pr-2 text-right text-muted-foreground">{line.oldLine ?? ''}</span>
+                        <span className="w-10 flex-shrink-0 select-none pr-2 text-right text-muted-foreground border-r">{line.newLine ?? ''}</span>
+                        <span className="w-4 flex-shrink-0 select-none text-center">
+                          {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+                        </span>
+                        <span>{line.text || ' '}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <div className="flex h-full min-h-[200px] items-center justify-center text-sm text-muted-foreground">
+                  Select a version to see what changed
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
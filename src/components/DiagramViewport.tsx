@@ -0,0 +1,386 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, FileCode, Maximize, MessageSquare, Search, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface DiagramViewportProps {
+  // Container Mermaid renders into; the viewport pans and zooms it
+  contentRef: React.RefObject<HTMLDivElement>;
+  // Bumped after every successful render
+  renderVersion: number;
+  // Changed when a different diagram is loaded (not on edits), to fit the new one to the screen
+  fitKey: number;
+  // Mermaid node id -> file path
+  nodeFiles: Record<string, string>;
+  onOpenFile: (path: string) => void;
+  onAskAbout: (path: string) => void;
+  className?: string;
+}
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface SelectedNode {
+  domId: string;
+  label: string;
+  path: string | null;
+}
+
+// Flowchart, class and ER nodes; sequence and C4 shapes have no stable node ids
+const NODE_SELECTOR = 'g.node, g[id^="entity-"]';
+// Mermaid DOM ids look like flowchart-<id>-<n>, classId-<id>-<n> or entity-<id>-<n>
+const DOM_ID_PATTERN = /(?:^|-)(?:flowchart|classId|entity)-(.+)-\d+$/;
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.25;
+const FIT_PADDING = 24;
+const MINIMAP_WIDTH = 180;
+const MINIMAP_HEIGHT = 120;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Zoom by `factor` keeping the point (px, py) of the viewport still
+const zoomAt = (view: View, px: number, py: number, factor: number): View => {
+  const scale = clampScale(view.scale * factor);
+  const ratio = scale / view.scale;
+  return { scale, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio };
+};
+
+const nodeIdOf = (element: Element): string | null => element.id.match(DOM_ID_PATTERN)?.[1] ?? null;
+
+const nodeLabelOf = (element: Element): string => element.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+
+// Pan/zoom surface for the rendered diagram, with fit-to-screen, a minimap,
+// node search and click-through from nodes to their files
+export const DiagramViewport: React.FC<DiagramViewportProps> = ({
+  contentRef,
+  renderVersion,
+  fitKey,
+  nodeFiles,
+  onOpenFile,
+  onAskAbout,
+  className
+}) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const minimapRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; view: View; target: EventTarget | null; moved: boolean } | null>(null);
+  const fittedKeyRef = useRef<number | null>(null);
+  const matchesRef = useRef<Element[]>([]);
+  const [view, setView] = useState<View>({ scale: 1, x: 0, y: 0 });
+  const [contentSize, setContentSize] = useState({ width: 0, height: 0 });
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [query, setQuery] = useState('');
+  const [matchCount, setMatchCount] = useState(0);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [selected, setSelected] = useState<SelectedNode | null>(null);
+
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewportSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  const fitToScreen = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || contentSize.width === 0 || contentSize.height === 0) return;
+    const { clientWidth, clientHeight } = viewport;
+    const scale = clampScale(Math.min(
+      (clientWidth - FIT_PADDING * 2) / contentSize.width,
+      (clientHeight - FIT_PADDING * 2) / contentSize.height,
+      2
+    ));
+    setView({
+      scale,
+      x: (clientWidth - contentSize.width * scale) / 2,
+      y: (clientHeight - contentSize.height * scale) / 2,
+    });
+  }, [contentSize]);
+
+  // After each render: size the SVG to its natural size (Mermaid caps it at the container
+  // width), mark nodes that link to files and refresh the minimap
+  useEffect(() => {
+    const svg = contentRef.current?.querySelector('svg');
+    if (!svg) {
+      setContentSize({ width: 0, height: 0 });
+      minimapRef.current?.replaceChildren();
+      return;
+    }
+
+    const viewBox = svg.viewBox.baseVal;
+    const width = viewBox?.width || svg.getBoundingClientRect().width;
+    const height = viewBox?.height || svg.getBoundingClientRect().height;
+    svg.style.maxWidth = 'none';
+    svg.setAttribute('width', String(width));
+    svg.setAttribute('height', String(height));
+    setContentSize({ width, height });
+
+    svg.querySelectorAll(NODE_SELECTOR).forEach(node => {
+      const nodeId = nodeIdOf(node);
+      node.classList.toggle('diagram-node-linked', Boolean(nodeId && nodeFiles[nodeId]));
+    });
+
+    if (minimapRef.current) {
+      const clone = svg.cloneNode(true) as SVGSVGElement;
+      clone.removeAttribute('id');
+      clone.setAttribute('width', '100%');
+      clone.setAttribute('height', '100%');
+      minimapRef.current.replaceChildren(clone);
+    }
+  }, [contentRef, renderVersion, nodeFiles]);
+
+  // Fit once per loaded diagram, after its size is known
+  useEffect(() => {
+    if (contentSize.width === 0 || viewportSize.width === 0 || fittedKeyRef.current === fitKey) return;
+    fittedKeyRef.current = fitKey;
+    fitToScreen();
+  }, [fitKey, contentSize, viewportSize, fitToScreen]);
+
+  // A different diagram has different nodes
+  useEffect(() => {
+    setSelected(null);
+  }, [fitKey]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const factor = event.deltaY < 0 ? 1.1 : 1 / 1.1;
+      setView(current => zoomAt(current, event.clientX - rect.left, event.clientY - rect.top, factor));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Highlight search matches and dim everything else
+  useEffect(() => {
+    const nodes = Array.from(contentRef.current?.querySelectorAll(NODE_SELECTOR) ?? []);
+    const needle = query.trim().toLowerCase();
+    const matches = needle ? nodes.filter(node => nodeLabelOf(node).toLowerCase().includes(needle)) : [];
+    nodes.forEach(node => {
+      node.classList.toggle('diagram-node-match', matches.includes(node));
+      node.classList.toggle('diagram-node-dimmed', Boolean(needle) && !matches.includes(node));
+    });
+    matchesRef.current = matches;
+    setMatchCount(matches.length);
+    setMatchIndex(0);
+  }, [contentRef, query, renderVersion]);
+
+  useEffect(() => {
+    contentRef.current?.querySelectorAll('.diagram-node-selected').forEach(node => node.classList.remove('diagram-node-selected'));
+    if (selected) {
+      contentRef.current?.querySelector(`[id="${CSS.escape(selected.domId)}"]`)?.classList.add('diagram-node-selected');
+    }
+  }, [contentRef, selected, renderVersion]);
+
+  const centerOn = useCallback((element: Element) => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current;
+    if (!viewport || !content) return;
+    const elementRect = element.getBoundingClientRect();
+    const contentRect = content.getBoundingClientRect();
+    setView(current => {
+      const cx = (elementRect.left + elementRect.width / 2 - contentRect.left) / current.scale;
+      const cy = (elementRect.top + elementRect.height / 2 - contentRect.top) / current.scale;
+      return { ...current, x: viewport.clientWidth / 2 - cx * current.scale, y: viewport.clientHeight / 2 - cy * current.scale };
+    });
+  }, [contentRef]);
+
+  const stepMatch = (direction: 1 | -1) => {
+    const matches = matchesRef.current;
+    if (matches.length === 0) return;
+    const next = (matchIndex + direction + matches.length) % matches.length;
+    setMatchIndex(next);
+    centerOn(matches[next]);
+  };
+
+  const zoomBy = (factor: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    setView(current => zoomAt(current, viewport.clientWidth / 2, viewport.clientHeight / 2, factor));
+  };
+
+  const selectNodeAt = (target: EventTarget | null) => {
+    const node = target instanceof Element ? target.closest(NODE_SELECTOR) : null;
+    if (!node || !contentRef.current?.contains(node)) {
+      setSelected(null);
+      return;
+    }
+    const nodeId = nodeIdOf(node);
+    setSelected({
+      domId: node.id,
+      label: nodeLabelOf(node) || nodeId || 'Node',
+      path: nodeId ? nodeFiles[nodeId] ?? null : null,
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    dragRef.current = { startX: e.clientX, startY: e.clientY, view, target: e.target, moved: false };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+    drag.moved = true;
+    setView({ ...drag.view, x: drag.view.x + dx, y: drag.view.y + dy });
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // A press without movement is a click on whatever was under the pointer
+    if (drag && !drag.moved) selectNodeAt(drag.target);
+  };
+
+  // Minimap: the whole diagram scaled into a fixed box, with the visible area outlined
+  const minimapScale = contentSize.width > 0
+    ? Math.min(MINIMAP_WIDTH / contentSize.width, MINIMAP_HEIGHT / contentSize.height)
+    : 0;
+  const moveToMinimapPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (minimapScale === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const cx = (e.clientX - rect.left) / minimapScale;
+    const cy = (e.clientY - rect.top) / minimapScale;
+    setView(current => ({
+      ...current,
+      x: viewportSize.width / 2 - cx * current.scale,
+      y: viewportSize.height / 2 - cy * current.scale,
+    }));
+  };
+
+  return (
+    <div className={cn("relative overflow-hidden rounded-lg border bg-white dark:bg-background", className)}>
+      <div
+        ref={viewportRef}
+        className="absolute inset-0 cursor-grab active:cursor-grabbing touch-none select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { dragRef.current = null; }}
+      >
+        <div
+          ref={contentRef}
+          className="mermaid-container absolute left-0 top-0 origin-top-left"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        />
+      </div>
+
+      {/* Toolbar */}
+      <div className="absolute left-2 top-2 flex items-center gap-1 rounded-md border bg-background/90 p-1 shadow-sm">
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={fitToScreen} title="Fit to screen">
+          <Maximize className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs tabular-nums"
+          onClick={() => zoomBy(1 / view.scale)}
+          title="Reset to 100%"
+        >
+          {Math.round(view.scale * 100)}%
+        </Button>
+        <div className="relative ml-1">
+          <Search className="absolute left-2 top-1/2 h-3 w-3 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1);
+              else if (e.key === 'Escape') setQuery('');
+            }}
+            placeholder="Find node"
+            className="h-7 w-40 pl-6 text-xs"
+            aria-label="Find node"
+          />
+        </div>
+        {query.trim() && (
+          <>
+            <span className="px-1 text-xs text-muted-foreground tabular-nums">
+              {matchCount > 0 ? `${matchIndex + 1}/${matchCount}` : '0/0'}
+            </span>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => stepMatch(-1)} disabled={matchCount === 0} title="Previous match">
+              <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => stepMatch(1)} disabled={matchCount === 0} title="Next match">
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* Selected node */}
+      {selected && (
+        <div className="absolute bottom-2 left-2 flex max-w-[calc(100%-220px)] items-center gap-2 rounded-md border bg-background/95 p-2 text-sm shadow-sm">
+          <div className="min-w-0">
+            <p className="truncate font-medium">{selected.label}</p>
+            <p className="truncate text-xs text-muted-foreground">{selected.path ?? 'Not linked to a file'}</p>
+          </div>
+          {selected.path && (
+            <>
+              <Button variant="outline" size="sm" className="h-7 flex-shrink-0" onClick={() => onOpenFile(selected.path!)}>
+                <FileCode className="w-3 h-3 mr-1" />
+                Open file
+              </Button>
+              <Button variant="outline" size="sm" className="h-7 flex-shrink-0" onClick={() => onAskAbout(selected.path!)}>
+                <MessageSquare className="w-3 h-3 mr-1" />
+                Ask about this
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="sm" className="h-7 w-7 flex-shrink-0 p-0" onClick={() => setSelected(null)} title="Clear selection">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* Minimap; kept mounted so the render effect can always fill it */}
+      <div
+        className={cn(
+          "absolute bottom-2 right-2 cursor-pointer overflow-hidden rounded border bg-background/90 shadow-sm",
+          minimapScale === 0 && "hidden"
+        )}
+        style={{ width: contentSize.width * minimapScale, height: contentSize.height * minimapScale }}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          moveToMinimapPoint(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.buttons === 1) moveToMinimapPoint(e);
+        }}
+        title="Click or drag to move the view"
+      >
+        <div ref={minimapRef} className="pointer-events-none h-full w-full opacity-70" />
+        <div
+          className="pointer-events-none absolute border-2 border-primary bg-primary/10"
+          style={{
+            left: (-view.x / view.scale) * minimapScale,
+            top: (-view.y / view.scale) * minimapScale,
+            width: (viewportSize.width / view.scale) * minimapScale,
+            height: (viewportSize.height / view.scale) * minimapScale,
+          }}
+        />
+      </div>
+    </div>
+  );
+};
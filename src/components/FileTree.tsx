@@ -0,0 +1,81 @@
+import React from 'react';
+import { ChevronDown, ChevronRight, FileCode, Folder, FolderOpen } from 'lucide-react';
+import { FileTreeFile, FileTreeNode } from '@/lib/fileTree';
+import { cn } from '@/lib/utils';
+
+interface FileTreeProps {
+  nodes: FileTreeNode[];
+  expandedFolders: Set<string>;
+  onToggleFolder: (path: string) => void;
+  selectedFileId?: string | null;
+  onSelectFile: (file: FileTreeFile) => void;
+  // While filtering every matching folder is shown open
+  forceExpanded?: boolean;
+  depth?: number;
+}
+
+export const FileTree: React.FC<FileTreeProps> = ({
+  nodes,
+  expandedFolders,
+  onToggleFolder,
+  selectedFileId,
+  onSelectFile,
+  forceExpanded,
+  depth = 0
+}) => (
+  <ul className="text-sm">
+    {nodes.map(node => {
+      const indent = { paddingLeft: `${depth * 12 + 4}px` };
+
+      if (node.file) {
+        const file = node.file;
+        return (
+          <li key={node.path}>
+            <button
+              type="button"
+              onClick={() => onSelectFile(file)}
+              className={cn(
+                "flex w-full items-center gap-1.5 rounded px-1 py-0.5 text-left hover:bg-accent/50",
+                file.id === selectedFileId && "bg-accent text-accent-foreground"
+              )}
+              style={indent}
+              title={node.path}
+            >
+              <FileCode className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate">{node.name}</span>
+            </button>
+          </li>
+        );
+      }
+
+      const isOpen = forceExpanded || expandedFolders.has(node.path);
+      return (
+        <li key={node.path}>
+          <button
+            type="button"
+            onClick={() => onToggleFolder(node.path)}
+            className="flex w-full items-center gap-1 rounded px-1 py-0.5 text-left hover:bg-accent/50"
+            style={indent}
+          >
+            {isOpen ? <ChevronDown className="w-3 h-3 flex-shrink-0" /> : <ChevronRight className="w-3 h-3 flex-shrink-0" />}
+            {isOpen
+              ? <FolderOpen className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+              : <Folder className="w-4 h-4 flex-shrink-0 text-muted-foreground" />}
+            <span className="truncate">{node.name}</span>
+          </button>
+          {isOpen && (
+            <FileTree
+              nodes={node.children}
+              expandedFolders={expandedFolders}
+              onToggleFolder={onToggleFolder}
+              selectedFileId={selectedFileId}
+              onSelectFile={onSelectFile}
+              forceExpanded={forceExpanded}
+              depth={depth + 1}
+            />
+          )}
+        </li>
+      );
+    })}
+  </ul>
+);
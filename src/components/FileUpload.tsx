@@ -1,24 +1,34 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, File, X, Check, AlertCircle } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Upload, File, X, Check, AlertCircle, RotateCw, FolderOpen, Loader2, FolderTree, Search } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { validateFileType, validateFileSize } from '@/lib/security';
 import { useToast } from '@/hooks/use-toast';
+import { CollectedFile, isArchive, extractArchive, collectDirectoryEntries, MAX_ARCHIVE_SIZE } from '@/lib/archives';
+import { filterIgnoredFiles, VENDOR_DIRECTORIES } from '@/lib/gitignore';
 
 interface UploadedFile {
   id: string;
   name: string;
   size: number;
   type: string;
+  path: string;
   status: 'uploading' | 'success' | 'error';
   progress?: number;
+  processed?: boolean;
+  // Files of an attached workspace codebase are listed but can't be removed from here
+  codebaseId?: string | null;
 }
 
 interface FileUploadProps {
-  onFilesUploaded: (files: UploadedFile[]) => void;
+  onFilesSelected: (files: CollectedFile[]) => void;
   uploadedFiles: UploadedFile[];
   onRemoveFile: (fileId: string) => void;
+  onRetryFile: (fileId: string) => void;
+  // Opens the file browser, at the given file when one was clicked
+  onBrowseFiles?: (fileId?: string) => void;
+  onSearchCode?: () => void;
   className?: string;
 }
 
@@ -32,12 +42,32 @@ const ACCEPTED_FILE_TYPES = {
   '.yml': { icon: '⚙️', label: 'YAML' },
   '.md': { icon: '📝', label: 'Markdown' },
   '.txt': { icon: '📄', label: 'Text' },
+  '.ts': { icon: '📘', label: 'TypeScript' },
+  '.tsx': { icon: '📘', label: 'TypeScript' },
+  '.jsx': { icon: '📄', label: 'JavaScript' },
+  '.go': { icon: '🐹', label: 'Go' },
+  '.c': { icon: '⚡', label: 'C' },
+  '.h': { icon: '⚡', label: 'C Header' },
+  '.hpp': { icon: '⚡', label: 'C++ Header' },
+  '.sql': { icon: '🗄️', label: 'SQL' },
+  '.html': { icon: '🌐', label: 'HTML' },
+  '.css': { icon: '🎨', label: 'CSS' },
+  '.toml': { icon: '⚙️', label: 'TOML' },
+  '.xml': { icon: '📋', label: 'XML' },
+  '.sh': { icon: '💻', label: 'Shell' },
+  '.zip': { icon: '🗜️', label: 'ZIP Archive' },
+  '.gz': { icon: '🗜️', label: 'Tar Archive' },
+  '.tgz': { icon: '🗜️', label: 'Tar Archive' },
+  '.tar': { icon: '🗜️', label: 'Tar Archive' },
   '.png': { icon: '🖼️', label: 'PNG Image' },
   '.jpg': { icon: '🖼️', label: 'JPG Image' },
   '.jpeg': { icon: '🖼️', label: 'JPEG Image' },
   '.svg': { icon: '🎨', label: 'SVG Image' }
 };
 
+// Extensionless files worth keeping when unpacking a whole repository
+const ACCEPTED_FILE_NAMES = ['Dockerfile', 'Makefile', 'Procfile', 'Gemfile'];
+
 const ALLOWED_MIME_TYPES = [
   'text/javascript',
   'text/plain',
@@ -52,12 +82,27 @@ const ALLOWED_MIME_TYPES = [
 ];
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_FILES_PER_UPLOAD = 2000;
+
+const isAcceptedTreeFile = (path: string) => {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const extension = name.includes('.') ? '.' + name.split('.').pop()?.toLowerCase() : '';
+  return extension in ACCEPTED_FILE_TYPES || ACCEPTED_FILE_NAMES.includes(name);
+};
 
-export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, className }: FileUploadProps) {
+export function FileUpload({ onFilesSelected, uploadedFiles, onRemoveFile, onRetryFile, onBrowseFiles, onSearchCode, className }: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  // React has no typed prop for directory pickers
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const isUploading = uploadedFiles.some(file => file.status === 'uploading');
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -85,46 +130,72 @@ export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, class
     setIsDragOver(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragOver(false);
-    
-    const files = Array.from(e.dataTransfer.files);
-    handleFiles(files);
-  }, []);
+  // Loose files are picked one by one; tree files come from archives and folders
+  const handleFiles = useCallback(async (looseFiles: File[], treeFiles: CollectedFile[] = []) => {
+    setIsExtracting(true);
+    const rejectedFiles: string[] = [];
+    const collected: CollectedFile[] = [];
+    const fromTrees: CollectedFile[] = [...treeFiles];
+    let skippedArchiveCount = 0;
 
-  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    handleFiles(files);
-  }, []);
+    try {
+      for (const file of looseFiles) {
+        if (isArchive(file.name)) {
+          if (!validateFileSize(file, MAX_ARCHIVE_SIZE)) {
+            rejectedFiles.push(`${file.name}: Archive too large (max 50MB)`);
+            continue;
+          }
+          try {
+            const extracted = await extractArchive(file, MAX_FILE_SIZE);
+            fromTrees.push(...extracted.files);
+            skippedArchiveCount += extracted.skippedCount;
+          } catch (error) {
+            console.error(`Error extracting ${file.name}:`, error);
+            rejectedFiles.push(`${file.name}: Could not be unpacked`);
+          }
+          continue;
+        }
 
-  const handleFiles = async (files: File[]) => {
-    setIsUploading(true);
-    
-    // Validate files before processing
-    const validFiles: File[] = [];
-    const rejectedFiles: string[] = [];
-    
-    for (const file of files) {
-      // Check file size
-      if (!validateFileSize(file, MAX_FILE_SIZE)) {
-        rejectedFiles.push(`${file.name}: File too large (max 10MB)`);
-        continue;
+        // Check file size
+        if (!validateFileSize(file, MAX_FILE_SIZE)) {
+          rejectedFiles.push(`${file.name}: File too large (max 10MB)`);
+          continue;
+        }
+
+        // Check file type by extension and MIME type
+        const extension = getFileExtension(file.name);
+        const hasValidExtension = extension in ACCEPTED_FILE_TYPES;
+        const hasValidMimeType = ALLOWED_MIME_TYPES.includes(file.type) || file.type === '';
+
+        if (!hasValidExtension && !hasValidMimeType) {
+          rejectedFiles.push(`${file.name}: Unsupported file type`);
+          continue;
+        }
+
+        collected.push({ path: file.name, file });
+      }
+
+      // Whole trees are filtered quietly: .gitignore, vendor folders and unknown types are expected there
+      const { kept, ignoredCount } = await filterIgnoredFiles(fromTrees);
+      let skippedCount = ignoredCount + skippedArchiveCount;
+      for (const entry of kept) {
+        if (!isAcceptedTreeFile(entry.path) || !validateFileSize(entry.file, MAX_FILE_SIZE)) {
+          skippedCount++;
+          continue;
+        }
+        collected.push(entry);
       }
-      
-      // Check file type by extension and MIME type
-      const extension = '.' + file.name.split('.').pop()?.toLowerCase();
-      const hasValidExtension = extension in ACCEPTED_FILE_TYPES;
-      const hasValidMimeType = ALLOWED_MIME_TYPES.includes(file.type) || file.type === '';
-      
-      if (!hasValidExtension && !hasValidMimeType) {
-        rejectedFiles.push(`${file.name}: Unsupported file type`);
-        continue;
+
+      if (skippedCount > 0) {
+        toast({
+          title: "Some files were skipped",
+          description: `${skippedCount} ignored, vendored or unsupported file(s) were left out`,
+        });
       }
-      
-      validFiles.push(file);
+    } finally {
+      setIsExtracting(false);
     }
-    
+
     // Show rejection toast if any files were rejected
     if (rejectedFiles.length > 0) {
       toast({
@@ -133,34 +204,55 @@ export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, class
         variant: "destructive",
       });
     }
-    
-    if (validFiles.length === 0) {
-      setIsUploading(false);
-      return;
-    }
-    
-    const newFiles: UploadedFile[] = validFiles.map(file => ({
-      id: Math.random().toString(36).substr(2, 9),
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      status: 'uploading' as const,
-      progress: 0
-    }));
 
-    onFilesUploaded(newFiles);
+    if (collected.length === 0) return;
 
-    // Simulate upload progress
-    for (const file of newFiles) {
-      for (let progress = 0; progress <= 100; progress += 20) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-        file.progress = progress;
-      }
-      file.status = 'success';
+    if (collected.length > MAX_FILES_PER_UPLOAD) {
+      toast({
+        title: "Too many files",
+        description: `Only the first ${MAX_FILES_PER_UPLOAD} of ${collected.length} files will be uploaded`,
+        variant: "destructive",
+      });
     }
 
-    setIsUploading(false);
-  };
+    // The parent owns the upload so it can track real progress against the stored rows
+    onFilesSelected(collected.slice(0, MAX_FILES_PER_UPLOAD));
+  }, [onFilesSelected, toast]);
+
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+
+    // Entries must be read synchronously, before the drop event is recycled
+    const items = Array.from(e.dataTransfer.items || []);
+    const entries = items
+      .map(item => item.webkitGetAsEntry?.())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    const directories = entries.filter(entry => entry.isDirectory);
+    const files = Array.from(e.dataTransfer.files)
+      .filter(file => !directories.some(directory => directory.name === file.name));
+
+    const treeFiles = directories.length > 0
+      ? await collectDirectoryEntries(directories, name => VENDOR_DIRECTORIES.includes(name))
+      : [];
+    handleFiles(files, treeFiles);
+  }, [handleFiles]);
+
+  const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    handleFiles(files);
+    // Allow selecting the same file again after a failed upload
+    e.target.value = '';
+  }, [handleFiles]);
+
+  const handleFolderInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const treeFiles = Array.from(e.target.files || []).map(file => ({
+      path: file.webkitRelativePath || file.name,
+      file
+    }));
+    handleFiles([], treeFiles);
+    e.target.value = '';
+  }, [handleFiles]);
 
   const totalSize = uploadedFiles.reduce((sum, file) => sum + file.size, 0);
 
@@ -172,7 +264,7 @@ export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, class
           "border-2 border-dashed transition-all duration-200 cursor-pointer",
           "hover:border-primary hover:shadow-hover",
           isDragOver ? "border-primary bg-accent scale-[1.02]" : "border-border",
-          isUploading && "pointer-events-none opacity-50"
+          (isUploading || isExtracting) && "pointer-events-none opacity-50"
         )}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
@@ -184,15 +276,15 @@ export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, class
             "mx-auto w-16 h-16 rounded-full flex items-center justify-center transition-colors",
             isDragOver ? "bg-primary text-primary-foreground" : "bg-accent text-accent-foreground"
           )}>
-            <Upload className="w-8 h-8" />
+            {isExtracting ? <Loader2 className="w-8 h-8 animate-spin" /> : <Upload className="w-8 h-8" />}
           </div>
           
           <div className="space-y-2">
             <h3 className="text-lg font-semibold">
-              {isDragOver ? "Drop files here" : "Upload your codebase files"}
+              {isExtracting ? "Unpacking files..." : isDragOver ? "Drop files here" : "Upload your codebase files"}
             </h3>
             <p className="text-muted-foreground">
-              Drag and drop files here, or click to browse
+              Drag and drop files, folders or .zip/.tar.gz archives here, or click to browse
             </p>
           </div>
 
@@ -206,13 +298,34 @@ export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, class
             <span className="text-muted-foreground">+more</span>
           </div>
 
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              folderInputRef.current?.click();
+            }}
+            className="flex items-center gap-2 mx-auto"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Upload a folder
+          </Button>
+
           <input
             id="file-input"
             type="file"
             multiple
             className="hidden"
             onChange={handleFileInput}
-            accept={Object.keys(ACCEPTED_FILE_TYPES).join(',')}
+            accept={[...Object.keys(ACCEPTED_FILE_TYPES), '.tar.gz'].join(',')}
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onClick={(e) => e.stopPropagation()}
+            onChange={handleFolderInput}
           />
         </div>
       </Card>
@@ -222,9 +335,35 @@ export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, class
         <Card className="p-4 space-y-4">
           <div className="flex items-center justify-between">
             <h4 className="font-medium">Uploaded Files ({uploadedFiles.length})</h4>
-            <span className="text-sm text-muted-foreground">
-              Total: {formatFileSize(totalSize)}
-            </span>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">
+                Total: {formatFileSize(totalSize)}
+              </span>
+              {onBrowseFiles && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onBrowseFiles()}
+                  className="h-8 w-8 p-0"
+                  title="Browse files"
+                  disabled={!uploadedFiles.some(file => file.status === 'success')}
+                >
+                  <FolderTree className="w-4 h-4" />
+                </Button>
+              )}
+              {onSearchCode && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onSearchCode}
+                  className="h-8 w-8 p-0"
+                  title="Search code"
+                  disabled={!uploadedFiles.some(file => file.status === 'success')}
+                >
+                  <Search className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
           </div>
 
           <div className="space-y-2 max-h-64 overflow-y-auto">
@@ -237,14 +376,39 @@ export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, class
                   
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
-                      <span className="font-medium truncate">{file.name}</span>
+                      {onBrowseFiles && file.status === 'success' ? (
+                        <button
+                          type="button"
+                          onClick={() => onBrowseFiles(file.id)}
+                          className="font-medium truncate hover:underline text-left"
+                          title={`Open ${file.path}`}
+                        >
+                          {file.name}
+                        </button>
+                      ) : (
+                        <span className="font-medium truncate" title={file.path}>{file.name}</span>
+                      )}
                       <span className="text-xs px-2 py-1 bg-muted rounded">{fileInfo.label}</span>
                     </div>
+                    {file.path !== file.name && (
+                      <div className="text-xs text-muted-foreground truncate" title={file.path}>
+                        {file.path}
+                      </div>
+                    )}
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <span>{formatFileSize(file.size)}</span>
+                      {file.codebaseId && (
+                        <span>• From workspace codebase</span>
+                      )}
                       {file.status === 'uploading' && file.progress !== undefined && (
                         <span>• {file.progress}%</span>
                       )}
+                      {file.status === 'success' && !file.processed && (
+                        <span>• Processing...</span>
+                      )}
+                      {file.status === 'error' && (
+                        <span className="text-red-500">• Upload failed</span>
+                      )}
                     </div>
                     {file.status === 'uploading' && file.progress !== undefined && (
                       <div className="w-full bg-muted rounded-full h-1 mt-1">
@@ -261,23 +425,39 @@ export function FileUpload({ onFilesUploaded, uploadedFiles, onRemoveFile, class
                       <Check className="w-4 h-4 text-green-500" />
                     )}
                     {file.status === 'error' && (
-                      <AlertCircle className="w-4 h-4 text-red-500" />
+                      <>
+                        <AlertCircle className="w-4 h-4 text-red-500" />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onRetryFile(file.id);
+                          }}
+                          className="h-8 w-8 p-0"
+                          title="Retry upload"
+                        >
+                          <RotateCw className="w-4 h-4" />
+                        </Button>
+                      </>
                     )}
                     {file.status === 'uploading' && (
                       <div className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
                     )}
                     
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onRemoveFile(file.id);
-                      }}
-                      className="h-8 w-8 p-0 hover:bg-destructive hover:text-destructive-foreground"
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
+                    {!file.codebaseId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRemoveFile(file.id);
+                        }}
+                        className="h-8 w-8 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               );
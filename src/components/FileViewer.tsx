@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import 'highlight.js/styles/github.css';
+import { highlightLines, languageForPath } from '@/lib/highlight';
+import { cn } from '@/lib/utils';
+
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+interface FileViewerProps {
+  content: string;
+  // Used to pick the syntax highlighting language; plain text when omitted or unknown
+  path?: string;
+  // 1-based, inclusive range to highlight and scroll into view
+  highlightStart?: number;
+  highlightEnd?: number;
+  // Lines to mark faintly, e.g. in-file search matches
+  markedLines?: number[];
+  // Called with the lines covered by the user's text selection, or null when it is cleared
+  onSelectLines?: (range: LineRange | null) => void;
+  className?: string;
+}
+
+const lineOf = (node: Node | null): number | null => {
+  const element = node instanceof Element ? node : node?.parentElement;
+  const line = element?.closest<HTMLElement>('[data-line]')?.dataset.line;
+  return line ? Number(line) : null;
+};
+
+export const FileViewer: React.FC<FileViewerProps> = ({
+  content,
+  path,
+  highlightStart,
+  highlightEnd,
+  markedLines,
+  onSelectLines,
+  className
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const lines = useMemo(() => content.split('\n'), [content]);
+  const highlighted = useMemo(() => (path ? highlightLines(content, languageForPath(path)) : null), [content, path]);
+  const marked = useMemo(() => new Set(markedLines), [markedLines]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [content, highlightStart]);
+
+  const isHighlighted = (lineNumber: number) =>
+    highlightStart !== undefined && lineNumber >= highlightStart && lineNumber <= (highlightEnd ?? highlightStart);
+
+  const handleSelectionEnd = () => {
+    if (!onSelectLines) return;
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || !containerRef.current?.contains(selection.anchorNode)) {
+      onSelectLines(null);
+      return;
+    }
+
+    const anchorLine = lineOf(selection.anchorNode);
+    const focusLine = lineOf(selection.focusNode);
+    if (anchorLine === null || focusLine === null) {
+      onSelectLines(null);
+      return;
+    }
+    onSelectLines({ startLine: Math.min(anchorLine, focusLine), endLine: Math.max(anchorLine, focusLine) });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onMouseUp={handleSelectionEnd}
+      onKeyUp={handleSelectionEnd}
+      className={cn("overflow-auto rounded-md border bg-muted/30 font-mono text-sm", className)}
+    >
+      {lines.map((line, index) => {
+        const lineNumber = index + 1;
+        return (
+          <div
+            key={lineNumber}
+            data-line={lineNumber}
+            ref={lineNumber === highlightStart ? highlightRef : undefined}
+            className={cn(
+              "flex",
+              isHighlighted(lineNumber)
+                ? "bg-yellow-100 dark:bg-yellow-900/40"
+                : marked.has(lineNumber) && "bg-yellow-50 dark:bg-yellow-900/20"
+            )}
+          >
+            <span className="select-none w-12 flex-shrink-0 pr-3 text-right text-muted-foreground border-r">
+              {lineNumber}
+            </span>
+            {highlighted ? (
+              <span className="pl-3 whitespace-pre" dangerouslySetInnerHTML={{ __html: highlighted[index] || ' ' }} />
+            ) : (
+              <span className="pl-3 whitespace-pre">{line || ' '}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { marked, Token, Tokens } from 'marked';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github.css';
+import { Button } from '@/components/ui/button';
+import { sanitizeMarkdownHTML, safeSetInnerHTML } from '@/lib/security';
+import { renderMermaid } from '@/lib/mermaidConfig';
+import { cn } from '@/lib/utils';
+
+interface MarkdownMessageProps {
+  content: string;
+  // While streaming, Mermaid blocks stay as source since they are usually incomplete
+  isStreaming?: boolean;
+  className?: string;
+}
+
+type Segment =
+  | { kind: 'html'; tokens: Token[] }
+  | { kind: 'code'; token: Tokens.Code };
+
+let mermaidCounter = 0;
+
+const CodeBlock: React.FC<{ code: string; language: string }> = ({ code, language }) => {
+  const [copied, setCopied] = useState(false);
+
+  const highlighted = useMemo(() => {
+    const result = language && hljs.getLanguage(language)
+      ? hljs.highlight(code, { language })
+      : hljs.highlightAuto(code);
+    return sanitizeMarkdownHTML(result.value);
+  }, [code, language]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  return (
+    <div className="relative group not-prose my-3 rounded-md border bg-muted/40">
+      <div className="flex items-center justify-between px-3 py-1 border-b text-xs text-muted-foreground">
+        <span>{language || 'code'}</span>
+        <Button variant="ghost" size="sm" className="h-6 px-2" onClick={handleCopy} title="Copy code">
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+        </Button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm">
+        <code className="hljs bg-transparent p-0" dangerouslySetInnerHTML={{ __html: highlighted }} />
+      </pre>
+    </div>
+  );
+};
+
+const MermaidBlock: React.FC<{ code: string }> = ({ code }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const renderDiagram = async () => {
+      try {
+        const svg = await renderMermaid(`chat-mermaid-${++mermaidCounter}`, code);
+        if (!cancelled && containerRef.current) {
+          safeSetInnerHTML(containerRef.current, svg);
+          setFailed(false);
+        }
+      } catch (error) {
+        console.error('Mermaid rendering error in chat:', error);
+        if (!cancelled) setFailed(true);
+      }
+    };
+    renderDiagram();
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  // Fall back to the source so an invalid diagram is still readable and copyable
+  if (failed) return <CodeBlock code={code} language="mermaid" />;
+
+  return <div ref={containerRef} className="not-prose my-3 overflow-x-auto rounded-md border bg-background p-3" />;
+};
+
+export const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content, isStreaming, className }) => {
+  // Split into runs of ordinary Markdown and fenced code blocks, which get their own components
+  const segments = useMemo(() => {
+    const result: Segment[] = [];
+    for (const token of marked.lexer(content, { gfm: true })) {
+      if (token.type === 'code') {
+        result.push({ kind: 'code', token: token as Tokens.Code });
+      } else {
+        const last = result[result.length - 1];
+        if (last?.kind === 'html') last.tokens.push(token);
+        else result.push({ kind: 'html', tokens: [token] });
+      }
+    }
+    return result;
+  }, [content]);
+
+  return (
+    <div className={cn("prose prose-sm max-w-none break-words", className)}>
+      {segments.map((segment, index) => {
+        if (segment.kind === 'html') {
+          const tokens = Object.assign([...segment.tokens], { links: {} });
+          const html = sanitizeMarkdownHTML(marked.parser(tokens, { gfm: true }));
+          return <div key={index} dangerouslySetInnerHTML={{ __html: html }} />;
+        }
+
+        const language = (segment.token.lang ?? '').split(/\s/)[0].toLowerCase();
+        if (language === 'mermaid' && !isStreaming) {
+          return <MermaidBlock key={index} code={segment.token.text} />;
+        }
+        return <CodeBlock key={index} code={segment.token.text} language={language} />;
+      })}
+    </div>
+  );
+};
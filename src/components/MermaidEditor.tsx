@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { MermaidSyntaxError } from '@/lib/diagrams/mermaidErrors';
+import { cn } from '@/lib/utils';
+
+interface MermaidEditorProps {
+  value: string;
+  // Called once typing pauses, so each pause becomes one undo step
+  onChange: (value: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  error?: MermaidSyntaxError | null;
+  className?: string;
+}
+
+const COMMIT_DELAY_MS = 500;
+const INDENT = '  ';
+
+// Plain-text Mermaid editor with line numbers, debounced commits and undo/redo shortcuts
+export const MermaidEditor: React.FC<MermaidEditorProps> = ({
+  value,
+  onChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  error,
+  className
+}) => {
+  const [draft, setDraft] = useState(value);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const commitTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Follow outside changes: undo/redo, a regenerated diagram or an import
+  useEffect(() => {
+    clearTimeout(commitTimer.current);
+    setDraft(value);
+  }, [value]);
+
+  useEffect(() => () => clearTimeout(commitTimer.current), []);
+
+  const updateDraft = (next: string) => {
+    setDraft(next);
+    clearTimeout(commitTimer.current);
+    commitTimer.current = setTimeout(() => onChange(next), COMMIT_DELAY_MS);
+  };
+
+  // Commit what is typed so far so undo steps back from it rather than dropping it
+  const flush = () => {
+    clearTimeout(commitTimer.current);
+    if (draft !== value) onChange(draft);
+  };
+
+  const handleUndo = () => {
+    flush();
+    onUndo();
+  };
+
+  const handleRedo = () => {
+    flush();
+    onRedo();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const modifier = e.metaKey || e.ctrlKey;
+    if (modifier && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    } else if (modifier && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      handleRedo();
+    } else if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      updateDraft(draft.slice(0, selectionStart) + INDENT + draft.slice(selectionEnd));
+      requestAnimationFrame(() => {
+        textareaRef.current?.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length);
+      });
+    }
+  };
+
+  const lineCount = draft.split('\n').length;
+
+  return (
+    <div className={cn("flex flex-col gap-2 min-h-0", className)}>
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-muted-foreground">Mermaid code</span>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleUndo} disabled={!canUndo && draft === value} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 min-h-[400px] overflow-hidden rounded-md border bg-muted/30 font-mono text-xs leading-5">
+        <div ref={gutterRef} className="select-none overflow-hidden border-r py-2 text-right text-muted-foreground">
+          {Array.from({ length: lineCount }, (_, index) => (
+            <div
+              key={index}
+              className={cn("px-2", error?.line === index + 1 && "bg-destructive/15 text-destructive font-semibold")}
+            >
+              {index + 1}
+            </div>
+          ))}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={(e) => updateDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={flush}
+          onScroll={(e) => {
+            if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          spellCheck={false}
+          wrap="off"
+          className="flex-1 resize-none bg-transparent px-3 py-2 outline-none"
+          aria-label="Mermaid code"
+        />
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/5 p-2 text-xs text-destructive">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <div className="min-w-0">
+            {error.line !== undefined && (
+              <p className="font-medium">
+                Line {error.line}{error.column !== undefined ? `, column ${error.column}` : ''}
+              </p>
+            )}
+            <pre className="whitespace-pre-wrap break-words font-mono">{error.message}</pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
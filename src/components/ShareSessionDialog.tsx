@@ -0,0 +1,194 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, Copy, Link2, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  SHARE_EXPIRY_OPTIONS,
+  SessionShare,
+  createSessionShare,
+  isShareActive,
+  listSessionShares,
+  revokeSessionShare,
+  shareUrl,
+} from '@/lib/sessionShares';
+
+interface ShareSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string | null;
+  // The session to share; null while the dialog is closed
+  session: { id: string; title: string } | null;
+}
+
+const DEFAULT_EXPIRY = '7';
+const NEVER_EXPIRES = 'never';
+
+const describeShare = (share: SessionShare) => {
+  if (share.revokedAt) return `Revoked ${formatDistanceToNow(share.revokedAt)} ago`;
+  if (!share.expiresAt) return `Created ${formatDistanceToNow(share.createdAt)} ago · never expires`;
+  return share.expiresAt > new Date()
+    ? `Expires ${formatDistanceToNow(share.expiresAt, { addSuffix: true })}`
+    : `Expired ${formatDistanceToNow(share.expiresAt)} ago`;
+};
+
+// Create and revoke read-only links to a session
+export const ShareSessionDialog: React.FC<ShareSessionDialogProps> = ({ open, onOpenChange, userId, session }) => {
+  const [shares, setShares] = useState<SessionShare[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [expiry, setExpiry] = useState(DEFAULT_EXPIRY);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const sessionId = session?.id;
+  const loadShares = useCallback(async () => {
+    if (!sessionId) return;
+    setIsLoading(true);
+    try {
+      setShares(await listSessionShares(sessionId));
+    } catch (error) {
+      console.error('Error loading share links:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load share links",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      setShares([]);
+      loadShares();
+    }
+  }, [open, loadShares]);
+
+  const copyLink = async (share: SessionShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share.token));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(current => (current === share.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!sessionId || !userId) return;
+    setIsCreating(true);
+    try {
+      const share = await createSessionShare(sessionId, userId, expiry === NEVER_EXPIRES ? null : Number(expiry));
+      setShares(prev => [share, ...prev]);
+      await copyLink(share);
+      toast({
+        title: "Link created",
+        description: "Anyone with the link can read this session",
+      });
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create a share link",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (share: SessionShare) => {
+    try {
+      await revokeSessionShare(share.id);
+      setShares(prev => prev.map(existing => existing.id === share.id ? { ...existing, revokedAt: new Date() } : existing));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke the link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share "{session?.title}"</DialogTitle>
+          <DialogDescription>
+            People with a link can read the conversation, files and latest diagram without signing in.
+            They can't ask questions or change anything.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label>Link expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.label} value={option.days === null ? NEVER_EXPIRES : String(option.days)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate} disabled={isCreating || !userId} className="gap-2">
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Create link
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading && shares.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading links...
+            </div>
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This session has not been shared yet</p>
+          ) : (
+            shares.map(share => {
+              const active = isShareActive(share);
+              return (
+                <div key={share.id} className="space-y-1 rounded-md border p-2">
+                  <div className="flex items-center gap-1">
+                    <Input
+                      readOnly
+                      value={shareUrl(share.token)}
+                      className="h-8 font-mono text-xs"
+                      disabled={!active}
+                      onFocus={(e) => e.target.select()}
+                    />
+                    {active && (
+                      <>
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => copyLink(share)} title="Copy link">
+                          {copiedId === share.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-8" onClick={() => handleRevoke(share)}>
+                          Revoke
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{describeShare(share)}</p>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
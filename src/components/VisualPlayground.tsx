@@ -1,72 +1,141 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Play, Download, RefreshCw, FileText, Loader2, Image } from 'lucide-react';
+import { Play, Download, RefreshCw, FileText, Loader2, Upload, Save, History, GitCompare, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
-import { safeSetInnerHTML, SecureStorage, RateLimiter, logSecurityEvent } from '@/lib/security';
-import mermaid from 'mermaid';
-import html2canvas from 'html2canvas';
+import { safeSetInnerHTML, RateLimiter, logSecurityEvent, validateFileSize } from '@/lib/security';
+import { loadUserApiKeys, hasAnyApiKey, loadProviderOrder } from '@/lib/apiKeys';
+import { loadSessionFileContents } from '@/lib/fileContents';
+import { DEFAULT_DIAGRAM_KIND, DIAGRAM_KINDS, DiagramKind, getDiagramKind } from '@/lib/diagrams/diagramKinds';
+import { EMPTY_STATIC_DIAGRAM_MESSAGES, StaticDiagramKind, buildStaticDiagram } from '@/lib/diagrams/staticDiagrams';
+import { FileTreeFile } from '@/lib/fileTree';
+import { ChatFocus } from '@/lib/chatStream';
+import { MermaidSyntaxError, validateMermaid } from '@/lib/diagrams/mermaidErrors';
+import { useUndoableState } from '@/hooks/useUndoableState';
+import { MermaidEditor } from '@/components/MermaidEditor';
+import { DiagramViewport } from '@/components/DiagramViewport';
+import { DiagramVersionsDialog } from '@/components/DiagramVersionsDialog';
+import { DiagramExportMenu } from '@/components/DiagramExportMenu';
+import { DiagramCompareDialog } from '@/components/DiagramCompareDialog';
+import { MarkdownMessage } from '@/components/MarkdownMessage';
+import { GraphDiff, graphChangelog, renderGraphDiff, summarizeGraphDiff } from '@/lib/diagrams/graphDiff';
+import { downloadBlob } from '@/lib/diagrams/exportDiagram';
+import { NewDiagramVersion, SessionDiagram, saveDiagramVersion } from '@/lib/sessionDiagrams';
+import { initializeMermaid, renderMermaid } from '@/lib/mermaidConfig';
+
+interface AnalysisReport {
+  fileCount: number;
+  analyzedFileCount: number;
+  truncatedFiles: string[];
+  skippedFiles: { name: string; reason: string }[];
+}
+
+const MAX_IMPORT_SIZE = 1024 * 1024; // Mermaid sources are small; anything bigger is not one
+
+// A dependency graph comparison shown in place of the diagram, until it is closed
+interface GraphComparison {
+  // Markdown, shown under the diagram and offered as a download
+  changelog: string;
+  // The diagram in the editor before comparing, brought back when the comparison closes
+  previous: { code: string; kind: DiagramKind | null; nodeFiles: Record<string, string> };
+}
 
 interface VisualPlaygroundProps {
   sessionId: string | null;
   fileCount: number;
+  // Uploaded files, offered as sequence diagram entry points and opened from diagram nodes
+  files: FileTreeFile[];
   user: any;
+  // Most recent saved version of the session's diagram, shown when the playground opens
+  latestDiagram?: SessionDiagram | null;
+  onDiagramSaved?: (diagram: SessionDiagram) => void;
+  onOpenFile?: (fileId: string) => void;
+  onAskAbout?: (focus: ChatFocus) => void;
 }
 
-export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroundProps) {
-  const [mermaidCode, setMermaidCode] = useState<string>('');
+export function VisualPlayground({
+  sessionId,
+  fileCount,
+  files,
+  user,
+  latestDiagram,
+  onDiagramSaved,
+  onOpenFile,
+  onAskAbout
+}: VisualPlaygroundProps) {
+  // Generated, imported and hand-edited versions share one undo history
+  const diagramHistory = useUndoableState(latestDiagram?.code ?? '');
+  const mermaidCode = diagramHistory.value;
+  const [hasDiagram, setHasDiagram] = useState(Boolean(latestDiagram));
+  // Kind of the diagram in the editor, and the kind the next generation will produce
+  const [diagramKind, setDiagramKind] = useState<DiagramKind | null>(latestDiagram?.kind ?? null);
+  const [selectedKind, setSelectedKind] = useState<DiagramKind>(latestDiagram?.kind ?? DEFAULT_DIAGRAM_KIND);
+  // Node id -> file path of the diagram in the editor; kept across edits since node ids rarely change
+  const [nodeFiles, setNodeFiles] = useState<Record<string, string>>(latestDiagram?.nodeFiles ?? {});
+  const [renderVersion, setRenderVersion] = useState(0);
+  const [fitKey, setFitKey] = useState(0);
+  const [entryPath, setEntryPath] = useState('');
+  const [entrySymbol, setEntrySymbol] = useState('');
+  // Code of the newest saved version, to tell whether the editor has unsaved changes
+  const [savedCode, setSavedCode] = useState(latestDiagram?.code ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [comparison, setComparison] = useState<GraphComparison | null>(null);
+  const [syntaxError, setSyntaxError] = useState<MermaidSyntaxError | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [isExporting, setIsExporting] = useState(false);
-  const [lastAnalyzed, setLastAnalyzed] = useState<Date | null>(null);
+  // Markup last handed to safeSetInnerHTML; exports are built from exactly this
+  const [renderedSvg, setRenderedSvg] = useState<string | null>(null);
+  const [lastAnalyzed, setLastAnalyzed] = useState<Date | null>(latestDiagram?.createdAt ?? null);
+  const [analysisReport, setAnalysisReport] = useState<AnalysisReport | null>(null);
   const mermaidRef = useRef<HTMLDivElement>(null);
   const rateLimiter = useRef(new RateLimiter(3, 5 * 60 * 1000)); // 3 attempts per 5 minutes
   const { toast } = useToast();
 
   // Initialize Mermaid
   useEffect(() => {
-    mermaid.initialize({
-      startOnLoad: true,
-      theme: 'default',
-      securityLevel: 'strict', // Changed to strict for security
-      fontFamily: 'inherit',
-      fontSize: 14,
-      flowchart: {
-        useMaxWidth: true,
-        htmlLabels: true,
-        curve: 'basis'
-      },
-      sequence: {
-        diagramMarginX: 50,
-        diagramMarginY: 10,
-        actorMargin: 50,
-        width: 150,
-        height: 65,
-        boxMargin: 10,
-        boxTextMargin: 5,
-        noteMargin: 10,
-        messageMargin: 35
-      }
-    });
+    initializeMermaid();
   }, []);
 
-  // Render Mermaid diagram when code changes
+  // Render Mermaid diagram when code changes. Invalid code keeps the last good
+  // render on screen and reports the parse error to the editor instead.
   useEffect(() => {
-    if (mermaidCode && mermaidRef.current) {
+    if (!mermaidCode.trim()) {
+      setSyntaxError(null);
+      if (mermaidRef.current) mermaidRef.current.innerHTML = '';
+      setRenderedSvg(null);
+      setRenderVersion(version => version + 1);
+      return;
+    }
+
+    let cancelled = false;
+    if (mermaidRef.current) {
       const renderDiagram = async () => {
+        const parseError = await validateMermaid(mermaidCode);
+        if (cancelled) return;
+        setSyntaxError(parseError);
+        if (parseError) return;
+
         try {
-          // Clear previous content
-          mermaidRef.current!.innerHTML = '';
-          
           // Generate unique ID for this diagram
           const id = `mermaid-${Date.now()}`;
           
           // Validate and render the diagram
-          const { svg } = await mermaid.render(id, mermaidCode);
+          const svg = await renderMermaid(id, mermaidCode);
+          if (cancelled || !mermaidRef.current) return;
           
           // Use secure DOM manipulation instead of innerHTML
-          safeSetInnerHTML(mermaidRef.current!, svg);
+          safeSetInnerHTML(mermaidRef.current, svg);
+          setRenderedSvg(svg);
+          setRenderVersion(version => version + 1);
         } catch (error) {
+          if (cancelled || !mermaidRef.current) return;
           console.error('Error rendering Mermaid diagram:', error);
           
           // Create error message safely
@@ -83,15 +152,153 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
           
           errorDiv.appendChild(titleP);
           errorDiv.appendChild(descP);
-          mermaidRef.current!.appendChild(errorDiv);
+          mermaidRef.current.innerHTML = '';
+          mermaidRef.current.appendChild(errorDiv);
+          setRenderedSvg(null);
         }
       };
 
       renderDiagram();
     }
-  }, [mermaidCode]);
+    return () => {
+      cancelled = true;
+    };
+  }, [mermaidCode, hasDiagram]);
+
+  const loadDiagram = (code: string, kind: DiagramKind | null, linkedFiles: Record<string, string> = {}) => {
+    diagramHistory.set(code);
+    setDiagramKind(kind);
+    setNodeFiles(linkedFiles);
+    setFitKey(key => key + 1);
+    setHasDiagram(true);
+    // Anything loaded after a comparison replaces it
+    setComparison(null);
+  };
+
+  // A version saved in another tab or device shows up here; it replaces the editor
+  // content only when there are no unsaved edits to lose
+  const [syncedDiagramId, setSyncedDiagramId] = useState(latestDiagram?.id ?? null);
+  if (latestDiagram && latestDiagram.id !== syncedDiagramId) {
+    setSyncedDiagramId(latestDiagram.id);
+    if (latestDiagram.code !== savedCode && mermaidCode === savedCode) {
+      loadDiagram(latestDiagram.code, latestDiagram.kind, latestDiagram.nodeFiles);
+      setLastAnalyzed(latestDiagram.createdAt);
+    }
+    setSavedCode(latestDiagram.code);
+  }
+
+  const fileForPath = (path: string) => files.find(file => file.path === path);
+
+  const openNodeFile = (path: string) => {
+    const file = fileForPath(path);
+    if (file) onOpenFile?.(file.id);
+  };
+
+  const askAboutNode = (path: string) => {
+    const file = fileForPath(path);
+    if (file) onAskAbout?.({ fileId: file.id, path: file.path });
+  };
+
+  // Store the diagram as the session's next version. Failures are reported but
+  // leave the diagram in the editor, where it can still be saved by hand.
+  const persistVersion = async (diagram: NewDiagramVersion): Promise<boolean> => {
+    if (!sessionId || !user) return false;
 
-  const generateDiagram = async () => {
+    try {
+      const saved = await saveDiagramVersion(sessionId, user.id, diagram);
+      setSavedCode(saved.code);
+      onDiagramSaved?.(saved);
+      return true;
+    } catch (error) {
+      console.error('Error saving diagram version:', error);
+      toast({
+        title: "Save Failed",
+        description: "The diagram could not be saved to this session",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const saveEditedVersion = async () => {
+    setIsSaving(true);
+    const saved = await persistVersion({ code: mermaidCode, source: 'edit', kind: diagramKind, nodeFiles });
+    setIsSaving(false);
+    if (saved) {
+      toast({
+        title: "Version saved",
+        description: "The edited diagram was saved to this session",
+      });
+    }
+  };
+
+  // Restoring adds a new version rather than rewriting history
+  const restoreVersion = async (version: SessionDiagram) => {
+    loadDiagram(version.code, version.kind, version.nodeFiles);
+    setIsHistoryOpen(false);
+    const saved = await persistVersion({
+      code: version.code,
+      source: 'restore',
+      kind: version.kind,
+      provider: version.provider,
+      model: version.model,
+      promptHash: version.promptHash,
+      fileSet: version.fileSet,
+      nodeFiles: version.nodeFiles,
+    });
+    if (saved) {
+      toast({
+        title: "Version restored",
+        description: `Version ${version.version} is now the latest version`,
+      });
+    }
+  };
+
+  // Removed modules stay in the merged graph but have no file to open
+  const showComparison = (diff: GraphDiff, changesOnly: boolean) => {
+    const diagram = renderGraphDiff(diff, changesOnly);
+    const linkedFiles = Object.fromEntries(
+      Object.entries(diagram.nodeFiles).filter(([, path]) => fileForPath(path))
+    );
+    const previous = comparison?.previous ?? { code: mermaidCode, kind: diagramKind, nodeFiles };
+    loadDiagram(diagram.code, 'dependencies', linkedFiles);
+    setComparison({ changelog: graphChangelog(diff), previous });
+    setIsCompareOpen(false);
+    toast({
+      title: "Dependency graphs compared",
+      description: summarizeGraphDiff(diff),
+    });
+  };
+
+  const closeComparison = () => {
+    if (!comparison) return;
+    const { previous } = comparison;
+    if (previous.code) {
+      loadDiagram(previous.code, previous.kind, previous.nodeFiles);
+    } else {
+      setComparison(null);
+      diagramHistory.set('');
+      setHasDiagram(false);
+    }
+  };
+
+  const downloadChangelog = () => {
+    if (!comparison) return;
+    downloadBlob(new Blob([comparison.changelog], { type: 'text/markdown' }), `dependency-changes-${Date.now()}.md`);
+  };
+
+  const selectedKindInfo = getDiagramKind(selectedKind);
+  const needsEntryPoint = Boolean(selectedKindInfo?.needsEntryPoint);
+
+  const generateDiagram = () => {
+    if (selectedKindInfo?.generator === 'static') {
+      generateLocally(selectedKind as StaticDiagramKind);
+    } else {
+      generateWithAi(selectedKind);
+    }
+  };
+
+  const generateWithAi = async (kind: DiagramKind) => {
     const identifier = user?.id || 'anonymous';
     
     // Check rate limiting
@@ -125,41 +332,14 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
       return;
     }
 
-    // Get user API keys from localStorage (try encrypted first)
-    let userApiKeys = null;
-    
-    try {
-      const encryptedKeys = localStorage.getItem('user-api-keys-encrypted');
-      if (encryptedKeys) {
-        const decryptedData = await SecureStorage.decryptData(encryptedKeys);
-        userApiKeys = JSON.parse(decryptedData);
-      } else {
-        // Fallback to unencrypted keys
-        const savedKeys = localStorage.getItem('user-api-keys');
-        if (savedKeys) {
-          userApiKeys = JSON.parse(savedKeys);
-        }
-      }
-    } catch (error) {
-      console.error('Error loading API keys:', error);
-      // Fallback to unencrypted keys
-      const savedKeys = localStorage.getItem('user-api-keys');
-      if (savedKeys) {
-        try {
-          userApiKeys = JSON.parse(savedKeys);
-        } catch (fallbackError) {
-          console.error('Error parsing fallback API keys:', fallbackError);
-        }
-      }
-    }
+    // Get user API keys from localStorage
+    const userApiKeys = await loadUserApiKeys();
 
     // Check if user has any API keys configured
-    const hasApiKeys = userApiKeys && (userApiKeys.openai || userApiKeys.claude || userApiKeys.google);
-    
-    if (!hasApiKeys) {
+    if (!hasAnyApiKey(userApiKeys)) {
       toast({
         title: "API Keys Required",
-        description: "Please configure your API keys in the settings to generate diagrams",
+        description: "Please configure your API keys in the settings, or pick a diagram type that is generated locally",
         variant: "destructive",
       });
       return;
@@ -173,18 +353,39 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
       const { data, error } = await supabase.functions.invoke('analyze-codebase', {
         body: { 
           sessionId,
-          userApiKeys 
+          userApiKeys,
+          providerOrder: loadProviderOrder(),
+          diagramKind: kind,
+          entryPoint: getDiagramKind(kind)?.needsEntryPoint
+            ? { path: entryPath, symbol: entrySymbol.trim() || undefined }
+            : undefined
         }
       });
 
       if (error) throw error;
 
-      setMermaidCode(data.mermaidCode);
+      loadDiagram(data.mermaidCode, kind, data.nodeFiles ?? {});
+      await persistVersion({
+        code: data.mermaidCode,
+        source: 'ai',
+        kind,
+        provider: data.provider,
+        model: data.model,
+        promptHash: data.promptHash,
+        fileSet: data.analyzedFiles ?? [],
+        nodeFiles: data.nodeFiles ?? {},
+      });
       setLastAnalyzed(new Date());
-      logSecurityEvent('diagram_generated', { sessionId, fileCount: data.fileCount }, 'info');
+      setAnalysisReport({
+        fileCount: data.fileCount,
+        analyzedFileCount: data.analyzedFileCount,
+        truncatedFiles: data.truncatedFiles ?? [],
+        skippedFiles: data.skippedFiles ?? []
+      });
+      logSecurityEvent('diagram_generated', { sessionId, fileCount: data.fileCount, diagramKind: kind }, 'info');
       toast({
         title: "Diagram generated",
-        description: `Analyzed ${data.fileCount} files successfully`,
+        description: `Analyzed ${data.analyzedFileCount} of ${data.fileCount} files`,
       });
     } catch (error: any) {
       console.error('Error generating diagram:', error);
@@ -199,6 +400,94 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
     }
   };
 
+  // Build the diagram locally from the uploaded sources; no API keys or AI provider involved
+  const generateLocally = async (kind: StaticDiagramKind) => {
+    if (!sessionId || !user) {
+      toast({
+        title: "Authentication required",
+        description: "Please sign in to generate diagrams",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const sources = await loadSessionFileContents(sessionId);
+      const diagram = buildStaticDiagram(kind, sources);
+
+      if (diagram.nodeCount === 0) {
+        toast({
+          title: "Nothing to draw",
+          description: EMPTY_STATIC_DIAGRAM_MESSAGES[kind],
+          variant: "destructive",
+        });
+        return;
+      }
+
+      loadDiagram(diagram.code, kind, diagram.nodeFiles);
+      await persistVersion({
+        code: diagram.code,
+        source: 'static',
+        kind,
+        fileSet: [...new Set(Object.values(diagram.nodeFiles))],
+        nodeFiles: diagram.nodeFiles,
+      });
+      setLastAnalyzed(new Date());
+      setAnalysisReport(null);
+      logSecurityEvent('static_diagram_generated', { sessionId, diagramKind: kind, nodeCount: diagram.nodeCount }, 'info');
+      toast({
+        title: `${getDiagramKind(kind)?.label} generated`,
+        description: diagram.summary,
+      });
+    } catch (error) {
+      console.error('Error building diagram locally:', error);
+      toast({
+        title: "Generation Failed",
+        description: "Failed to read the uploaded files for the diagram",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Load an existing .mmd file into the editor; it can be undone like any other edit
+  const importMermaidFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!validateFileSize(file, MAX_IMPORT_SIZE)) {
+      toast({
+        title: "File too large",
+        description: "Mermaid files must be smaller than 1MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const code = await file.text();
+      loadDiagram(code, null);
+      setAnalysisReport(null);
+      await persistVersion({ code, source: 'import', kind: null });
+      const parseError = await validateMermaid(code);
+      toast({
+        title: "Diagram imported",
+        description: parseError ? `${file.name} has a syntax error; fix it in the editor` : file.name,
+        variant: parseError ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Error importing Mermaid file:', error);
+      toast({
+        title: "Import Failed",
+        description: "Could not read the selected file",
+        variant: "destructive",
+      });
+    }
+  };
+
   const downloadMermaidCode = () => {
     if (!mermaidCode) return;
 
@@ -218,66 +507,6 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
     });
   };
 
-  const exportAsImage = async () => {
-    if (!mermaidRef.current || !mermaidCode) return;
-
-    setIsExporting(true);
-    try {
-      const svg = mermaidRef.current.querySelector('svg');
-      if (!svg) {
-        throw new Error('No SVG element found');
-      }
-
-      // Create a temporary container with white background for better image quality
-      const tempContainer = document.createElement('div');
-      tempContainer.style.position = 'absolute';
-      tempContainer.style.top = '-9999px';
-      tempContainer.style.backgroundColor = '#ffffff';
-      tempContainer.style.padding = '20px';
-      tempContainer.appendChild(svg.cloneNode(true));
-      document.body.appendChild(tempContainer);
-
-      // Use html2canvas to convert to image
-      const canvas = await html2canvas(tempContainer, {
-        backgroundColor: '#ffffff',
-        scale: 2, // Higher quality
-        useCORS: true,
-        allowTaint: true
-      });
-
-      // Clean up temporary container
-      document.body.removeChild(tempContainer);
-
-      // Convert to blob and download
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `codebase-diagram-${Date.now()}.png`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-
-          toast({
-            title: "Image Exported",
-            description: "Diagram saved as PNG image",
-          });
-        }
-      }, 'image/png');
-    } catch (error) {
-      console.error('Error exporting image:', error);
-      toast({
-        title: "Export Failed",
-        description: "Failed to export diagram as image",
-        variant: "destructive",
-      });
-    } finally {
-      setIsExporting(false);
-    }
-  };
-
   return (
     <div className="space-y-6">
       {/* Control Panel */}
@@ -290,6 +519,55 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="diagram-kind">Diagram type</Label>
+                <Select value={selectedKind} onValueChange={(value) => setSelectedKind(value as DiagramKind)}>
+                  <SelectTrigger id="diagram-kind" className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DIAGRAM_KINDS.map(info => (
+                      <SelectItem key={info.kind} value={info.kind}>
+                        {info.label}{info.generator === 'static' ? ' (local)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {needsEntryPoint && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="entry-point">Entry point</Label>
+                    <Select value={entryPath} onValueChange={setEntryPath}>
+                      <SelectTrigger id="entry-point" className="w-72">
+                        <SelectValue placeholder="Choose a file" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {files.map(file => (
+                          <SelectItem key={file.id} value={file.path}>{file.path}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="entry-symbol">Function</Label>
+                    <Input
+                      id="entry-symbol"
+                      value={entrySymbol}
+                      onChange={(e) => setEntrySymbol(e.target.value)}
+                      placeholder="Optional, e.g. handleLogin"
+                      className="w-48"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            {selectedKindInfo && (
+              <p className="text-xs text-muted-foreground">{selectedKindInfo.description}</p>
+            )}
+
             <div className="flex items-center justify-between">
               <div className="text-sm text-muted-foreground">
                 Files uploaded: <span className="font-medium">{fileCount}</span>
@@ -302,32 +580,49 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
               <div className="flex gap-2">
                 <Button
                   onClick={generateDiagram}
-                  disabled={isLoading || fileCount === 0}
+                  disabled={isLoading || fileCount === 0 || (needsEntryPoint && !entryPath)}
                   className="flex items-center gap-2"
+                  title={selectedKindInfo?.generator === 'static' ? 'Built locally, without sending code to an AI provider' : undefined}
                 >
                   {isLoading ? (
                     <Loader2 className="w-4 h-4 animate-spin" />
                   ) : (
                     <Play className="w-4 h-4" />
                   )}
-                  {isLoading ? 'Analyzing...' : 'Generate Diagram'}
+                  {isLoading ? 'Generating...' : 'Generate Diagram'}
                 </Button>
                 
+                <Button
+                  variant="outline"
+                  onClick={() => importInputRef.current?.click()}
+                  className="flex items-center gap-2"
+                  title="Open an existing .mmd file in the editor"
+                >
+                  <Upload className="w-4 h-4" />
+                  Import .mmd
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={() => setIsCompareOpen(true)}
+                  disabled={!user}
+                  className="flex items-center gap-2"
+                  title="Compare the dependency graphs of two sessions or saved versions"
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Compare
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".mmd,.mermaid,.txt"
+                  className="hidden"
+                  onChange={importMermaidFile}
+                />
+                
                 {mermaidCode && (
                   <>
-                    <Button
-                      variant="outline"
-                      onClick={exportAsImage}
-                      disabled={isExporting}
-                      className="flex items-center gap-2"
-                    >
-                      {isExporting ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Image className="w-4 h-4" />
-                      )}
-                      {isExporting ? 'Exporting...' : 'Export PNG'}
-                    </Button>
+                    <DiagramExportMenu code={mermaidCode} renderedSvg={renderedSvg} />
                     
                     <Button
                       variant="outline"
@@ -342,6 +637,22 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
               </div>
             </div>
             
+            {analysisReport && (analysisReport.truncatedFiles.length > 0 || analysisReport.skippedFiles.length > 0) && (
+              <details className="text-sm text-amber-600">
+                <summary className="cursor-pointer">
+                  {analysisReport.truncatedFiles.length} file(s) summarized partially, {analysisReport.skippedFiles.length} skipped
+                </summary>
+                <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                  {analysisReport.truncatedFiles.map(name => (
+                    <li key={`truncated-${name}`}>{name}: truncated to fit the token budget</li>
+                  ))}
+                  {analysisReport.skippedFiles.map(file => (
+                    <li key={`skipped-${file.name}`}>{file.name}: skipped ({file.reason})</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            
             {fileCount === 0 && (
               <div className="text-center py-8 text-muted-foreground">
                 <FileText className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -352,32 +663,44 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
         </CardContent>
       </Card>
 
-      {/* Diagram Display */}
-      {mermaidCode && (
+      {/* Diagram Editor and Display */}
+      {hasDiagram && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
-              <span>Architecture Diagram</span>
+              <span>{getDiagramKind(diagramKind)?.label ?? 'Diagram'}</span>
               <div className="flex gap-2">
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={exportAsImage}
-                  disabled={isExporting}
+                  onClick={saveEditedVersion}
+                  disabled={isSaving || !!syntaxError || !mermaidCode.trim() || mermaidCode === savedCode}
                   className="flex items-center gap-2"
+                  title="Save the edited diagram as a new version"
                 >
-                  {isExporting ? (
+                  {isSaving ? (
                     <Loader2 className="w-4 h-4 animate-spin" />
                   ) : (
-                    <Image className="w-4 h-4" />
+                    <Save className="w-4 h-4" />
                   )}
-                  Export PNG
+                  Save Version
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsHistoryOpen(true)}
+                  disabled={!sessionId}
+                  className="flex items-center gap-2"
+                >
+                  <History className="w-4 h-4" />
+                  History
                 </Button>
+                <DiagramExportMenu code={mermaidCode} renderedSvg={renderedSvg} variant="ghost" size="sm" />
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={generateDiagram}
-                  disabled={isLoading}
+                  disabled={isLoading || (needsEntryPoint && !entryPath)}
                   className="flex items-center gap-2"
                 >
                   <RefreshCw className="w-4 h-4" />
@@ -387,30 +710,84 @@ export function VisualPlayground({ sessionId, fileCount, user }: VisualPlaygroun
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="border rounded-lg p-6 bg-white dark:bg-background">
-              <div className="w-full overflow-auto">
-                <div 
-                  ref={mermaidRef}
-                  className="mermaid-container min-h-[400px] flex items-center justify-center"
-                  style={{ minWidth: '100%' }}
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+              <MermaidEditor
+                value={mermaidCode}
+                onChange={diagramHistory.set}
+                onUndo={diagramHistory.undo}
+                onRedo={diagramHistory.redo}
+                canUndo={diagramHistory.canUndo}
+                canRedo={diagramHistory.canRedo}
+                error={syntaxError}
+              />
+
+              <div>
+                <DiagramViewport
+                  contentRef={mermaidRef}
+                  renderVersion={renderVersion}
+                  fitKey={fitKey}
+                  nodeFiles={nodeFiles}
+                  onOpenFile={openNodeFile}
+                  onAskAbout={askAboutNode}
+                  className={cn("h-[560px] transition-opacity", syntaxError && "opacity-60")}
                 />
+                {syntaxError && (
+                  <p className="mt-2 text-xs text-muted-foreground text-center">
+                    Showing the last valid version until the syntax error is fixed
+                  </p>
+                )}
               </div>
             </div>
-            
-            {/* Code Display */}
-            <div className="mt-4">
-              <details>
-                <summary className="cursor-pointer text-sm font-medium text-muted-foreground hover:text-foreground">
-                  View Mermaid Code
-                </summary>
-                <div className="mt-2 p-3 bg-muted rounded text-xs overflow-auto">
-                  <pre><code>{mermaidCode}</code></pre>
-                </div>
-              </details>
+          </CardContent>
+        </Card>
+      )}
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <GitCompare className="w-5 h-5" />
+                Dependency changes
+              </span>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={downloadChangelog} className="flex items-center gap-2">
+                  <Download className="w-4 h-4" />
+                  Download Changelog
+                </Button>
+                <Button variant="ghost" size="sm" onClick={closeComparison} className="flex items-center gap-2">
+                  <X className="w-4 h-4" />
+                  Close Comparison
+                </Button>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm border border-green-600 bg-green-100" />Added</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm border border-dashed border-red-600 bg-red-100" />Removed (dashed edges)</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded-sm border border-amber-600 bg-amber-100" />Changed</span>
             </div>
+            <MarkdownMessage content={comparison.changelog} className="text-sm" />
           </CardContent>
         </Card>
       )}
+
+      <DiagramCompareDialog
+        open={isCompareOpen}
+        onOpenChange={setIsCompareOpen}
+        userId={user?.id ?? null}
+        sessionId={sessionId}
+        onCompare={showComparison}
+      />
+
+      <DiagramVersionsDialog
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        sessionId={sessionId}
+        currentCode={mermaidCode}
+        onRestore={restoreVersion}
+      />
     </div>
   );
 }
\ No newline at end of file
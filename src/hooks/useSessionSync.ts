@@ -0,0 +1,64 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface SessionSyncHandlers {
+  onMessageInserted: (row: Tables<'chat_messages'>) => void;
+  onFileChanged: (row: Tables<'uploaded_files'>) => void;
+  onFileDeleted: (fileId: string) => void;
+  onDiagramInserted: (row: Tables<'session_diagrams'>) => void;
+}
+
+// Follow changes other tabs and devices make to a session's messages, files and diagrams.
+// Rows this tab wrote arrive too; ids are generated client-side, so handlers merge by id.
+export function useSessionSync(sessionId: string | null, handlers: SessionSyncHandlers) {
+  // Handlers change every render; only a new session should resubscribe
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const filter = `session_id=eq.${sessionId}`;
+    const channel = supabase
+      .channel(`session-sync-${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'chat_messages', filter },
+        (payload) => handlersRef.current.onMessageInserted(payload.new as Tables<'chat_messages'>)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'uploaded_files', filter },
+        (payload) => handlersRef.current.onFileChanged(payload.new as Tables<'uploaded_files'>)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'uploaded_files', filter },
+        (payload) => handlersRef.current.onFileChanged(payload.new as Tables<'uploaded_files'>)
+      )
+      // Deletes can't be filtered by column and only carry the primary key
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'uploaded_files' },
+        (payload) => {
+          const id = (payload.old as Partial<Tables<'uploaded_files'>>).id;
+          if (id) handlersRef.current.onFileDeleted(id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'session_diagrams', filter },
+        (payload) => handlersRef.current.onDiagramInserted(payload.new as Tables<'session_diagrams'>)
+      )
+      .subscribe((status, error) => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error(`Session sync ${status.toLowerCase()}:`, error);
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+}
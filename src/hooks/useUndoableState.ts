@@ -0,0 +1,47 @@
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+// State with an undo/redo history. Setting the current value again is a no-op,
+// and `reset` starts a fresh history (e.g. when another document is loaded).
+export function useUndoableState<T>(initial: T) {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((value: T) => {
+    setHistory(prev => prev.present === value
+      ? prev
+      : { past: [...prev.past, prev.present].slice(-MAX_HISTORY), present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => prev.past.length === 0
+      ? prev
+      : { past: prev.past.slice(0, -1), present: prev.past[prev.past.length - 1], future: [prev.present, ...prev.future] });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => prev.future.length === 0
+      ? prev
+      : { past: [...prev.past, prev.present], present: prev.future[0], future: prev.future.slice(1) });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [] });
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
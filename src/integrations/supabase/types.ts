@@ -16,30 +16,43 @@ export type Database = {
     Tables: {
       chat_messages: {
         Row: {
+          citations: Json
           content: string
           created_at: string
           id: string
+          parent_id: string | null
           role: string
           session_id: string | null
           user_id: string | null
         }
         Insert: {
+          citations?: Json
           content: string
           created_at?: string
           id?: string
+          parent_id?: string | null
           role: string
           session_id?: string | null
           user_id?: string | null
         }
         Update: {
+          citations?: Json
           content?: string
           created_at?: string
           id?: string
+          parent_id?: string | null
           role?: string
           session_id?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "chat_messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chat_messages_session_id_fkey"
             columns: ["session_id"]
@@ -51,31 +64,371 @@ export type Database = {
       }
       chat_sessions: {
         Row: {
+          active_message_id: string | null
           created_at: string
           id: string
+          pinned: boolean
+          tags: string[]
           title: string | null
+          title_source: string
           updated_at: string
           user_id: string | null
+          workspace_id: string | null
         }
         Insert: {
+          active_message_id?: string | null
           created_at?: string
           id?: string
+          pinned?: boolean
+          tags?: string[]
           title?: string | null
+          title_source?: string
           updated_at?: string
           user_id?: string | null
+          workspace_id?: string | null
         }
         Update: {
+          active_message_id?: string | null
           created_at?: string
           id?: string
+          pinned?: boolean
+          tags?: string[]
           title?: string | null
+          title_source?: string
           updated_at?: string
           user_id?: string | null
+          workspace_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "chat_sessions_active_message_id_fkey"
+            columns: ["active_message_id"]
+            isOneToOne: false
+            referencedRelation: "chat_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_sessions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      codebases: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "codebases_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_chunks: {
+        Row: {
+          chunk_index: number
+          codebase_id: string | null
+          content: string
+          created_at: string
+          embedding: string | null
+          embedding_model: string | null
+          end_line: number
+          file_id: string
+          id: string
+          kind: string
+          search_vector: unknown
+          session_id: string | null
+          start_line: number
+          symbol: string | null
+          user_id: string | null
+        }
+        Insert: {
+          chunk_index: number
+          codebase_id?: string | null
+          content: string
+          created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          end_line: number
+          file_id: string
+          id?: string
+          kind: string
+          search_vector?: never
+          session_id?: string | null
+          start_line: number
+          symbol?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          chunk_index?: number
+          codebase_id?: string | null
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          end_line?: number
+          file_id?: string
+          id?: string
+          kind?: string
+          search_vector?: never
+          session_id?: string | null
+          start_line?: number
+          symbol?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_chunks_codebase_id_fkey"
+            columns: ["codebase_id"]
+            isOneToOne: false
+            referencedRelation: "codebases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_chunks_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "uploaded_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_chunks_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      file_symbols: {
+        Row: {
+          codebase_id: string | null
+          created_at: string
+          exported: boolean
+          file_id: string
+          id: string
+          kind: string
+          line: number
+          name: string
+          session_id: string | null
+          signature: string
+          user_id: string | null
+        }
+        Insert: {
+          codebase_id?: string | null
+          created_at?: string
+          exported?: boolean
+          file_id: string
+          id?: string
+          kind: string
+          line: number
+          name: string
+          session_id?: string | null
+          signature?: string
+          user_id?: string | null
+        }
+        Update: {
+          codebase_id?: string | null
+          created_at?: string
+          exported?: boolean
+          file_id?: string
+          id?: string
+          kind?: string
+          line?: number
+          name?: string
+          session_id?: string | null
+          signature?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_symbols_codebase_id_fkey"
+            columns: ["codebase_id"]
+            isOneToOne: false
+            referencedRelation: "codebases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_symbols_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "uploaded_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "file_symbols_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_codebases: {
+        Row: {
+          attached_by: string | null
+          codebase_id: string
+          created_at: string
+          session_id: string
+        }
+        Insert: {
+          attached_by?: string | null
+          codebase_id: string
+          created_at?: string
+          session_id: string
+        }
+        Update: {
+          attached_by?: string | null
+          codebase_id?: string
+          created_at?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_codebases_codebase_id_fkey"
+            columns: ["codebase_id"]
+            isOneToOne: false
+            referencedRelation: "codebases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_codebases_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_diagrams: {
+        Row: {
+          created_at: string
+          file_set: Json
+          id: string
+          kind: string | null
+          mermaid_code: string
+          model: string | null
+          node_files: Json
+          prompt_hash: string | null
+          provider: string | null
+          session_id: string
+          source: string
+          user_id: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          file_set?: Json
+          id?: string
+          kind?: string | null
+          mermaid_code: string
+          model?: string | null
+          node_files?: Json
+          prompt_hash?: string | null
+          provider?: string | null
+          session_id: string
+          source: string
+          user_id?: string | null
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          file_set?: Json
+          id?: string
+          kind?: string | null
+          mermaid_code?: string
+          model?: string | null
+          node_files?: Json
+          prompt_hash?: string | null
+          provider?: string | null
+          session_id?: string
+          source?: string
+          user_id?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_diagrams_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_shares: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          revoked_at: string | null
+          session_id: string
+          token: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          session_id: string
+          token?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          revoked_at?: string | null
+          session_id?: string
+          token?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_shares_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       uploaded_files: {
         Row: {
+          codebase_id: string | null
           file_name: string
+          file_path: string
           file_size: number
           file_type: string
           id: string
@@ -87,7 +440,9 @@ export type Database = {
           user_id: string | null
         }
         Insert: {
+          codebase_id?: string | null
           file_name: string
+          file_path: string
           file_size: number
           file_type: string
           id?: string
@@ -99,7 +454,9 @@ export type Database = {
           user_id?: string | null
         }
         Update: {
+          codebase_id?: string | null
           file_name?: string
+          file_path?: string
           file_size?: number
           file_type?: string
           id?: string
@@ -111,6 +468,13 @@ export type Database = {
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "uploaded_files_codebase_id_fkey"
+            columns: ["codebase_id"]
+            isOneToOne: false
+            referencedRelation: "codebases"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "uploaded_files_session_id_fkey"
             columns: ["session_id"]
@@ -120,12 +484,228 @@ export type Database = {
           },
         ]
       }
+      workspace_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string | null
+          expires_at: string
+          id: string
+          invited_by: string | null
+          revoked_at: string | null
+          role: string
+          token: string
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role: string
+          token?: string
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: string
+          token?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invitations_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_workspace_invitation: {
+        Args: {
+          invitation_token: string
+        }
+        Returns: string
+      }
+      can_manage_codebase: {
+        Args: {
+          target_codebase_id: string
+        }
+        Returns: boolean
+      }
+      can_view_codebase: {
+        Args: {
+          target_codebase_id: string
+        }
+        Returns: boolean
+      }
+      can_view_session: {
+        Args: {
+          target_session_id: string
+        }
+        Returns: boolean
+      }
+      get_workspace_invitation: {
+        Args: {
+          invitation_token: string
+        }
+        Returns: {
+          email: string
+          expires_at: string
+          role: string
+          status: string
+          workspace_id: string
+          workspace_name: string
+        }[]
+      }
+      is_shared_session: {
+        Args: {
+          target_session_id: string
+        }
+        Returns: boolean
+      }
+      match_file_chunks: {
+        Args: {
+          match_count?: number
+          match_model: string
+          match_session_id: string
+          query_embedding: string
+        }
+        Returns: {
+          content: string
+          end_line: number
+          file_id: string
+          file_path: string
+          id: string
+          kind: string
+          similarity: number
+          start_line: number
+          symbol: string
+        }[]
+      }
+      owns_session: {
+        Args: {
+          target_session_id: string
+        }
+        Returns: boolean
+      }
+      request_share_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      search_chat_sessions: {
+        Args: {
+          page_offset?: number
+          page_size?: number
+          search_query?: string
+          search_tag?: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          message_count: number
+          pinned: boolean
+          tags: string[]
+          title: string
+          title_source: string
+          total_count: number
+          updated_at: string
+        }[]
+      }
+      search_file_chunks: {
+        Args: {
+          match_count?: number
+          search_query: string
+          search_session_id: string
+        }
+        Returns: {
+          content: string
+          end_line: number
+          file_id: string
+          file_path: string
+          id: string
+          rank: number
+          start_line: number
+          symbol: string
+        }[]
+      }
+      workspace_role: {
+        Args: {
+          target_workspace_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
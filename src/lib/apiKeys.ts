@@ -0,0 +1,61 @@
+import { SecureStorage } from '@/lib/security';
+
+export interface UserApiKeys {
+  openai?: string;
+  claude?: string;
+  google?: string;
+}
+
+export type AiProvider = keyof UserApiKeys;
+
+export const DEFAULT_PROVIDER_ORDER: AiProvider[] = ['openai', 'claude', 'google'];
+
+const PROVIDER_ORDER_KEY = 'ai-provider-order';
+
+// Load the user's API keys from localStorage (encrypted first, then the legacy plain copy)
+export const loadUserApiKeys = async (): Promise<UserApiKeys | null> => {
+  try {
+    const encryptedKeys = localStorage.getItem('user-api-keys-encrypted');
+    if (encryptedKeys) {
+      const decryptedData = await SecureStorage.decryptData(encryptedKeys);
+      return JSON.parse(decryptedData);
+    }
+  } catch (error) {
+    console.error('Error loading API keys:', error);
+  }
+
+  // Fallback to unencrypted keys
+  const savedKeys = localStorage.getItem('user-api-keys');
+  if (savedKeys) {
+    try {
+      return JSON.parse(savedKeys);
+    } catch (fallbackError) {
+      console.error('Error parsing fallback API keys:', fallbackError);
+    }
+  }
+
+  return null;
+};
+
+export const hasAnyApiKey = (keys: UserApiKeys | null): boolean => {
+  return !!keys && !!(keys.openai || keys.claude || keys.google);
+};
+
+// The order edge functions should try providers in; the first entry is the preferred one
+export const loadProviderOrder = (): AiProvider[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROVIDER_ORDER_KEY) ?? '[]');
+    if (Array.isArray(saved)) {
+      const known = saved.filter((name): name is AiProvider => DEFAULT_PROVIDER_ORDER.includes(name));
+      return [...new Set([...known, ...DEFAULT_PROVIDER_ORDER])];
+    }
+  } catch (error) {
+    console.error('Error loading provider order:', error);
+  }
+  return DEFAULT_PROVIDER_ORDER;
+};
+
+export const savePreferredProvider = (provider: AiProvider) => {
+  const order = [provider, ...DEFAULT_PROVIDER_ORDER.filter(name => name !== provider)];
+  localStorage.setItem(PROVIDER_ORDER_KEY, JSON.stringify(order));
+};
@@ -0,0 +1,263 @@
+import { unzip, Gunzip, UnzipFileInfo } from 'fflate';
+
+// A file picked from an archive or folder together with its path inside that tree
+export interface CollectedFile {
+  path: string;
+  file: File;
+}
+
+export interface ExtractedArchive {
+  files: CollectedFile[];
+  // Files left out for being larger than the caller's limit or for having an unsafe path
+  skippedCount: number;
+}
+
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz', '.tar'];
+export const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024; // 50MB
+export const MAX_ARCHIVE_ENTRIES = 5000;
+// Bounds what a small compressed archive may expand to, whether or not the files are kept
+export const MAX_EXTRACTED_SIZE = 500 * 1024 * 1024; // 500MB
+
+export const isArchive = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some(extension => lower.endsWith(extension));
+};
+
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// Archive paths become upload and storage paths, so they must stay relative and inside the
+// tree: backslashes become slashes, leading slashes and `.` segments go, and `..` is refused
+const normalizeEntryPath = (path: string): string | null => {
+  const segments = path.replace(/\\/g, '/').split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) return null;
+  return segments.join('/');
+};
+
+const toCollectedFile = (path: string, data: Uint8Array): CollectedFile => ({
+  path,
+  file: new File([data], basename(path)),
+});
+
+const tooManyEntries = (name: string) => new Error(`${name} contains more than ${MAX_ARCHIVE_ENTRIES} files`);
+
+const tooLarge = (name: string) => new Error(`${name} unpacks to more than ${MAX_EXTRACTED_SIZE / 1024 / 1024}MB`);
+
+// Entries are counted and sized from the central directory, so nothing past the limits is inflated
+const unzipAsync = (archiveName: string, data: Uint8Array, maxFileSize: number) =>
+  new Promise<ExtractedArchive>((resolve, reject) => {
+    let entryCount = 0;
+    let skippedCount = 0;
+    let extractedSize = 0;
+    const filter = (entry: UnzipFileInfo) => {
+      if (entry.name.endsWith('/')) return false;
+      if (++entryCount > MAX_ARCHIVE_ENTRIES) return false;
+      if (entry.originalSize > maxFileSize || !normalizeEntryPath(entry.name)) {
+        skippedCount++;
+        return false;
+      }
+      extractedSize += entry.originalSize;
+      return extractedSize <= MAX_EXTRACTED_SIZE;
+    };
+    unzip(data, { filter }, (error, result) => {
+      if (error) reject(error);
+      else if (entryCount > MAX_ARCHIVE_ENTRIES) reject(tooManyEntries(archiveName));
+      else if (extractedSize > MAX_EXTRACTED_SIZE) reject(tooLarge(archiveName));
+      else resolve({
+        files: Object.entries(result).map(([name, content]) => toCollectedFile(normalizeEntryPath(name)!, content)),
+        skippedCount,
+      });
+    });
+  });
+
+const readString = (block: Uint8Array, offset: number, length: number): string => {
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? bytes : bytes.subarray(0, end));
+};
+
+const concatChunks = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+};
+
+// GNU long names and PAX headers are tiny; anything bigger is not worth reading
+const MAX_TAR_METADATA_SIZE = 64 * 1024;
+
+interface TarEntry {
+  type: string;
+  path: string;
+  // Body bytes still to come, then the padding up to the next 512-byte block
+  remaining: number;
+  padding: number;
+  // Null while the body is being skipped
+  chunks: Uint8Array[] | null;
+}
+
+// Parse a POSIX/ustar tar stream, including GNU long names and PAX `path` records, as it
+// arrives. Bodies of files that won't be kept are skipped instead of buffered.
+function createTarReader(archiveName: string, maxFileSize: number) {
+  const files: CollectedFile[] = [];
+  let entryCount = 0;
+  let skippedCount = 0;
+  let pendingName: string | null = null;
+  let header = new Uint8Array(512);
+  let headerLength = 0;
+  let entry: TarEntry | null = null;
+  let ended = false;
+
+  const startEntry = () => {
+    if (header.every(byte => byte === 0)) {
+      ended = true;
+      return;
+    }
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8) || 0;
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = readString(header, 345, 155);
+    const name = readString(header, 0, 100);
+    const isMetadata = type === 'L' || type === 'x';
+    // Only regular files; directories, links and devices are skipped
+    const isFile = type === '0' || type === '7';
+
+    let path = '';
+    if (!isMetadata) {
+      path = pendingName ?? (prefix ? `${prefix}/${name}` : name);
+      pendingName = null;
+    }
+    const safePath = normalizeEntryPath(path);
+    const keepFile = isFile && size <= maxFileSize && safePath !== null;
+    if (isFile) {
+      if (++entryCount > MAX_ARCHIVE_ENTRIES) throw tooManyEntries(archiveName);
+      if (!keepFile) skippedCount++;
+    }
+
+    const keep = (isMetadata && size <= MAX_TAR_METADATA_SIZE) || keepFile;
+    const next: TarEntry = { type, path: safePath ?? '', remaining: size, padding: (512 - (size % 512)) % 512, chunks: keep ? [] : null };
+    if (size > 0) entry = next;
+    else finishEntry(next);
+  };
+
+  const finishEntry = (current: TarEntry) => {
+    if (!current.chunks) return;
+    const body = concatChunks(current.chunks);
+    if (current.type === 'L') {
+      pendingName = readString(body, 0, body.length);
+    } else if (current.type === 'x') {
+      const pathRecord = new TextDecoder().decode(body).match(/\d+ path=([^\n]+)\n/);
+      if (pathRecord) pendingName = pathRecord[1];
+    } else {
+      files.push(toCollectedFile(current.path, body));
+    }
+  };
+
+  const push = (chunk: Uint8Array) => {
+    let offset = 0;
+    while (offset < chunk.length && !ended) {
+      if (!entry) {
+        const take = Math.min(512 - headerLength, chunk.length - offset);
+        header.set(chunk.subarray(offset, offset + take), headerLength);
+        headerLength += take;
+        offset += take;
+        if (headerLength === 512) {
+          startEntry();
+          header = new Uint8Array(512);
+          headerLength = 0;
+        }
+        continue;
+      }
+
+      const current: TarEntry = entry;
+      if (current.remaining > 0) {
+        const take = Math.min(current.remaining, chunk.length - offset);
+        // Copied so a kept file doesn't hold on to the whole buffer it arrived in
+        current.chunks?.push(chunk.slice(offset, offset + take));
+        current.remaining -= take;
+        offset += take;
+        if (current.remaining === 0) finishEntry(current);
+      } else {
+        const take = Math.min(current.padding, chunk.length - offset);
+        current.padding -= take;
+        offset += take;
+      }
+      if (current.remaining === 0 && current.padding === 0) entry = null;
+    }
+  };
+
+  return {
+    push,
+    finish: (): ExtractedArchive => ({ files, skippedCount }),
+  };
+}
+
+// Feed a gzip stream to `onData` a slice at a time, so a small archive that expands to far
+// more than it claims is stopped before its output piles up in memory
+const gunzipStream = (archiveName: string, data: Uint8Array, onData: (chunk: Uint8Array) => void) => {
+  const SLICE_SIZE = 16 * 1024;
+  let extractedSize = 0;
+  const gunzip = new Gunzip((chunk) => {
+    extractedSize += chunk.length;
+    if (extractedSize > MAX_EXTRACTED_SIZE) throw tooLarge(archiveName);
+    onData(chunk);
+  });
+  for (let offset = 0; offset < data.length; offset += SLICE_SIZE) {
+    const end = Math.min(offset + SLICE_SIZE, data.length);
+    gunzip.push(data.subarray(offset, end), end === data.length);
+  }
+};
+
+// Files larger than `maxFileSize` are left out, as they could not be uploaded anyway
+export async function extractArchive(archive: File, maxFileSize = Infinity): Promise<ExtractedArchive> {
+  const data = new Uint8Array(await archive.arrayBuffer());
+  const lower = archive.name.toLowerCase();
+
+  if (lower.endsWith('.zip')) {
+    return unzipAsync(archive.name, data, maxFileSize);
+  }
+
+  const tar = createTarReader(archive.name, maxFileSize);
+  if (lower.endsWith('.tar')) {
+    tar.push(data);
+  } else {
+    gunzipStream(archive.name, data, tar.push);
+  }
+  return tar.finish();
+}
+
+const readFileEntry = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryBatch = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+// Walk dropped folders; `skipDirectory` lets callers prune vendor folders before reading them
+export async function collectDirectoryEntries(
+  entries: FileSystemEntry[],
+  skipDirectory: (name: string) => boolean = () => false
+): Promise<CollectedFile[]> {
+  const files: CollectedFile[] = [];
+
+  const walk = async (entry: FileSystemEntry, prefix: string) => {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isFile) {
+      files.push({ path, file: await readFileEntry(entry as FileSystemFileEntry) });
+      return;
+    }
+    if (!entry.isDirectory || skipDirectory(entry.name)) return;
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in batches until it yields an empty list
+    let batch = await readDirectoryBatch(reader);
+    while (batch.length > 0) {
+      for (const child of batch) await walk(child, path);
+      batch = await readDirectoryBatch(reader);
+    }
+  };
+
+  for (const entry of entries) await walk(entry, '');
+  return files;
+}
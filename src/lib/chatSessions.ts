@@ -0,0 +1,131 @@
+import { supabase } from '@/integrations/supabase/client';
+import { loadProviderOrder, loadUserApiKeys } from '@/lib/apiKeys';
+import { getFunctionErrorMessage } from '@/lib/edgeFunctions';
+
+// 'default' is the generated 'Session <date>' title, which an AI suggestion may replace
+export type SessionTitleSource = 'default' | 'ai' | 'user';
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  titleSource: SessionTitleSource;
+  pinned: boolean;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number;
+}
+
+export interface SessionSearch {
+  // Matched against titles and message contents
+  query?: string;
+  tag?: string | null;
+  // 0-based
+  page?: number;
+}
+
+export interface SessionPage {
+  sessions: ChatSessionSummary[];
+  // Matching sessions over all pages
+  total: number;
+}
+
+export const SESSIONS_PAGE_SIZE = 20;
+export const MAX_TITLE_LENGTH = 80;
+const MAX_TAG_LENGTH = 24;
+
+// Tags are compared exactly, so keep them in one lowercase, dash-separated form
+export const normalizeTag = (tag: string): string =>
+  tag.trim().toLowerCase().replace(/\s+/g, '-').replace(/^#/, '').slice(0, MAX_TAG_LENGTH);
+
+// The caller's sessions, pinned first and then most recently updated
+export const searchChatSessions = async ({ query, tag, page = 0 }: SessionSearch): Promise<SessionPage> => {
+  const { data, error } = await supabase.rpc('search_chat_sessions', {
+    search_query: query?.trim() || undefined,
+    search_tag: tag || undefined,
+    page_size: SESSIONS_PAGE_SIZE,
+    page_offset: page * SESSIONS_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+  const rows = data ?? [];
+  return {
+    sessions: rows.map(row => ({
+      id: row.id,
+      title: row.title ?? 'Untitled session',
+      titleSource: row.title_source as SessionTitleSource,
+      pinned: row.pinned,
+      tags: row.tags ?? [],
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      messageCount: Number(row.message_count),
+    })),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+  };
+};
+
+// Every tag in use across the caller's sessions, for the filter
+export const listSessionTags = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('tags')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return [...new Set((data ?? []).flatMap(row => row.tags ?? []))].sort();
+};
+
+// A title the user typed is never replaced by a suggestion
+export const renameSession = async (sessionId: string, title: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ title: title.trim().slice(0, MAX_TITLE_LENGTH), title_source: 'user' })
+    .eq('id', sessionId);
+
+  if (error) throw error;
+};
+
+export const setSessionPinned = async (sessionId: string, pinned: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ pinned })
+    .eq('id', sessionId);
+
+  if (error) throw error;
+};
+
+export const setSessionTags = async (sessionId: string, tags: string[]): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .update({ tags: [...new Set(tags.map(normalizeTag).filter(Boolean))] })
+    .eq('id', sessionId);
+
+  if (error) throw error;
+};
+
+export const deleteSession = async (sessionId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_sessions')
+    .delete()
+    .eq('id', sessionId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+};
+
+// Ask for a title based on the first question and answer. Returns the new title, or
+// null when the session already had a title of the user's own.
+export const suggestSessionTitle = async (sessionId: string): Promise<string | null> => {
+  const { data, error } = await supabase.functions.invoke('suggest-session-title', {
+    body: {
+      sessionId,
+      userApiKeys: await loadUserApiKeys(),
+      providerOrder: loadProviderOrder(),
+    },
+  });
+
+  if (error) {
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to suggest a title'));
+  }
+  return data?.applied ? data.title : null;
+};
@@ -0,0 +1,111 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/lib/edgeFunctions';
+import { Citation } from '@/lib/citations';
+
+type ChatStreamEvent =
+  | { type: 'start'; provider: string; filesUsed: string[]; skippedFiles: string[] }
+  | { type: 'delta'; text: string }
+  | { type: 'citations'; citations: Citation[] }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+// A file, or a line range in it, that a question is explicitly about
+export interface ChatFocus {
+  fileId: string;
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export const formatFocus = (focus: ChatFocus): string =>
+  focus.startLine === undefined
+    ? focus.path
+    : focus.startLine === focus.endLine
+      ? `${focus.path}:${focus.startLine}`
+      : `${focus.path}:${focus.startLine}-${focus.endLine}`;
+
+export interface ChatStreamResult {
+  content: string;
+  provider?: string;
+  citations: Citation[];
+  // True when the caller aborted before the answer finished
+  stopped: boolean;
+}
+
+interface ChatStreamOptions {
+  onDelta: (content: string) => void;
+  signal?: AbortSignal;
+}
+
+// Ask chat-with-codebase for a streamed answer, reporting the text so far after every chunk.
+// Aborting the signal cancels the request while it waits for a response, or the response
+// body once it streams, which also stops the provider upstream.
+export const streamChatAnswer = async (
+  body: Record<string, unknown>,
+  { onDelta, signal }: ChatStreamOptions
+): Promise<ChatStreamResult> => {
+  const { data, error } = await supabase.functions.invoke('chat-with-codebase', {
+    body: { ...body, stream: true },
+    signal
+  });
+
+  // An abort before the headers arrive surfaces as a fetch error; that is a stop, not a failure
+  if (signal?.aborted) {
+    if (data instanceof Response) data.body?.cancel().catch(() => {});
+    return { content: '', citations: [], stopped: true };
+  }
+
+  if (error) {
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to get an answer'));
+  }
+
+  let content = '';
+  let provider: string | undefined;
+  let citations: Citation[] = [];
+
+  // Older deployments answer with plain JSON
+  if (!(data instanceof Response)) {
+    content = data.answer;
+    onDelta(content);
+    return { content, provider: data.provider, citations: data.citations ?? [], stopped: false };
+  }
+
+  const reader = data.body!.pipeThrough(new TextDecoderStream()).getReader();
+  const stop = () => reader.cancel().catch(() => {});
+  signal?.addEventListener('abort', stop);
+
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const line = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        if (!line.startsWith('data:')) continue;
+
+        const event: ChatStreamEvent = JSON.parse(line.slice(5));
+        if (event.type === 'start') {
+          provider = event.provider;
+        } else if (event.type === 'delta') {
+          content += event.text;
+          onDelta(content);
+        } else if (event.type === 'citations') {
+          citations = event.citations;
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+      }
+    }
+  } catch (streamError) {
+    // Cancelling the reader rejects the pending read; that is a stop, not a failure
+    if (!signal?.aborted) throw streamError;
+  } finally {
+    signal?.removeEventListener('abort', stop);
+  }
+
+  return { content, provider, citations, stopped: !!signal?.aborted };
+};
@@ -0,0 +1,27 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// A source reference attached to an assistant answer, as produced by chat-with-codebase
+export interface Citation {
+  fileId: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+export const formatCitation = ({ path, startLine, endLine }: Omit<Citation, 'fileId'>): string =>
+  startLine === endLine ? `${path}:${startLine}` : `${path}:${startLine}-${endLine}`;
+
+// Citations come back from the database as untyped JSON; keep only well-formed entries
+export const parseCitations = (value: Json | null | undefined): Citation[] => {
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry): entry is Json & Citation => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return false;
+    const { fileId, path, startLine, endLine } = entry as Record<string, Json>;
+    return typeof fileId === 'string' && typeof path === 'string'
+      && typeof startLine === 'number' && typeof endLine === 'number';
+  }).map(({ fileId, path, startLine, endLine }) => ({ fileId, path, startLine, endLine }));
+};
+
+// The inverse of parseCitations, for writing citations back to a JSON column
+export const toCitationJson = (citations: Citation[]): Json =>
+  citations.map(({ fileId, path, startLine, endLine }) => ({ fileId, path, startLine, endLine }));
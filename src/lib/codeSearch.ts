@@ -0,0 +1,112 @@
+import { supabase } from '@/integrations/supabase/client';
+import { sessionSourceFilter } from '@/lib/sessionSources';
+
+export interface SymbolMatch {
+  id: string;
+  name: string;
+  kind: string;
+  line: number;
+  exported: boolean;
+  signature: string;
+}
+
+export interface LineMatch {
+  line: number;
+  text: string;
+}
+
+export interface SearchResultGroup {
+  fileId: string;
+  path: string;
+  symbols: SymbolMatch[];
+  lines: LineMatch[];
+}
+
+const MAX_SYMBOL_RESULTS = 50;
+const MAX_CHUNK_RESULTS = 30;
+const MAX_LINES_PER_CHUNK = 5;
+const MAX_LINE_CHARS = 200;
+
+// Words to look for inside matched chunks, mirroring the camelCase splitting the index does
+const searchTerms = (query: string): string[] => {
+  const words = query.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^\w$]+/);
+  return [...new Set(words.filter(word => word.length > 1))];
+};
+
+const escapeLike = (value: string) => value.replace(/[%_\\]/g, '\\$&');
+
+// Best symbol matches first: exact name, then prefix, then exported ones
+const symbolScore = (symbol: SymbolMatch, needle: string): number => {
+  const name = symbol.name.toLowerCase();
+  return (name === needle ? 4 : name.startsWith(needle) ? 2 : 0) + (symbol.exported ? 1 : 0);
+};
+
+// Search a session's symbol index and the full-text index of its chunks, attached codebases included,
+// grouped by file with symbol hits ahead of plain text hits
+export const searchCodebase = async (sessionId: string, query: string): Promise<SearchResultGroup[]> => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const sources = await sessionSourceFilter(sessionId);
+  const [symbolResult, chunkResult] = await Promise.all([
+    supabase
+      .from('file_symbols')
+      .select('id, file_id, name, kind, line, exported, signature, uploaded_files(file_path)')
+      .or(sources)
+      .ilike('name', `%${escapeLike(trimmed)}%`)
+      .limit(MAX_SYMBOL_RESULTS),
+    supabase.rpc('search_file_chunks', {
+      search_session_id: sessionId,
+      search_query: trimmed,
+      match_count: MAX_CHUNK_RESULTS
+    })
+  ]);
+
+  if (symbolResult.error) throw symbolResult.error;
+  if (chunkResult.error) throw chunkResult.error;
+
+  const groups = new Map<string, SearchResultGroup>();
+  const groupFor = (fileId: string, path: string) => {
+    let group = groups.get(fileId);
+    if (!group) {
+      group = { fileId, path, symbols: [], lines: [] };
+      groups.set(fileId, group);
+    }
+    return group;
+  };
+
+  const needle = trimmed.toLowerCase();
+  const symbols = (symbolResult.data ?? [])
+    .map(row => ({ row, score: symbolScore(row, needle) }))
+    .sort((a, b) => b.score - a.score || a.row.name.localeCompare(b.row.name));
+  for (const { row } of symbols) {
+    groupFor(row.file_id, row.uploaded_files?.file_path ?? '').symbols.push({
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      line: row.line,
+      exported: row.exported,
+      signature: row.signature
+    });
+  }
+
+  // The RPC returns whole chunks; surface the lines inside them that contain a search term
+  const terms = searchTerms(trimmed);
+  for (const chunk of chunkResult.data ?? []) {
+    const group = groupFor(chunk.file_id, chunk.file_path);
+    const seen = new Set(group.lines.map(match => match.line));
+    const hits = chunk.content.split('\n').flatMap((text, index) => {
+      const lower = text.toLowerCase();
+      const line = chunk.start_line + index;
+      return !seen.has(line) && terms.some(term => lower.includes(term))
+        ? [{ line, text: text.trim().slice(0, MAX_LINE_CHARS) }]
+        : [];
+    });
+    group.lines.push(...hits.slice(0, MAX_LINES_PER_CHUNK));
+  }
+
+  for (const group of groups.values()) {
+    group.lines.sort((a, b) => a.line - b.line);
+  }
+  return [...groups.values()].filter(group => group.symbols.length > 0 || group.lines.length > 0);
+};
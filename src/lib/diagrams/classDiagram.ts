@@ -0,0 +1,448 @@
+// Static class diagram built from class, interface and enum declarations, with no LLM involved.
+// Supports JavaScript/TypeScript, Python and Java. Like the import graph it is regex-based
+// and line-oriented: it reads declarations and their direct members, not full type information.
+import { SourceFile } from './importGraph';
+
+type ClassLanguage = 'ts' | 'python' | 'java';
+type Visibility = '+' | '-' | '#';
+
+export interface ClassMember {
+  name: string;
+  visibility: Visibility;
+  type?: string;
+  // Present for methods: the parameter names
+  params?: string[];
+  isStatic?: boolean;
+}
+
+export interface ParsedClass {
+  name: string;
+  kind: 'class' | 'interface' | 'enum';
+  path: string;
+  line: number;
+  extends: string[];
+  implements: string[];
+  members: ClassMember[];
+}
+
+export interface ClassDiagram {
+  code: string;
+  // Mermaid class id -> file path, so the UI can map clicks back to files
+  nodeFiles: Record<string, string>;
+  classCount: number;
+  relationCount: number;
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, ClassLanguage> = {
+  ts: 'ts',
+  tsx: 'ts',
+  js: 'ts',
+  jsx: 'ts',
+  mjs: 'ts',
+  py: 'python',
+  java: 'java',
+};
+
+const MAX_CLASSES = 80;
+const MAX_MEMBERS_PER_CLASS = 12;
+const MAX_TYPE_CHARS = 40;
+
+const getClassLanguage = (path: string): ClassLanguage | null =>
+  LANGUAGE_BY_EXTENSION[path.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+// Drop generic arguments, including nested ones: Map<string, List<T>> -> Map
+const stripGenerics = (text: string): string => {
+  let result = text;
+  let previous: string;
+  do {
+    previous = result;
+    result = result.replace(/<[^<>]*>/g, '');
+  } while (result !== previous);
+  return result;
+};
+
+const splitTypeList = (text: string | undefined): string[] =>
+  text
+    ? stripGenerics(text).split(',').map(name => name.trim().split('.').pop()!.trim()).filter(name => /^\w+$/.test(name))
+    : [];
+
+// Blank out comments and string contents so braces inside them don't count
+const stripCommentsAndStrings = (content: string, language: ClassLanguage): string => {
+  if (language === 'python') {
+    return content
+      .replace(/("""|''')[\s\S]*?\1/g, match => match.replace(/[^\n]/g, ' '))
+      .replace(/(['"])(?:\\.|(?!\1)[^\\\n])*\1/g, '""')
+      .replace(/#.*$/gm, '');
+  }
+  return content
+    .replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ' '))
+    .replace(/(['"`])(?:\\.|(?!\1)[^\\\n])*\1/g, '""')
+    .replace(/\/\/.*$/gm, '');
+};
+
+const cleanType = (type: string | undefined): string | undefined => {
+  if (!type) return undefined;
+  const trimmed = type.trim();
+  // Function types are cut at `=>` by the member patterns
+  if (trimmed.startsWith('(')) return 'Function';
+  const cleaned = trimmed
+    .replace(/[<>]/g, '~')
+    .replace(/[^\w~[\]|.,?]/g, '')
+    .slice(0, MAX_TYPE_CHARS);
+  // String literal unions are blanked to `"" | ""` and leave nothing useful
+  return /\w/.test(cleaned) ? cleaned : undefined;
+};
+
+const paramNames = (params: string | undefined, language: ClassLanguage): string[] => {
+  if (!params) return [];
+  return stripGenerics(params)
+    .split(',')
+    .map(param => {
+      const trimmed = param.trim().replace(/=.*$/, '').trim();
+      if (language === 'java') return trimmed.split(/\s+/).pop() ?? '';
+      return trimmed.replace(/^(?:public|private|protected|readonly)\s+/, '').split(/[:?\s]/)[0].replace(/^\*+/, '');
+    })
+    .filter(name => /^[\w$]+$/.test(name) && name !== 'self' && name !== 'cls');
+};
+
+const visibilityOf = (modifier: string | undefined, name: string): Visibility => {
+  if (modifier === 'private' || name.startsWith('#')) return '-';
+  if (modifier === 'protected') return '#';
+  return '+';
+};
+
+interface OpenType {
+  parsed: ParsedClass;
+  bodyDepth: number;
+  opened: boolean;
+}
+
+const TS_HEADER = /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:const\s+)?(class|interface|enum)\s+([A-Za-z_$][\w$]*)([^{]*)/;
+const JAVA_HEADER = /^\s*(?:(?:public|private|protected|abstract|final|static|sealed|non-sealed|strictfp)\s+)*(class|interface|enum|record)\s+(\w+)([^{]*)/;
+
+const TS_METHOD = /^\s*(?:(public|private|protected)\s+)?((?:(?:static|async|abstract|override|readonly|get|set)\s+)*)(#?[A-Za-z_$][\w$]*)\s*\??\s*(?:<[^>]*>)?\s*\(([^)]*)\)?\s*(?::\s*([^{;=]+))?/;
+const TS_ARROW_FIELD = /^\s*(?:(public|private|protected)\s+)?((?:(?:static|readonly|override)\s+)*)(#?[A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?\(([^)]*)\)?[^=]*=>/;
+const TS_FIELD = /^\s*(?:(public|private|protected)\s+)?((?:(?:static|readonly|declare|override|abstract)\s+)*)(#?[A-Za-z_$][\w$]*)[?!]?\s*(?::\s*([^=;]+))?\s*(?:[=;,]|$)/;
+const JAVA_METHOD = /^\s*((?:(?:public|private|protected|static|final|abstract|synchronized|default|native)\s+)*)(?:<[^>]+>\s+)?([\w<>[\],.? ]+?)\s+(\w+)\s*\(([^)]*)\)?/;
+const JAVA_FIELD = /^\s*((?:(?:public|private|protected|static|final|transient|volatile)\s+)*)([\w<>[\],.? ]+?)\s+(\w+)\s*(?:=|;)/;
+// A line of enum constants: `A, B = 2, C("x");`
+const ENUM_CONSTANTS_LINE = /^\s*[A-Za-z_$][\w$]*\s*(?:=|,|\(|;|$)/;
+const ENUM_CONSTANT = /(?:^|,)\s*([A-Za-z_$][\w$]*)/g;
+
+const JAVA_NON_TYPES = new Set(['return', 'new', 'throw', 'else', 'package', 'import']);
+
+function parseMembers(line: string, open: OpenType, language: ClassLanguage): ClassMember[] {
+  if (open.parsed.kind === 'enum') {
+    if (!ENUM_CONSTANTS_LINE.test(line)) return [];
+    // Argument lists and initializers would read as more constants
+    const names = line.replace(/\([^)]*\)|=[^,;]*/g, '').replace(/;.*$/, '');
+    return [...names.matchAll(ENUM_CONSTANT)].map(match => ({ name: match[1], visibility: '+' as const }));
+  }
+  const member = parseMember(line, language);
+  return member ? [member] : [];
+}
+
+function parseMember(line: string, language: ClassLanguage): ClassMember | null {
+  if (language === 'java') {
+    const method = line.match(JAVA_METHOD);
+    if (method && !JAVA_NON_TYPES.has(method[2].trim())) {
+      const modifiers = method[1] ?? '';
+      return {
+        name: method[3],
+        visibility: visibilityOf(modifiers.match(/public|private|protected/)?.[0], method[3]),
+        type: cleanType(method[2]),
+        params: paramNames(method[4], language),
+        isStatic: /\bstatic\b/.test(modifiers),
+      };
+    }
+    const field = line.match(JAVA_FIELD);
+    if (field && !JAVA_NON_TYPES.has(field[2].trim())) {
+      const modifiers = field[1] ?? '';
+      return {
+        name: field[3],
+        visibility: visibilityOf(modifiers.match(/public|private|protected/)?.[0], field[3]),
+        type: cleanType(field[2]),
+        isStatic: /\bstatic\b/.test(modifiers),
+      };
+    }
+    return null;
+  }
+
+  const arrow = line.match(TS_ARROW_FIELD);
+  if (arrow) {
+    return {
+      name: arrow[3].replace(/^#/, ''),
+      visibility: visibilityOf(arrow[1], arrow[3]),
+      params: paramNames(arrow[4], language),
+      isStatic: /\bstatic\b/.test(arrow[2]),
+    };
+  }
+  const method = line.match(TS_METHOD);
+  if (method && method[3] !== 'constructor') {
+    return {
+      name: method[3].replace(/^#/, ''),
+      visibility: visibilityOf(method[1], method[3]),
+      type: cleanType(method[5]),
+      params: paramNames(method[4], language),
+      isStatic: /\bstatic\b/.test(method[2]),
+    };
+  }
+  const field = line.match(TS_FIELD);
+  if (field) {
+    return {
+      name: field[3].replace(/^#/, ''),
+      visibility: visibilityOf(field[1], field[3]),
+      type: cleanType(field[4]),
+      isStatic: /\bstatic\b/.test(field[2]),
+    };
+  }
+  return null;
+}
+
+// Brace languages: track nesting depth and read members at the depth of each open type's body
+function parseBraceClasses(file: SourceFile, language: 'ts' | 'java'): ParsedClass[] {
+  const lines = stripCommentsAndStrings(file.content, language).split('\n');
+  const header = language === 'java' ? JAVA_HEADER : TS_HEADER;
+  const classes: ParsedClass[] = [];
+  const stack: OpenType[] = [];
+  let depth = 0;
+  // Lines inside an open parameter list are not members
+  let parenDepth = 0;
+
+  lines.forEach((line, index) => {
+    const top = stack[stack.length - 1];
+    const match = line.match(header);
+
+    if (match) {
+      const kind = match[1] === 'record' ? 'class' : match[1] as ParsedClass['kind'];
+      const rest = match[3];
+      const extendsList = splitTypeList(rest.match(/\bextends\s+(.+?)(?=\bimplements\b|$)/)?.[1]);
+      const parsed: ParsedClass = {
+        name: match[2],
+        kind,
+        path: file.path,
+        line: index + 1,
+        // Interfaces extend interfaces; a class extends at most one base
+        extends: extendsList,
+        implements: splitTypeList(rest.match(/\bimplements\s+(.+)$/)?.[1]),
+        members: [],
+      };
+      classes.push(parsed);
+      stack.push({ parsed, bodyDepth: depth + 1, opened: false });
+
+      // One-line enums: `enum Color { Red, Green }`
+      const inlineBody = kind === 'enum' ? line.match(/\{([^}]*)\}?/)?.[1] : undefined;
+      if (inlineBody) {
+        inlineBody.split(';')[0].split(',').forEach(part => {
+          parseMembers(part.trim(), stack[stack.length - 1], language).forEach(member => parsed.members.push(member));
+        });
+      }
+    } else if (top && top.opened && depth === top.bodyDepth && parenDepth === 0 && line.trim()) {
+      parseMembers(line, top, language).forEach(member => {
+        if (!top.parsed.members.some(existing => existing.name === member.name)) top.parsed.members.push(member);
+      });
+    }
+
+    for (const char of line) {
+      if (char === '{') depth++;
+      else if (char === '}') depth--;
+      else if (char === '(') parenDepth++;
+      else if (char === ')') parenDepth = Math.max(0, parenDepth - 1);
+    }
+
+    const current = stack[stack.length - 1];
+    if (current && !current.opened && depth >= current.bodyDepth) current.opened = true;
+    // A declaration without a body (`declare class X;`) closes on its own line
+    if (current && !current.opened && line.includes(';')) stack.pop();
+    while (stack.length > 0 && stack[stack.length - 1].opened && depth < stack[stack.length - 1].bodyDepth) {
+      stack.pop();
+    }
+  });
+
+  return classes;
+}
+
+const PYTHON_IGNORED_BASES = new Set(['object', 'ABC', 'Generic', 'Protocol', 'Enum', 'NamedTuple', 'TypedDict']);
+
+// Python: a class body is every following line indented deeper than the `class` line
+function parsePythonClasses(file: SourceFile): ParsedClass[] {
+  const lines = stripCommentsAndStrings(file.content, 'python').split('\n');
+  const classes: ParsedClass[] = [];
+  const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+  lines.forEach((line, index) => {
+    const match = line.match(/^(\s*)class\s+(\w+)\s*(?:\(([^)]*)\))?\s*:/);
+    if (!match) return;
+
+    const classIndent = match[1].length;
+    const bases = (match[3] ?? '')
+      .split(',')
+      .map(base => base.trim())
+      .filter(base => base && !base.includes('='))
+      .map(base => base.replace(/\[.*$/, '').split('.').pop()!);
+    const isEnum = bases.some(base => /Enum$/.test(base));
+    const parsed: ParsedClass = {
+      name: match[2],
+      kind: isEnum ? 'enum' : bases.includes('Protocol') ? 'interface' : 'class',
+      path: file.path,
+      line: index + 1,
+      extends: bases.filter(base => !PYTHON_IGNORED_BASES.has(base)),
+      implements: [],
+      members: [],
+    };
+    const addMember = (member: ClassMember) => {
+      if (!parsed.members.some(existing => existing.name === member.name)) parsed.members.push(member);
+    };
+
+    let bodyIndent: number | null = null;
+    for (let i = index + 1; i < lines.length; i++) {
+      const bodyLine = lines[i];
+      if (!bodyLine.trim()) continue;
+      const indent = indentOf(bodyLine);
+      if (indent <= classIndent) break;
+      bodyIndent ??= indent;
+
+      if (indent === bodyIndent) {
+        const method = bodyLine.match(/^\s*(?:async\s+)?def\s+(\w+)\s*\(([^)]*)\)?\s*(?:->\s*([^:]+))?/);
+        if (method) {
+          const name = method[1];
+          if (/^__\w+__$/.test(name) && name !== '__init__') continue;
+          addMember({
+            name,
+            visibility: name.startsWith('_') && name !== '__init__' ? '-' : '+',
+            type: cleanType(method[3]),
+            params: paramNames(method[2], 'python'),
+          });
+          continue;
+        }
+        const attribute = bodyLine.match(/^\s*(\w+)\s*(?::\s*([^=]+))?=?/);
+        if (attribute && (attribute[2] || bodyLine.includes('='))) {
+          const name = attribute[1];
+          // Class-level assignments usually declare fields (dataclasses, ORM models), so they are not marked static
+          addMember({
+            name,
+            visibility: name.startsWith('_') ? '-' : '+',
+            type: cleanType(attribute[2]),
+          });
+        }
+      } else {
+        // Instance attributes assigned in methods
+        const assignment = bodyLine.match(/^\s*self\.(\w+)\s*(?::\s*([^=]+))?=(?!=)/);
+        if (assignment) {
+          addMember({
+            name: assignment[1],
+            visibility: assignment[1].startsWith('_') ? '-' : '+',
+            type: cleanType(assignment[2]),
+          });
+        }
+      }
+    }
+
+    classes.push(parsed);
+  });
+
+  return classes;
+}
+
+export function parseClasses(files: SourceFile[]): ParsedClass[] {
+  return files.flatMap(file => {
+    const language = getClassLanguage(file.path);
+    if (language === 'python') return parsePythonClasses(file);
+    if (language) return parseBraceClasses(file, language);
+    return [];
+  });
+}
+
+interface Relation {
+  from: string;
+  to: string;
+  arrow: string;
+}
+
+const formatMember = (member: ClassMember): string => {
+  const suffix = member.isStatic ? '$' : '';
+  if (member.params) {
+    return `${member.visibility}${member.name}(${member.params.join(', ')})${suffix}${member.type ? ` ${member.type}` : ''}`;
+  }
+  return `${member.visibility}${member.type ? `${member.type} ` : ''}${member.name}${suffix}`;
+};
+
+export function renderClassDiagram(classes: ParsedClass[]): ClassDiagram {
+  // The first declaration of a name wins when resolving references
+  const byName = new Map<string, ParsedClass>();
+  classes.forEach(parsed => {
+    if (!byName.has(parsed.name)) byName.set(parsed.name, parsed);
+  });
+
+  const relations: Relation[] = [];
+  const relationKeys = new Set<string>();
+  const addRelation = (from: ParsedClass, to: ParsedClass | undefined, arrow: string) => {
+    if (!to || to === from) return;
+    const key = `${from.path}:${from.name}\u0000${to.path}:${to.name}`;
+    if (relationKeys.has(key)) return;
+    relationKeys.add(key);
+    relations.push({ from: `${from.path}:${from.name}`, to: `${to.path}:${to.name}`, arrow });
+  };
+
+  classes.forEach(parsed => {
+    parsed.extends.forEach(base => addRelation(parsed, byName.get(base), '--|>'));
+    parsed.implements.forEach(base => addRelation(parsed, byName.get(base), '..|>'));
+  });
+  // Fields typed with another known class become associations
+  classes.forEach(parsed => {
+    parsed.members
+      .filter(member => !member.params && member.type)
+      .forEach(member => {
+        member.type!.split(/[^\w]+/).forEach(word => addRelation(parsed, byName.get(word), '-->'));
+      });
+  });
+
+  // Keep the most connected classes when there are too many to draw
+  let shown = classes;
+  if (classes.length > MAX_CLASSES) {
+    const degree = new Map<string, number>();
+    relations.forEach(relation => {
+      degree.set(relation.from, (degree.get(relation.from) ?? 0) + 1);
+      degree.set(relation.to, (degree.get(relation.to) ?? 0) + 1);
+    });
+    shown = [...classes]
+      .sort((a, b) => (degree.get(`${b.path}:${b.name}`) ?? 0) - (degree.get(`${a.path}:${a.name}`) ?? 0))
+      .slice(0, MAX_CLASSES);
+  }
+
+  const ids = new Map<string, string>();
+  const nodeFiles: Record<string, string> = {};
+  const usedIds = new Set<string>();
+  const lines = ['classDiagram'];
+
+  shown.forEach(parsed => {
+    let id = parsed.name.replace(/[^\w]/g, '_');
+    for (let suffix = 2; usedIds.has(id); suffix++) id = `${parsed.name.replace(/[^\w]/g, '_')}_${suffix}`;
+    usedIds.add(id);
+    ids.set(`${parsed.path}:${parsed.name}`, id);
+    nodeFiles[id] = parsed.path;
+
+    // Duplicate names get a unique id and keep the real name as the label
+    const declaration = id === parsed.name ? id : `${id}["${parsed.name}"]`;
+    const members = parsed.members.slice(0, MAX_MEMBERS_PER_CLASS);
+    const annotation = parsed.kind === 'interface' ? '<<interface>>' : parsed.kind === 'enum' ? '<<enumeration>>' : null;
+    if (members.length === 0 && !annotation) {
+      lines.push(`  class ${declaration}`);
+      return;
+    }
+    lines.push(`  class ${declaration} {`);
+    if (annotation) lines.push(`    ${annotation}`);
+    members.forEach(member => lines.push(`    ${parsed.kind === 'enum' ? member.name : formatMember(member)}`));
+    lines.push('  }');
+  });
+
+  const drawn = relations.filter(relation => ids.has(relation.from) && ids.has(relation.to));
+  drawn.forEach(relation => lines.push(`  ${ids.get(relation.from)} ${relation.arrow} ${ids.get(relation.to)}`));
+
+  return {
+    code: lines.join('\n'),
+    nodeFiles,
+    classCount: shown.length,
+    relationCount: drawn.length,
+  };
+}
@@ -0,0 +1,72 @@
+// The diagram views the playground can produce. AI kinds are generated by the
+// analyze-codebase function from a kind-specific prompt; static kinds are built
+// in the browser from the uploaded sources, without any AI provider.
+
+export type DiagramKind =
+  | 'architecture'
+  | 'dependencies'
+  | 'class'
+  | 'sequence'
+  | 'er'
+  | 'c4_context'
+  | 'c4_container';
+
+export interface DiagramKindInfo {
+  kind: DiagramKind;
+  label: string;
+  description: string;
+  generator: 'ai' | 'static';
+  // Sequence diagrams start from a file (and optionally a function) the user picks
+  needsEntryPoint?: boolean;
+}
+
+export const DIAGRAM_KINDS: DiagramKindInfo[] = [
+  {
+    kind: 'architecture',
+    label: 'Architecture flowchart',
+    description: 'Components, data flow and external services, drawn by the AI from a structural summary',
+    generator: 'ai',
+  },
+  {
+    kind: 'dependencies',
+    label: 'Module dependencies',
+    description: 'Import graph built locally from JS/TS, Python and Java imports; cycles are highlighted',
+    generator: 'static',
+  },
+  {
+    kind: 'class',
+    label: 'Class diagram',
+    description: 'Classes, interfaces and their inheritance and field references, parsed locally',
+    generator: 'static',
+  },
+  {
+    kind: 'sequence',
+    label: 'Sequence diagram',
+    description: 'The calls made from a chosen entry point, traced by the AI',
+    generator: 'ai',
+    needsEntryPoint: true,
+  },
+  {
+    kind: 'er',
+    label: 'Entity relationship',
+    description: 'Tables and foreign keys from SQL migrations and Prisma, Django or SQLAlchemy models, parsed locally',
+    generator: 'static',
+  },
+  {
+    kind: 'c4_context',
+    label: 'C4 context',
+    description: 'The system, its users and the external systems it talks to',
+    generator: 'ai',
+  },
+  {
+    kind: 'c4_container',
+    label: 'C4 containers',
+    description: 'Deployable parts of the system (apps, functions, databases) and how they communicate',
+    generator: 'ai',
+  },
+];
+
+export const DEFAULT_DIAGRAM_KIND: DiagramKind = 'architecture';
+
+export const getDiagramKind = (kind: string | null | undefined): DiagramKindInfo | undefined =>
+  DIAGRAM_KINDS.find(info => info.kind === kind);
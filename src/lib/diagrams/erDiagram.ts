@@ -0,0 +1,431 @@
+// Static entity relationship diagram, with no LLM involved. Tables come from SQL migrations
+// (CREATE TABLE / ALTER TABLE / DROP TABLE, applied in path order), Prisma schemas and
+// Django or SQLAlchemy models; foreign keys become relationships.
+import { SourceFile } from './importGraph';
+
+export interface EntityColumn {
+  name: string;
+  type: string;
+  primaryKey?: boolean;
+  unique?: boolean;
+  // Set when the column references another table
+  references?: string;
+  nullable?: boolean;
+}
+
+export interface Entity {
+  name: string;
+  // File the entity was last defined in
+  path: string;
+  columns: EntityColumn[];
+}
+
+export interface EntityRelation {
+  from: string;
+  to: string;
+  label: string;
+  // Optional on the parent side when the foreign key column is nullable
+  optional: boolean;
+  // One-to-one when the foreign key column is unique; many-to-many for join fields
+  cardinality: 'one' | 'many' | 'many-to-many';
+}
+
+export interface ErDiagram {
+  code: string;
+  // Mermaid entity id -> file path, so the UI can map clicks back to files
+  nodeFiles: Record<string, string>;
+  entityCount: number;
+  relationCount: number;
+}
+
+const MAX_COLUMNS_PER_ENTITY = 20;
+
+const COLUMN_CONSTRAINT_KEYWORDS = new Set([
+  'not', 'null', 'default', 'primary', 'references', 'unique', 'check', 'constraint', 'generated', 'collate', 'identity',
+]);
+const TABLE_CONSTRAINT = /^(?:constraint\s+\S+\s+)?(primary\s+key|foreign\s+key|unique|check|exclude)\b/i;
+
+// Schema-qualified names keep their schema unless it is the default one
+const normalizeTableName = (name: string): string => {
+  const unquoted = name.replace(/"/g, '').toLowerCase();
+  return unquoted.startsWith('public.') ? unquoted.slice('public.'.length) : unquoted;
+};
+
+const entityId = (name: string): string => name.replace(/[^\w]/g, '_');
+
+// Split on commas that are not inside parentheses
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+// SQL identifiers are case-insensitive; Prisma field names are not
+const columnList = (text: string | undefined, caseSensitive = false): string[] =>
+  (text ?? '')
+    .split(',')
+    .map(name => name.replace(/"/g, '').trim())
+    .map(name => (caseSensitive ? name : name.toLowerCase()))
+    .filter(Boolean);
+
+const TYPE_ALIASES: Record<string, string> = {
+  'timestamp with time zone': 'timestamptz',
+  'timestamp without time zone': 'timestamp',
+  'character varying': 'varchar',
+  'double precision': 'double',
+};
+
+// Mermaid attribute types are single words, so multi-word SQL types are folded
+const sqlType = (words: string[]): string => {
+  const typeWords: string[] = [];
+  for (const word of words) {
+    if (COLUMN_CONSTRAINT_KEYWORDS.has(word.toLowerCase())) break;
+    typeWords.push(word);
+  }
+  // Drop sizes and schema prefixes: varchar(255) -> varchar, extensions.vector -> vector
+  const type = typeWords.join(' ').replace(/\([^)]*\)/g, '').replace(/^[\w"]+\./, '').trim().toLowerCase();
+  const folded = TYPE_ALIASES[type] ?? type;
+  return folded.replace(/\s+/g, '_').replace(/[^\w[\]]/g, '') || 'unknown';
+};
+
+class EntityCollector {
+  entities = new Map<string, Entity>();
+
+  table(name: string, path: string): Entity {
+    let entity = this.entities.get(name);
+    if (!entity) {
+      entity = { name, path, columns: [] };
+      this.entities.set(name, entity);
+    } else if (path) {
+      entity.path = path;
+    }
+    return entity;
+  }
+
+  column(table: Entity, column: EntityColumn) {
+    const existing = table.columns.find(candidate => candidate.name === column.name);
+    if (existing) Object.assign(existing, column);
+    else table.columns.push(column);
+  }
+
+  markColumns(table: Entity, names: string[], changes: Partial<EntityColumn>) {
+    names.forEach(name => {
+      const column = table.columns.find(candidate => candidate.name === name);
+      if (column) Object.assign(column, changes);
+    });
+  }
+}
+
+// --- SQL -------------------------------------------------------------------
+
+const parseColumnDefinition = (definition: string): EntityColumn | null => {
+  const match = definition.match(/^("[^"]+"|[\w$]+)\s+([\s\S]+)$/);
+  if (!match) return null;
+
+  const rest = match[2];
+  const references = rest.match(/\breferences\s+([\w."]+)/i)?.[1];
+  const primaryKey = /\bprimary\s+key\b/i.test(rest);
+  return {
+    name: match[1].replace(/"/g, '').toLowerCase(),
+    type: sqlType(rest.split(/\s+/)),
+    primaryKey,
+    unique: /\bunique\b/i.test(rest),
+    references: references ? normalizeTableName(references) : undefined,
+    nullable: !primaryKey && !/\bnot\s+null\b/i.test(rest),
+  };
+};
+
+const applyTableConstraint = (collector: EntityCollector, table: Entity, constraint: string) => {
+  const primaryKey = constraint.match(/primary\s+key\s*\(([^)]*)\)/i);
+  if (primaryKey) {
+    collector.markColumns(table, columnList(primaryKey[1]), { primaryKey: true, nullable: false });
+    return;
+  }
+  const foreignKey = constraint.match(/foreign\s+key\s*\(([^)]*)\)\s*references\s+([\w."]+)/i);
+  if (foreignKey) {
+    collector.markColumns(table, columnList(foreignKey[1]), { references: normalizeTableName(foreignKey[2]) });
+    return;
+  }
+  const unique = constraint.match(/unique\s*\(([^)]*)\)/i);
+  if (unique && columnList(unique[1]).length === 1) {
+    collector.markColumns(table, columnList(unique[1]), { unique: true });
+  }
+};
+
+// Body of the parenthesised list that starts at `open`
+const parenthesised = (text: string, open: number): string | null => {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return text.slice(open + 1, i);
+  }
+  return null;
+};
+
+function parseSql(collector: EntityCollector, file: SourceFile) {
+  const statements = file.content
+    .replace(/\$(\w*)\$[\s\S]*?\$\1\$/g, '') // function bodies
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/--.*$/gm, '')
+    .replace(/'(?:''|[^'])*'/g, "''")
+    .split(';')
+    .map(statement => statement.trim().replace(/\s+/g, ' '));
+
+  for (const statement of statements) {
+    const create = statement.match(/^create\s+(?:(?:global\s+|local\s+)?(?:temporary|temp|unlogged)\s+)?table\s+(?:if\s+not\s+exists\s+)?([\w."]+)\s*\(/i);
+    if (create) {
+      const body = parenthesised(statement, create[0].length - 1);
+      if (body === null) continue;
+      const table = collector.table(normalizeTableName(create[1]), file.path);
+      table.columns = [];
+      const constraints: string[] = [];
+      for (const definition of splitTopLevel(body)) {
+        if (TABLE_CONSTRAINT.test(definition) || /^like\s/i.test(definition)) {
+          constraints.push(definition);
+        } else {
+          const column = parseColumnDefinition(definition);
+          if (column) collector.column(table, column);
+        }
+      }
+      constraints.forEach(constraint => applyTableConstraint(collector, table, constraint));
+      continue;
+    }
+
+    const alter = statement.match(/^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?([\w."]+)\s+([\s\S]+)$/i);
+    if (alter) {
+      const table = collector.entities.get(normalizeTableName(alter[1]));
+      if (!table) continue;
+      for (const action of splitTopLevel(alter[2])) {
+        const addColumn = action.match(/^add\s+(?:column\s+)?(?:if\s+not\s+exists\s+)?([\s\S]+)$/i);
+        const dropColumn = action.match(/^drop\s+(?:column\s+)?(?:if\s+exists\s+)?("[^"]+"|[\w$]+)/i);
+        const nullability = action.match(/^alter\s+(?:column\s+)?("[^"]+"|[\w$]+)\s+(set|drop)\s+not\s+null/i);
+        if (addColumn && TABLE_CONSTRAINT.test(addColumn[1])) {
+          applyTableConstraint(collector, table, addColumn[1]);
+        } else if (addColumn) {
+          const column = parseColumnDefinition(addColumn[1]);
+          if (column) collector.column(table, column);
+        } else if (nullability) {
+          collector.markColumns(table, columnList(nullability[1]), { nullable: nullability[2].toLowerCase() === 'drop' });
+        } else if (dropColumn && !/^drop\s+constraint/i.test(action)) {
+          const name = dropColumn[1].replace(/"/g, '').toLowerCase();
+          table.columns = table.columns.filter(column => column.name !== name);
+        }
+      }
+      continue;
+    }
+
+    const drop = statement.match(/^drop\s+table\s+(?:if\s+exists\s+)?([\s\S]+?)(?:\s+(?:cascade|restrict))?$/i);
+    if (drop) {
+      drop[1].split(',').forEach(name => collector.entities.delete(normalizeTableName(name.trim())));
+    }
+  }
+}
+
+// --- Prisma ----------------------------------------------------------------
+
+function parsePrisma(collector: EntityCollector, file: SourceFile) {
+  const content = file.content.replace(/\/\/.*$/gm, '');
+  const blocks = [...content.matchAll(/^\s*(model|enum|type)\s+(\w+)\s*\{([\s\S]*?)^\s*\}/gm)];
+  const modelNames = new Set(blocks.filter(block => block[1] === 'model').map(block => block[2]));
+
+  for (const [, keyword, name, body] of blocks) {
+    if (keyword !== 'model') continue;
+    const table = collector.table(name, file.path);
+    table.columns = [];
+    const relationFields: { fields: string[]; target: string }[] = [];
+
+    for (const line of body.split('\n')) {
+      const blockAttribute = line.match(/^\s*@@(id|unique)\s*\(\s*(?:fields\s*:\s*)?\[([^\]]*)\]/);
+      if (blockAttribute) {
+        const names = columnList(blockAttribute[2], true);
+        if (blockAttribute[1] === 'id') collector.markColumns(table, names, { primaryKey: true });
+        else if (names.length === 1) collector.markColumns(table, names, { unique: true });
+        continue;
+      }
+
+      const field = line.match(/^\s*(\w+)\s+(\w+)(\[\])?(\?)?\s*(.*)$/);
+      if (!field) continue;
+      const [, fieldName, type, list, optional, attributes] = field;
+
+      if (modelNames.has(type)) {
+        const relation = attributes.match(/@relation\([^)]*fields\s*:\s*\[([^\]]*)\]/);
+        if (relation && !list) relationFields.push({ fields: columnList(relation[1], true), target: type });
+        continue;
+      }
+
+      collector.column(table, {
+        name: fieldName,
+        type: `${type}${list ? '[]' : ''}`,
+        primaryKey: /@id\b/.test(attributes),
+        unique: /@unique\b/.test(attributes),
+        nullable: Boolean(optional),
+      });
+    }
+
+    relationFields.forEach(relation => {
+      collector.markColumns(table, relation.fields, { references: relation.target });
+    });
+  }
+}
+
+// --- Django and SQLAlchemy -------------------------------------------------
+
+const DJANGO_FIELD = /^\s+(\w+)\s*=\s*(?:models\.)?(\w*Field|ForeignKey|OneToOneField|ManyToManyField)\((.*)$/;
+const SQLALCHEMY_COLUMN = /^\s+(\w+)\s*(?::\s*Mapped\[([^\]]*(?:\])?)\])?\s*=\s*(?:\w+\.)?(?:Column|mapped_column)\((.*)$/;
+
+function parsePythonModels(collector: EntityCollector, file: SourceFile, relations: EntityRelation[]) {
+  const lines = file.content.split('\n');
+  const isDjango = /\bdjango\b/.test(file.content);
+
+  lines.forEach((line, index) => {
+    const classMatch = line.match(/^class\s+(\w+)\s*\(([^)]*)\)\s*:/);
+    if (!classMatch) return;
+
+    const bodyLines: string[] = [];
+    for (let i = index + 1; i < lines.length; i++) {
+      if (lines[i].trim() && !/^\s/.test(lines[i])) break;
+      bodyLines.push(lines[i]);
+    }
+    const body = bodyLines.join('\n');
+    const tableName = body.match(/^\s+__tablename__\s*=\s*['"]([\w.]+)['"]/m)?.[1];
+
+    if (tableName) {
+      const table = collector.table(normalizeTableName(tableName), file.path);
+      table.columns = [];
+      bodyLines.forEach(bodyLine => {
+        const column = bodyLine.match(SQLALCHEMY_COLUMN);
+        if (!column) return;
+        const [, name, mapped, args] = column;
+        const foreignKey = args.match(/ForeignKey\(\s*['"]([\w.]+)\.\w+['"]/);
+        const explicitType = args.match(/^\s*(?:sa\.)?([A-Z]\w*)/)?.[1];
+        const type = explicitType && explicitType !== 'ForeignKey'
+          ? explicitType
+          : mapped?.replace(/^Optional\[|\]$/g, '').replace(/[^\w]/g, '') || 'unknown';
+        const primaryKey = /primary_key\s*=\s*True/.test(args);
+        collector.column(table, {
+          name: name.toLowerCase(),
+          type: type.toLowerCase(),
+          primaryKey,
+          unique: /unique\s*=\s*True/.test(args),
+          references: foreignKey ? normalizeTableName(foreignKey[1]) : undefined,
+          nullable: !primaryKey && !/nullable\s*=\s*False/.test(args) && (!mapped || /Optional\[|None/.test(mapped)),
+        });
+      });
+      return;
+    }
+
+    if (!isDjango || !/\bModel\b/.test(classMatch[2])) return;
+    const modelName = classMatch[1];
+    const table = collector.table(modelName, file.path);
+    table.columns = [];
+    bodyLines.forEach(bodyLine => {
+      const field = bodyLine.match(DJANGO_FIELD);
+      if (!field) return;
+      const [, name, fieldType, args] = field;
+      const target = args.match(/^\s*['"]?(?:\w+\.)?(\w+)['"]?/)?.[1];
+      const resolvedTarget = target === 'self' ? modelName : target;
+
+      if (fieldType === 'ManyToManyField') {
+        if (resolvedTarget) {
+          relations.push({ from: modelName, to: resolvedTarget, label: name, optional: true, cardinality: 'many-to-many' });
+        }
+        return;
+      }
+
+      const isRelation = fieldType === 'ForeignKey' || fieldType === 'OneToOneField';
+      collector.column(table, {
+        name: isRelation ? `${name.toLowerCase()}_id` : name.toLowerCase(),
+        type: isRelation ? 'ref' : fieldType.replace(/Field$/, '').toLowerCase() || 'field',
+        primaryKey: /primary_key\s*=\s*True/.test(args),
+        unique: fieldType === 'OneToOneField' || /unique\s*=\s*True/.test(args),
+        references: isRelation ? resolvedTarget : undefined,
+        nullable: /null\s*=\s*True/.test(args),
+      });
+    });
+    // Django adds an `id` primary key unless a field declares one
+    if (!table.columns.some(column => column.primaryKey)) {
+      table.columns.unshift({ name: 'id', type: 'auto', primaryKey: true, nullable: false });
+    }
+  });
+}
+
+export function parseEntities(files: SourceFile[]): { entities: Entity[]; relations: EntityRelation[] } {
+  const collector = new EntityCollector();
+  const relations: EntityRelation[] = [];
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+
+  for (const file of sorted) {
+    const extension = file.path.split('.').pop()?.toLowerCase();
+    if (extension === 'sql') parseSql(collector, file);
+    else if (extension === 'prisma') parsePrisma(collector, file);
+    else if (extension === 'py') parsePythonModels(collector, file, relations);
+  }
+
+  collector.entities.forEach(entity => {
+    entity.columns
+      .filter(column => column.references)
+      .forEach(column => {
+        relations.push({
+          from: column.references!,
+          to: entity.name,
+          label: column.name,
+          optional: column.nullable !== false && !column.primaryKey,
+          cardinality: column.unique ? 'one' : 'many',
+        });
+      });
+  });
+
+  return { entities: [...collector.entities.values()], relations };
+}
+
+const RELATION_ARROWS: Record<EntityRelation['cardinality'], string> = {
+  one: '--o|',
+  many: '--o{',
+  'many-to-many': '--o{',
+};
+
+export function renderErDiagram({ entities, relations }: { entities: Entity[]; relations: EntityRelation[] }): ErDiagram {
+  const nodeFiles: Record<string, string> = {};
+  const lines = ['erDiagram'];
+
+  entities.forEach(entity => {
+    const id = entityId(entity.name);
+    nodeFiles[id] = entity.path;
+    if (entity.columns.length === 0) {
+      lines.push(`  ${id}`);
+      return;
+    }
+    lines.push(`  ${id} {`);
+    entity.columns.slice(0, MAX_COLUMNS_PER_ENTITY).forEach(column => {
+      const keys = [column.primaryKey && 'PK', column.references && 'FK', column.unique && !column.primaryKey && 'UK']
+        .filter(Boolean)
+        .join(', ');
+      lines.push(`    ${column.type} ${entityId(column.name)}${keys ? ` ${keys}` : ''}`);
+    });
+    lines.push('  }');
+  });
+
+  relations.forEach(relation => {
+    const parentSide = relation.cardinality === 'many-to-many' ? '}o' : relation.optional ? '|o' : '||';
+    lines.push(`  ${entityId(relation.from)} ${parentSide}${RELATION_ARROWS[relation.cardinality]} ${entityId(relation.to)} : "${relation.label.replace(/"/g, '')}"`);
+  });
+
+  return {
+    code: lines.join('\n'),
+    nodeFiles,
+    entityCount: entities.length,
+    relationCount: relations.length,
+  };
+}
@@ -0,0 +1,182 @@
+// Builds SVG, PNG and PDF downloads from the same markup the preview hands to
+// safeSetInnerHTML, so an export never contains anything the sanitizer removed
+import { safeSetInnerHTML } from '@/lib/security';
+import { MermaidTheme, renderMermaid } from '@/lib/mermaidConfig';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CSS_PX_PER_PT = 4 / 3;
+const PDF_JPEG_QUALITY = 0.92;
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+export type ExportBackground = 'white' | 'transparent' | 'dark';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Pixel ratio for PNG and PDF; SVG is resolution independent
+  scale: number;
+  background: ExportBackground;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'png', scale: 2, background: 'white' };
+
+export const EXPORT_SCALES = [1, 2, 3, 4];
+
+export const EXPORT_BACKGROUND_LABELS: Record<ExportBackground, string> = {
+  white: 'White',
+  transparent: 'Transparent',
+  dark: 'Dark theme',
+};
+
+// Matches the background of Mermaid's dark theme
+const BACKGROUND_COLORS: Record<Exclude<ExportBackground, 'transparent'>, string> = {
+  white: '#ffffff',
+  dark: '#333333',
+};
+
+interface SerializedSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// Give the sanitized SVG its natural size, an explicit font and a background so it
+// renders the same as a standalone file as it does inside the preview
+function serializeSanitized(markup: string, background: ExportBackground): SerializedSvg {
+  const host = document.createElement('div');
+  safeSetInnerHTML(host, markup);
+  const svg = host.querySelector('svg');
+  if (!svg) throw new Error('The diagram did not render to SVG');
+
+  const viewBox = svg.viewBox.baseVal;
+  const width = Math.ceil(viewBox?.width || Number.parseFloat(svg.getAttribute('width') ?? '') || 0);
+  const height = Math.ceil(viewBox?.height || Number.parseFloat(svg.getAttribute('height') ?? '') || 0);
+  if (!width || !height) throw new Error('The diagram has no size to export');
+
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.style.removeProperty('max-width');
+  // The preview inherits the page font, a standalone file has nothing to inherit from
+  if (!svg.style.fontFamily || svg.style.fontFamily === 'inherit') {
+    svg.style.fontFamily = getComputedStyle(document.body).fontFamily;
+  }
+
+  if (background !== 'transparent') {
+    const rect = document.createElementNS(SVG_NS, 'rect');
+    rect.setAttribute('x', String(viewBox?.x ?? 0));
+    rect.setAttribute('y', String(viewBox?.y ?? 0));
+    rect.setAttribute('width', String(width));
+    rect.setAttribute('height', String(height));
+    rect.setAttribute('fill', BACKGROUND_COLORS[background]);
+    svg.insertBefore(rect, svg.firstChild);
+  }
+
+  return { markup: new XMLSerializer().serializeToString(svg), width, height };
+}
+
+async function rasterize(svg: SerializedSvg, scale: number, fill?: string): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([svg.markup], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The browser could not draw the diagram'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(svg.width * scale);
+    canvas.height = Math.round(svg.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available in this browser');
+    if (fill) {
+      context.fillStyle = fill;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), type, quality);
+  });
+
+// A single-page PDF with the diagram as one JPEG image, sized in points so it prints
+// at the diagram's on-screen size with `scale` times the pixel density
+async function canvasToPdf(canvas: HTMLCanvasElement, width: number, height: number): Promise<Blob> {
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', PDF_JPEG_QUALITY)).arrayBuffer());
+  const pageWidth = (width / CSS_PX_PER_PT).toFixed(2);
+  const pageHeight = (height / CSS_PX_PER_PT).toFixed(2);
+  const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  write('%PDF-1.4\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`);
+  object(
+    `<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`,
+    jpeg
+  );
+  object(`<< /Length ${content.length} >>`, encoder.encode(content));
+
+  const xref = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// `renderedSvg` is the markup the preview passed to safeSetInnerHTML. The dark theme
+// renders the code again with Mermaid's dark theme through the same pipeline.
+export async function exportDiagram(code: string, renderedSvg: string, options: ExportOptions): Promise<Blob> {
+  const theme: MermaidTheme = options.background === 'dark' ? 'dark' : 'default';
+  const markup = theme === 'default' ? renderedSvg : await renderMermaid(`mermaid-export-${Date.now()}`, code, theme);
+  const svg = serializeSanitized(markup, options.background);
+
+  switch (options.format) {
+    case 'svg':
+      return new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${svg.markup}`], { type: 'image/svg+xml' });
+    case 'png':
+      return canvasToBlob(await rasterize(svg, options.scale), 'image/png');
+    case 'pdf': {
+      // JPEG has no alpha channel, so a transparent PDF falls back to white
+      const canvas = await rasterize(svg, options.scale, options.background === 'transparent' ? BACKGROUND_COLORS.white : undefined);
+      return canvasToPdf(canvas, svg.width, svg.height);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+// Compares two dependency graphs (two sessions, or saved versions) and draws the
+// merged graph with its changes colour-coded, plus a Markdown changelog
+import { ImportEdge, ImportGraph, basename, dirname, escapeMermaidLabel, findCycles } from './importGraph';
+
+export type ChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface GraphSnapshot {
+  label: string;
+  graph: ImportGraph;
+  // Path -> file text, when the snapshot was built from uploaded files
+  contents?: Record<string, string>;
+}
+
+export interface ModuleChange {
+  path: string;
+  status: ChangeStatus;
+  importsAdded: string[];
+  importsRemoved: string[];
+  // Only known when both snapshots carry file contents
+  contentChanged: boolean;
+}
+
+export interface EdgeChange extends ImportEdge {
+  status: Exclude<ChangeStatus, 'changed'>;
+}
+
+export interface GraphDiff {
+  beforeLabel: string;
+  afterLabel: string;
+  modules: ModuleChange[];
+  edges: EdgeChange[];
+  cyclesAdded: string[][];
+  cyclesResolved: string[][];
+}
+
+export interface GraphDiffDiagram {
+  code: string;
+  nodeFiles: Record<string, string>;
+}
+
+const STATUS_STYLES: Record<Exclude<ChangeStatus, 'unchanged'>, string> = {
+  added: 'fill:#dcfce7,stroke:#16a34a,color:#14532d',
+  removed: 'fill:#fee2e2,stroke:#dc2626,color:#7f1d1d,stroke-dasharray:4 3',
+  changed: 'fill:#fef3c7,stroke:#d97706,color:#78350f',
+};
+
+const EDGE_STYLES: Record<Exclude<EdgeChange['status'], 'unchanged'>, string> = {
+  added: 'stroke:#16a34a,stroke-width:2px',
+  removed: 'stroke:#dc2626,stroke-width:2px',
+};
+
+const edgeKey = (edge: ImportEdge) => `${edge.from}\u0000${edge.to}`;
+const cycleKey = (cycle: string[]) => [...cycle].sort().join('\u0000');
+
+// Rebuild the graph behind a saved "Module dependencies" diagram from its edges and
+// node -> file map; node ids without a file (e.g. subgraphs) are ignored
+export function graphFromDependencyDiagram(code: string, nodeFiles: Record<string, string>): ImportGraph {
+  const edges: ImportEdge[] = [];
+  const seen = new Set<string>();
+  for (const match of code.matchAll(/^\s*([\w-]+)\s*-->\s*([\w-]+)\s*$/gm)) {
+    const from = nodeFiles[match[1]];
+    const to = nodeFiles[match[2]];
+    if (!from || !to || seen.has(`${from}\u0000${to}`)) continue;
+    seen.add(`${from}\u0000${to}`);
+    edges.push({ from, to });
+  }
+  return { modules: [...new Set(Object.values(nodeFiles))].sort(), edges };
+}
+
+export function diffImportGraphs(before: GraphSnapshot, after: GraphSnapshot): GraphDiff {
+  const beforeModules = new Set(before.graph.modules);
+  const afterModules = new Set(after.graph.modules);
+  const beforeEdges = new Set(before.graph.edges.map(edgeKey));
+  const afterEdges = new Set(after.graph.edges.map(edgeKey));
+
+  const edges: EdgeChange[] = [
+    ...after.graph.edges.map(edge => ({ ...edge, status: beforeEdges.has(edgeKey(edge)) ? 'unchanged' as const : 'added' as const })),
+    ...before.graph.edges.filter(edge => !afterEdges.has(edgeKey(edge))).map(edge => ({ ...edge, status: 'removed' as const })),
+  ];
+
+  const modules = [...new Set([...before.graph.modules, ...after.graph.modules])].sort().map((path): ModuleChange => {
+    const importsAdded = edges.filter(edge => edge.from === path && edge.status === 'added').map(edge => edge.to);
+    const importsRemoved = edges.filter(edge => edge.from === path && edge.status === 'removed').map(edge => edge.to);
+    const beforeContent = before.contents?.[path];
+    const afterContent = after.contents?.[path];
+    const contentChanged = beforeContent !== undefined && afterContent !== undefined && beforeContent !== afterContent;
+
+    let status: ChangeStatus = 'unchanged';
+    if (!beforeModules.has(path)) status = 'added';
+    else if (!afterModules.has(path)) status = 'removed';
+    else if (importsAdded.length > 0 || importsRemoved.length > 0 || contentChanged) status = 'changed';
+
+    return { path, status, importsAdded, importsRemoved, contentChanged };
+  });
+
+  const beforeCycles = findCycles(before.graph);
+  const afterCycles = findCycles(after.graph);
+  const beforeCycleKeys = new Set(beforeCycles.map(cycleKey));
+  const afterCycleKeys = new Set(afterCycles.map(cycleKey));
+
+  return {
+    beforeLabel: before.label,
+    afterLabel: after.label,
+    modules,
+    edges,
+    cyclesAdded: afterCycles.filter(cycle => !beforeCycleKeys.has(cycleKey(cycle))),
+    cyclesResolved: beforeCycles.filter(cycle => !afterCycleKeys.has(cycleKey(cycle))),
+  };
+}
+
+export const hasGraphChanges = (diff: GraphDiff): boolean =>
+  diff.modules.some(module => module.status !== 'unchanged') || diff.edges.some(edge => edge.status !== 'unchanged');
+
+// `changesOnly` leaves out unchanged edges and every module that none of the changes touch
+export function renderGraphDiff(diff: GraphDiff, changesOnly = false): GraphDiffDiagram {
+  const edges = changesOnly ? diff.edges.filter(edge => edge.status !== 'unchanged') : diff.edges;
+  const endpoints = new Set(edges.flatMap(edge => [edge.from, edge.to]));
+  const modules = changesOnly
+    ? diff.modules.filter(module => module.status !== 'unchanged' || endpoints.has(module.path))
+    : diff.modules;
+
+  const nodeIds = new Map<string, string>();
+  const nodeFiles: Record<string, string> = {};
+  modules.forEach((module, index) => {
+    nodeIds.set(module.path, `n${index}`);
+    nodeFiles[`n${index}`] = module.path;
+  });
+
+  const byDirectory = new Map<string, ModuleChange[]>();
+  modules.forEach(module => {
+    const directory = dirname(module.path);
+    byDirectory.set(directory, [...(byDirectory.get(directory) ?? []), module]);
+  });
+
+  const lines = ['flowchart LR'];
+  [...byDirectory.entries()].forEach(([directory, members], index) => {
+    const nodes = members.map(module => `${nodeIds.get(module.path)}["${escapeMermaidLabel(basename(module.path))}"]`);
+    if (directory) {
+      lines.push(`  subgraph d${index}["${escapeMermaidLabel(directory)}/"]`);
+      nodes.forEach(node => lines.push(`    ${node}`));
+      lines.push('  end');
+    } else {
+      nodes.forEach(node => lines.push(`  ${node}`));
+    }
+  });
+
+  const edgeIndices: Record<'added' | 'removed', number[]> = { added: [], removed: [] };
+  edges.forEach((edge, index) => {
+    lines.push(`  ${nodeIds.get(edge.from)} ${edge.status === 'removed' ? '-.->' : '-->'} ${nodeIds.get(edge.to)}`);
+    if (edge.status !== 'unchanged') edgeIndices[edge.status].push(index);
+  });
+
+  (Object.keys(STATUS_STYLES) as (keyof typeof STATUS_STYLES)[]).forEach(status => {
+    const ids = modules.filter(module => module.status === status).map(module => nodeIds.get(module.path));
+    if (ids.length === 0) return;
+    lines.push(`  classDef ${status} ${STATUS_STYLES[status]}`);
+    lines.push(`  class ${ids.join(',')} ${status}`);
+  });
+  (Object.keys(EDGE_STYLES) as (keyof typeof EDGE_STYLES)[]).forEach(status => {
+    if (edgeIndices[status].length > 0) lines.push(`  linkStyle ${edgeIndices[status].join(',')} ${EDGE_STYLES[status]}`);
+  });
+
+  return { code: lines.join('\n'), nodeFiles };
+}
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) =>
+  `${count} ${count === 1 ? singular : pluralForm}`;
+const codeList = (paths: string[]) => paths.map(path => `\`${path}\``).join(', ');
+
+// One line, e.g. for a toast
+export function summarizeGraphDiff(diff: GraphDiff): string {
+  const count = (status: ChangeStatus) => diff.modules.filter(module => module.status === status).length;
+  const edgeCount = (status: EdgeChange['status']) => diff.edges.filter(edge => edge.status === status).length;
+  return `${plural(count('added'), 'module')} added, ${count('removed')} removed, ${count('changed')} changed; ` +
+    `${plural(edgeCount('added'), 'dependency', 'dependencies')} added, ${edgeCount('removed')} removed`;
+}
+
+export function graphChangelog(diff: GraphDiff): string {
+  const sections = [`**${diff.beforeLabel}** → **${diff.afterLabel}**: ${summarizeGraphDiff(diff)}`];
+  if (!hasGraphChanges(diff)) {
+    sections.push('No modules or dependencies changed.');
+    return sections.join('\n\n');
+  }
+
+  const byStatus = (status: ChangeStatus) => diff.modules.filter(module => module.status === status);
+  const section = (title: string, items: string[]) => {
+    if (items.length > 0) sections.push(`### ${title}\n\n${items.map(item => `- ${item}`).join('\n')}`);
+  };
+
+  section('Added modules', byStatus('added').map(module =>
+    `\`${module.path}\`${module.importsAdded.length > 0 ? ` imports ${codeList(module.importsAdded)}` : ''}`
+  ));
+  section('Removed modules', byStatus('removed').map(module => `\`${module.path}\``));
+  section('Changed modules', byStatus('changed').map(module => {
+    const details = [
+      module.importsAdded.length > 0 && `now imports ${codeList(module.importsAdded)}`,
+      module.importsRemoved.length > 0 && `no longer imports ${codeList(module.importsRemoved)}`,
+      module.contentChanged && module.importsAdded.length === 0 && module.importsRemoved.length === 0 && 'contents changed, same imports',
+    ].filter(Boolean);
+    return `\`${module.path}\`: ${details.join('; ')}`;
+  }));
+  section('New import cycles', diff.cyclesAdded.map(cycle => codeList(cycle)));
+  section('Resolved import cycles', diff.cyclesResolved.map(cycle => codeList(cycle)));
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,356 @@
+// Static module dependency graph built from import statements, with no LLM involved.
+// Supports JavaScript/TypeScript, Python and Java; other files are ignored.
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+export interface ImportEdge {
+  from: string;
+  to: string;
+}
+
+export interface ImportGraph {
+  modules: string[];
+  edges: ImportEdge[];
+}
+
+export interface ImportGraphDiagram {
+  code: string;
+  // Mermaid node id -> file path, so the UI can map clicks back to files
+  nodeFiles: Record<string, string>;
+  moduleCount: number;
+  edgeCount: number;
+  cycles: string[][];
+}
+
+type GraphLanguage = 'js' | 'python' | 'java';
+
+const LANGUAGE_BY_EXTENSION: Record<string, GraphLanguage> = {
+  js: 'js',
+  jsx: 'js',
+  mjs: 'js',
+  cjs: 'js',
+  ts: 'js',
+  tsx: 'js',
+  py: 'python',
+  java: 'java',
+};
+
+const JS_RESOLVE_SUFFIXES = [
+  '', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs',
+  '/index.ts', '/index.tsx', '/index.js', '/index.jsx',
+];
+
+export const getGraphLanguage = (path: string): GraphLanguage | null =>
+  LANGUAGE_BY_EXTENSION[path.split('.').pop()?.toLowerCase() ?? ''] ?? null;
+
+export const dirname = (path: string): string => {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+};
+
+export const basename = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+// Join and normalize `.` / `..` segments
+const joinPath = (base: string, relative: string): string => {
+  const segments: string[] = [];
+  for (const segment of `${base}/${relative}`.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+interface ImportSpec {
+  module: string;
+  names?: string[];
+}
+
+const collect = (content: string, pattern: RegExp, pick: (match: RegExpExecArray) => ImportSpec | ImportSpec[]) => {
+  const specs: ImportSpec[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    specs.push(...([] as ImportSpec[]).concat(pick(match)));
+  }
+  return specs;
+};
+
+export function parseImports(path: string, content: string): ImportSpec[] {
+  switch (getGraphLanguage(path)) {
+    case 'js':
+      return [
+        ...collect(content, /^\s*(?:import|export)\s[^'"]*?from\s+['"]([^'"]+)['"]/gm, m => ({ module: m[1] })),
+        ...collect(content, /^\s*import\s+['"]([^'"]+)['"]/gm, m => ({ module: m[1] })),
+        ...collect(content, /\b(?:require|import)\(\s*['"]([^'"]+)['"]\s*\)/g, m => ({ module: m[1] })),
+      ];
+    case 'python':
+      return [
+        ...collect(content, /^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm, m =>
+          m[1].split(',').map(part => ({ module: part.trim().split(/\s+/)[0] }))
+        ),
+        ...collect(content, /^\s*from\s+([\w.]+)\s+import\s+(?:\(([^)]*)\)|([\w \t,*]+))/gm, m => ({
+          module: m[1],
+          names: (m[2] ?? m[3]).split(',').map(name => name.trim().split(/\s+/)[0]).filter(name => name && name !== '*'),
+        })),
+      ];
+    case 'java':
+      return collect(content, /^\s*import\s+(?:static\s+)?([\w.]+(?:\.\*)?)\s*;/gm, m => ({ module: m[1] }));
+    default:
+      return [];
+  }
+}
+
+// Index every path by each of its trailing segment suffixes so imports can be
+// matched even when the upload has an extra root folder in front of the package
+function buildSuffixIndex(paths: string[]): Map<string, string[]> {
+  const index = new Map<string, string[]>();
+  for (const path of paths) {
+    const segments = path.split('/');
+    for (let start = 0; start < segments.length; start++) {
+      const suffix = segments.slice(start).join('/');
+      const existing = index.get(suffix);
+      if (existing) existing.push(path);
+      else index.set(suffix, [path]);
+    }
+  }
+  return index;
+}
+
+function createResolver(paths: string[]) {
+  const pathSet = new Set(paths);
+  const suffixIndex = buildSuffixIndex(paths);
+
+  const bySuffix = (candidate: string): string | null => {
+    if (pathSet.has(candidate)) return candidate;
+    const matches = suffixIndex.get(candidate);
+    return matches && matches.length === 1 ? matches[0] : null;
+  };
+
+  const firstOf = (candidates: string[], lookup: (candidate: string) => string | null) => {
+    for (const candidate of candidates) {
+      const resolved = lookup(candidate);
+      if (resolved) return resolved;
+    }
+    return null;
+  };
+
+  const resolveJs = (from: string, spec: string): string[] => {
+    let base: string;
+    let lookup: (candidate: string) => string | null;
+    if (spec.startsWith('.')) {
+      base = joinPath(dirname(from), spec);
+      lookup = candidate => (pathSet.has(candidate) ? candidate : null);
+    } else if (spec.startsWith('@/') || spec.startsWith('~/')) {
+      // The common `@/` alias points at src/
+      base = `src/${spec.slice(2)}`;
+      lookup = bySuffix;
+    } else {
+      return [];
+    }
+
+    const bases = /\.js$/.test(base) ? [base, base.replace(/\.js$/, '')] : [base];
+    const resolved = firstOf(bases.flatMap(b => JS_RESOLVE_SUFFIXES.map(suffix => b + suffix)), lookup);
+    return resolved ? [resolved] : [];
+  };
+
+  const resolvePython = (from: string, { module, names = [] }: ImportSpec): string[] => {
+    let moduleDir: string;
+    let lookup: (candidate: string) => string | null;
+    if (module.startsWith('.')) {
+      const level = module.match(/^\.+/)![0].length;
+      let packageDir = dirname(from);
+      for (let i = 1; i < level; i++) packageDir = dirname(packageDir);
+      moduleDir = joinPath(packageDir, module.slice(level).replace(/\./g, '/'));
+      lookup = candidate => (pathSet.has(candidate) ? candidate : null);
+    } else {
+      moduleDir = module.replace(/\./g, '/');
+      lookup = bySuffix;
+    }
+
+    const moduleCandidates = (dir: string) => [`${dir}.py`, `${dir}/__init__.py`];
+    // `from pkg import sub` may name a submodule rather than a symbol
+    const submodules = names
+      .map(name => firstOf(moduleCandidates(joinPath(moduleDir, name)), lookup))
+      .filter((resolved): resolved is string => resolved !== null);
+    if (submodules.length > 0) return submodules;
+
+    const resolved = moduleDir ? firstOf(moduleCandidates(moduleDir), lookup) : null;
+    return resolved ? [resolved] : [];
+  };
+
+  const resolveJava = (spec: string): string[] => {
+    const parts = spec.split('.');
+    if (parts[parts.length - 1] === '*') {
+      const packageDir = parts.slice(0, -1).join('/');
+      return paths.filter(path =>
+        path.endsWith('.java') && (dirname(path) === packageDir || dirname(path).endsWith(`/${packageDir}`))
+      );
+    }
+    // Static imports name a member, so fall back to the enclosing class
+    const resolved = bySuffix(`${parts.join('/')}.java`) ?? bySuffix(`${parts.slice(0, -1).join('/')}.java`);
+    return resolved ? [resolved] : [];
+  };
+
+  return (from: string, spec: ImportSpec): string[] => {
+    switch (getGraphLanguage(from)) {
+      case 'js':
+        return resolveJs(from, spec.module);
+      case 'python':
+        return resolvePython(from, spec);
+      case 'java':
+        return resolveJava(spec.module);
+      default:
+        return [];
+    }
+  };
+}
+
+export function buildImportGraph(files: SourceFile[]): ImportGraph {
+  const sourceFiles = files.filter(file => getGraphLanguage(file.path) !== null);
+  const modules = sourceFiles.map(file => file.path).sort();
+  const resolve = createResolver(modules);
+
+  const edgeKeys = new Set<string>();
+  const edges: ImportEdge[] = [];
+  for (const file of sourceFiles) {
+    for (const spec of parseImports(file.path, file.content)) {
+      for (const target of resolve(file.path, spec)) {
+        const key = `${file.path}\u0000${target}`;
+        if (target === file.path || edgeKeys.has(key)) continue;
+        edgeKeys.add(key);
+        edges.push({ from: file.path, to: target });
+      }
+    }
+  }
+
+  return { modules, edges };
+}
+
+// Tarjan's strongly connected components; every component with more than one module is a cycle
+export function findCycles(graph: ImportGraph): string[][] {
+  const adjacency = new Map<string, string[]>(graph.modules.map(module => [module, []]));
+  graph.edges.forEach(edge => adjacency.get(edge.from)?.push(edge.to));
+
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let nextIndex = 0;
+
+  const open = (module: string) => {
+    indices.set(module, nextIndex);
+    lowLinks.set(module, nextIndex);
+    nextIndex++;
+    stack.push(module);
+    onStack.add(module);
+  };
+
+  // An explicit call stack, since import chains can be longer than the JS stack is deep.
+  // Each frame remembers which of its module's imports to look at next.
+  const visit = (root: string) => {
+    const frames: { module: string; next: number }[] = [{ module: root, next: 0 }];
+    open(root);
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      const { module } = frame;
+      const targets = adjacency.get(module) ?? [];
+
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (!indices.has(target)) {
+          open(target);
+          frames.push({ module: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLinks.set(module, Math.min(lowLinks.get(module)!, indices.get(target)!));
+        }
+        continue;
+      }
+
+      frames.pop();
+      const caller = frames[frames.length - 1];
+      if (caller) {
+        lowLinks.set(caller.module, Math.min(lowLinks.get(caller.module)!, lowLinks.get(module)!));
+      }
+
+      if (lowLinks.get(module) === indices.get(module)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== module);
+        if (component.length > 1) cycles.push(component.sort());
+      }
+    }
+  };
+
+  graph.modules.forEach(module => {
+    if (!indices.has(module)) visit(module);
+  });
+
+  return cycles;
+}
+
+export const escapeMermaidLabel = (label: string): string =>
+  label.replace(/"/g, '#quot;').replace(/[<>]/g, match => (match === '<' ? '#lt;' : '#gt;'));
+
+export function renderImportGraph(graph: ImportGraph): ImportGraphDiagram {
+  const cycles = findCycles(graph);
+  const cycleOf = new Map<string, number>();
+  cycles.forEach((component, index) => component.forEach(module => cycleOf.set(module, index)));
+
+  const nodeIds = new Map<string, string>();
+  const nodeFiles: Record<string, string> = {};
+  graph.modules.forEach((module, index) => {
+    nodeIds.set(module, `n${index}`);
+    nodeFiles[`n${index}`] = module;
+  });
+
+  // Cluster modules by their directory
+  const byDirectory = new Map<string, string[]>();
+  graph.modules.forEach(module => {
+    const directory = dirname(module);
+    byDirectory.set(directory, [...(byDirectory.get(directory) ?? []), module]);
+  });
+
+  const lines = ['flowchart LR'];
+  [...byDirectory.entries()].forEach(([directory, modules], index) => {
+    const nodes = modules.map(module => `${nodeIds.get(module)}["${escapeMermaidLabel(basename(module))}"]`);
+    if (directory) {
+      lines.push(`  subgraph d${index}["${escapeMermaidLabel(directory)}/"]`);
+      nodes.forEach(node => lines.push(`    ${node}`));
+      lines.push('  end');
+    } else {
+      nodes.forEach(node => lines.push(`  ${node}`));
+    }
+  });
+
+  const cycleEdgeIndices: number[] = [];
+  graph.edges.forEach((edge, index) => {
+    lines.push(`  ${nodeIds.get(edge.from)} --> ${nodeIds.get(edge.to)}`);
+    const fromCycle = cycleOf.get(edge.from);
+    if (fromCycle !== undefined && fromCycle === cycleOf.get(edge.to)) {
+      cycleEdgeIndices.push(index);
+    }
+  });
+
+  if (cycles.length > 0) {
+    lines.push('  classDef cycle fill:#fee2e2,stroke:#dc2626,color:#7f1d1d');
+    lines.push(`  class ${[...cycleOf.keys()].map(module => nodeIds.get(module)).join(',')} cycle`);
+    lines.push(`  linkStyle ${cycleEdgeIndices.join(',')} stroke:#dc2626,stroke-width:2px`);
+  }
+
+  return {
+    code: lines.join('\n'),
+    nodeFiles,
+    moduleCount: graph.modules.length,
+    edgeCount: graph.edges.length,
+    cycles,
+  };
+}
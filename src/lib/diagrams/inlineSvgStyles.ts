@@ -0,0 +1,182 @@
+// Prepares Mermaid's SVG for safeSetInnerHTML, which strips <style> elements, marker
+// attributes and the HTML inside <foreignObject>. Theme rules and markers move onto each
+// element's style attribute and HTML labels become <text>, so the sanitized diagram keeps
+// its colours, arrowheads and labels and can be serialized to a standalone file.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const LINE_HEIGHT_EM = 1.2;
+
+interface Declaration {
+  value: string;
+  important: boolean;
+  // Inline declarations rank above every selector
+  specificity: number;
+  order: number;
+}
+
+// a-b-c specificity folded into one comparable number
+function selectorSpecificity(selector: string): number {
+  const ids = selector.match(/#[\w-]+/g)?.length ?? 0;
+  const classes = selector.replace(/::[\w-]+/g, '').match(/\.[\w-]+|\[[^\]]*\]|:[\w-]+/g)?.length ?? 0;
+  const types = selector
+    .replace(/#[\w-]+|\.[\w-]+|\[[^\]]*\]|::?[\w-]+(\([^)]*\))?/g, ' ')
+    .match(/[a-zA-Z][\w-]*/g)?.length ?? 0;
+  return ids * 10000 + classes * 100 + types;
+}
+
+const outranks = (next: Declaration, current: Declaration | undefined): boolean =>
+  !current ||
+  (next.important !== current.important
+    ? next.important
+    : next.specificity !== current.specificity
+      ? next.specificity > current.specificity
+      : next.order > current.order);
+
+function collectDeclarations(style: CSSStyleDeclaration, specificity: number, order: number, into: Map<string, Declaration>) {
+  for (let i = 0; i < style.length; i++) {
+    const property = style.item(i);
+    const next: Declaration = {
+      value: style.getPropertyValue(property),
+      important: style.getPropertyPriority(property) === 'important',
+      specificity,
+      order,
+    };
+    if (outranks(next, into.get(property))) into.set(property, next);
+  }
+}
+
+function inlineStyleRules(svg: Element) {
+  const css = Array.from(svg.querySelectorAll('style'), style => style.textContent ?? '').join('\n');
+  svg.querySelectorAll('style').forEach(style => style.remove());
+  if (!css.trim()) return;
+
+  const sheet = new CSSStyleSheet();
+  sheet.replaceSync(css);
+
+  const matched = new Map<Element, Map<string, Declaration>>();
+  let order = 0;
+  for (const rule of Array.from(sheet.cssRules)) {
+    if (!(rule instanceof CSSStyleRule)) continue;
+    for (const selector of rule.selectorText.split(',')) {
+      // Hover states and pseudo-elements have no static equivalent
+      if (selector.includes('::') || /:(hover|focus|active)/.test(selector)) continue;
+      let elements: Element[];
+      try {
+        // Mermaid scopes its rules under the svg's own id, which also styles the root
+        elements = [...(svg.matches(selector) ? [svg] : []), ...Array.from(svg.querySelectorAll(selector))];
+      } catch {
+        continue;
+      }
+      const specificity = selectorSpecificity(selector);
+      order++;
+      elements.forEach(element => {
+        const declarations = matched.get(element) ?? new Map<string, Declaration>();
+        collectDeclarations(rule.style, specificity, order, declarations);
+        matched.set(element, declarations);
+      });
+    }
+  }
+
+  matched.forEach((declarations, element) => {
+    const inline = (element as SVGElement | HTMLElement).style;
+    collectDeclarations(inline, Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, declarations);
+    element.setAttribute(
+      'style',
+      Array.from(declarations, ([property, { value, important }]) =>
+        `${property}: ${value}${important ? ' !important' : ''}`
+      ).join('; ')
+    );
+  });
+}
+
+// Label lines as rendered: <br> and block elements start a new line
+function labelLines(root: Element): string[] {
+  const lines: string[] = [''];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      lines[lines.length - 1] += node.textContent?.replace(/\s+/g, ' ') ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const tag = (node as Element).localName;
+    if (tag === 'br') {
+      lines.push('');
+      return;
+    }
+    const block = tag === 'p' || tag === 'div';
+    if (block && lines[lines.length - 1].trim()) lines.push('');
+    node.childNodes.forEach(walk);
+    if (block) lines.push('');
+  };
+  walk(root);
+  return lines.map(line => line.trim()).filter(Boolean);
+}
+
+// The innermost label element carries the colour and font Mermaid's CSS assigned
+function labelStyle(foreignObject: Element): string {
+  const styled = Array.from(foreignObject.querySelectorAll('[style]')).pop() as HTMLElement | undefined;
+  const parts: string[] = [];
+  const color = styled?.style.color;
+  if (color) parts.push(`fill: ${color}`);
+  for (const property of ['font-family', 'font-size', 'font-weight', 'font-style']) {
+    const value = styled?.style.getPropertyValue(property);
+    if (value) parts.push(`${property}: ${value}`);
+  }
+  return parts.join('; ');
+}
+
+// marker-end="url(#id)" is dropped by the sanitizer, the same reference in style is not
+function inlineMarkers(svg: Element) {
+  for (const attribute of ['marker-start', 'marker-mid', 'marker-end']) {
+    svg.querySelectorAll(`[${attribute}]`).forEach(element => {
+      const value = element.getAttribute(attribute) ?? '';
+      element.removeAttribute(attribute);
+      if (/^url\(#[\w-]+\)$/.test(value)) {
+        (element as SVGElement).style.setProperty(attribute, value);
+      }
+    });
+  }
+}
+
+function replaceHtmlLabels(doc: Document, svg: Element) {
+  svg.querySelectorAll('foreignObject').forEach(foreignObject => {
+    const lines = labelLines(foreignObject);
+    if (lines.length === 0) {
+      foreignObject.remove();
+      return;
+    }
+
+    const x = Number(foreignObject.getAttribute('x') ?? 0) + Number(foreignObject.getAttribute('width') ?? 0) / 2;
+    const y = Number(foreignObject.getAttribute('y') ?? 0) + Number(foreignObject.getAttribute('height') ?? 0) / 2;
+    const text = doc.createElementNS(SVG_NS, 'text');
+    text.setAttribute('x', String(x));
+    text.setAttribute('y', String(y));
+    text.setAttribute('text-anchor', 'middle');
+    text.setAttribute('dominant-baseline', 'central');
+    const style = labelStyle(foreignObject);
+    if (style) text.setAttribute('style', style);
+
+    lines.forEach((line, index) => {
+      const tspan = doc.createElementNS(SVG_NS, 'tspan');
+      tspan.setAttribute('x', String(x));
+      // Centre the block of lines on the label's midpoint
+      tspan.setAttribute('dy', `${index === 0 ? -((lines.length - 1) * LINE_HEIGHT_EM) / 2 : LINE_HEIGHT_EM}em`);
+      tspan.textContent = line;
+      text.appendChild(tspan);
+    });
+    foreignObject.replaceWith(text);
+  });
+}
+
+// Mermaid serializes its output as HTML (unclosed <br> in labels), so it is parsed the
+// same way; the parsed document is inert and never runs scripts or loads resources
+export function inlineSvgStyles(markup: string): string {
+  const doc = new DOMParser().parseFromString(markup, 'text/html');
+  const svg = doc.body.querySelector('svg');
+  if (!svg) return markup;
+
+  inlineStyleRules(svg);
+  inlineMarkers(svg);
+  replaceHtmlLabels(doc, svg);
+  return svg.outerHTML;
+}
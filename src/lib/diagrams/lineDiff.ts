@@ -0,0 +1,78 @@
+// Line-level diff of two Mermaid sources (longest common subsequence), used to compare versions
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+  // 1-based line numbers in the old and new text
+  oldLine?: number;
+  newLine?: number;
+}
+
+// Past this many LCS cells the middle section is shown as a block replacement instead
+const MAX_LCS_CELLS = 4_000_000;
+
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Common prefix and suffix are cheap and usually cover most of a diagram
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const result: DiffLine[] = oldLines.slice(0, prefix).map((text, index) => ({
+    type: 'same',
+    text,
+    oldLine: index + 1,
+    newLine: index + 1,
+  }));
+
+  let oldLine = prefix + 1;
+  let newLine = prefix + 1;
+  const pushRemoved = (text: string) => result.push({ type: 'removed', text, oldLine: oldLine++ });
+  const pushAdded = (text: string) => result.push({ type: 'added', text, newLine: newLine++ });
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    oldMiddle.forEach(pushRemoved);
+    newMiddle.forEach(pushAdded);
+  } else {
+    // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const columns = newMiddle.length + 1;
+    const lengths = new Uint32Array((oldMiddle.length + 1) * columns);
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i * columns + j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'same', text: oldMiddle[i], oldLine: oldLine++, newLine: newLine++ });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1]) {
+        pushRemoved(oldMiddle[i++]);
+      } else {
+        pushAdded(newMiddle[j++]);
+      }
+    }
+    oldMiddle.slice(i).forEach(pushRemoved);
+    newMiddle.slice(j).forEach(pushAdded);
+  }
+
+  oldLines.slice(oldLines.length - suffix).forEach(text => {
+    result.push({ type: 'same', text, oldLine: oldLine++, newLine: newLine++ });
+  });
+  return result;
+};
@@ -0,0 +1,47 @@
+import mermaid from 'mermaid';
+
+export interface MermaidSyntaxError {
+  message: string;
+  // 1-based, when the parser reported a location
+  line?: number;
+  column?: number;
+}
+
+interface JisonErrorHash {
+  line?: number;
+  loc?: { first_line?: number; first_column?: number };
+}
+
+// Mermaid has two kinds of parsers: the older jison ones attach a `hash` with the location,
+// the langium-based ones only mention "line X, column Y" in the message
+export const describeMermaidError = (error: unknown): MermaidSyntaxError => {
+  const message = error instanceof Error ? error.message : String(error);
+  const hash = (error as { hash?: JisonErrorHash } | null)?.hash;
+
+  if (hash?.loc?.first_line !== undefined) {
+    return { message, line: hash.loc.first_line, column: (hash.loc.first_column ?? 0) + 1 };
+  }
+  if (hash?.line !== undefined) {
+    return { message, line: hash.line + 1 };
+  }
+
+  const located = message.match(/line (\d+)(?:, column (\d+))?/i);
+  if (located) {
+    return { message, line: Number(located[1]), column: located[2] ? Number(located[2]) : undefined };
+  }
+  // An unrecognised first line means no diagram type could be detected
+  if (/no diagram type detected/i.test(message)) {
+    return { message: 'Unknown diagram type. Start with e.g. "flowchart TD" or "sequenceDiagram".', line: 1 };
+  }
+  return { message };
+};
+
+// Parse without rendering; null when the code is valid
+export const validateMermaid = async (code: string): Promise<MermaidSyntaxError | null> => {
+  try {
+    await mermaid.parse(code);
+    return null;
+  } catch (error) {
+    return describeMermaidError(error);
+  }
+};
@@ -0,0 +1,54 @@
+// Runs the local generator behind each static diagram kind
+import { SourceFile, buildImportGraph, renderImportGraph } from './importGraph';
+import { parseClasses, renderClassDiagram } from './classDiagram';
+import { parseEntities, renderErDiagram } from './erDiagram';
+
+export type StaticDiagramKind = 'dependencies' | 'class' | 'er';
+
+export interface StaticDiagram {
+  code: string;
+  // Mermaid node id -> file path
+  nodeFiles: Record<string, string>;
+  // Zero when the sources contain nothing this kind can draw
+  nodeCount: number;
+  // One line for the toast, e.g. "12 modules, 30 dependencies, 0 cycle(s)"
+  summary: string;
+}
+
+export const EMPTY_STATIC_DIAGRAM_MESSAGES: Record<StaticDiagramKind, string> = {
+  dependencies: 'Import graphs support JavaScript, TypeScript, Python and Java files',
+  class: 'No classes, interfaces or enums were found in the JavaScript, TypeScript, Python or Java files',
+  er: 'No tables were found in .sql migrations, Prisma schemas or Django/SQLAlchemy models',
+};
+
+export function buildStaticDiagram(kind: StaticDiagramKind, files: SourceFile[]): StaticDiagram {
+  switch (kind) {
+    case 'dependencies': {
+      const diagram = renderImportGraph(buildImportGraph(files));
+      return {
+        code: diagram.code,
+        nodeFiles: diagram.nodeFiles,
+        nodeCount: diagram.moduleCount,
+        summary: `${diagram.moduleCount} modules, ${diagram.edgeCount} dependencies, ${diagram.cycles.length} cycle(s)`,
+      };
+    }
+    case 'class': {
+      const diagram = renderClassDiagram(parseClasses(files));
+      return {
+        code: diagram.code,
+        nodeFiles: diagram.nodeFiles,
+        nodeCount: diagram.classCount,
+        summary: `${diagram.classCount} classes and interfaces, ${diagram.relationCount} relationships`,
+      };
+    }
+    case 'er': {
+      const diagram = renderErDiagram(parseEntities(files));
+      return {
+        code: diagram.code,
+        nodeFiles: diagram.nodeFiles,
+        nodeCount: diagram.entityCount,
+        summary: `${diagram.entityCount} tables, ${diagram.relationCount} relationships`,
+      };
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Edge functions answer errors with `{ error: string }`; surface that message when present
+export const getFunctionErrorMessage = async (error: unknown, fallback: string): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return body.error;
+    } catch {
+      // Body was not JSON, use the fallback
+    }
+  }
+  return fallback;
+};
@@ -0,0 +1,70 @@
+import { supabase } from '@/integrations/supabase/client';
+import { STORAGE_BUCKET, mapWithConcurrency } from '@/lib/uploads';
+import { sessionSourceFilter } from '@/lib/sessionSources';
+
+export interface SessionFileContent {
+  id: string;
+  path: string;
+  content: string;
+}
+
+const BINARY_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'ico', 'svg', 'pdf', 'zip', 'gz', 'tgz', 'jar'];
+const DOWNLOAD_CONCURRENCY = 4;
+
+export const isBinaryPath = (path: string): boolean =>
+  BINARY_EXTENSIONS.includes(path.split('.').pop()?.toLowerCase() ?? '');
+
+// Download the text of every successfully uploaded file in a session, attached codebases included
+export const loadSessionFileContents = async (sessionId: string): Promise<SessionFileContent[]> => {
+  const { data: files, error } = await supabase
+    .from('uploaded_files')
+    .select('id, file_path, storage_path')
+    .or(await sessionSourceFilter(sessionId))
+    .eq('status', 'success')
+    .order('uploaded_at', { ascending: false });
+
+  if (error) throw error;
+
+  // Re-uploading a path keeps the older row around; only the newest copy counts
+  const seenPaths = new Set<string>();
+  const textFiles = (files ?? []).filter(file => {
+    if (isBinaryPath(file.file_path) || seenPaths.has(file.file_path)) return false;
+    seenPaths.add(file.file_path);
+    return true;
+  });
+  const contents = await mapWithConcurrency(textFiles, DOWNLOAD_CONCURRENCY, async (file) => {
+    const { data, error: downloadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(file.storage_path);
+
+    if (downloadError || !data) {
+      console.error(`Failed to download ${file.file_path}:`, downloadError);
+      return null;
+    }
+
+    return { id: file.id, path: file.file_path, content: await data.text() };
+  });
+
+  return contents.filter((file): file is SessionFileContent => file !== null);
+};
+
+// Download a single uploaded file, e.g. to show it in the file viewer
+export const loadFileContent = async (fileId: string): Promise<SessionFileContent> => {
+  const { data: file, error } = await supabase
+    .from('uploaded_files')
+    .select('id, file_path, storage_path')
+    .eq('id', fileId)
+    .single();
+
+  if (error) throw error;
+
+  const { data, error: downloadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .download(file.storage_path);
+
+  if (downloadError || !data) {
+    throw downloadError ?? new Error(`Failed to download ${file.file_path}`);
+  }
+
+  return { id: file.id, path: file.file_path, content: await data.text() };
+};
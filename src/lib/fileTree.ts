@@ -0,0 +1,52 @@
+export interface FileTreeFile {
+  id: string;
+  path: string;
+}
+
+export interface FileTreeNode {
+  name: string;
+  // Folder path, or the file's full relative path
+  path: string;
+  file?: FileTreeFile;
+  children: FileTreeNode[];
+}
+
+// Build a folder tree from relative paths; folders sort before files, both alphabetically
+export const buildFileTree = (files: FileTreeFile[]): FileTreeNode[] => {
+  const root: FileTreeNode = { name: '', path: '', children: [] };
+
+  for (const file of files) {
+    const segments = file.path.split('/').filter(Boolean);
+    let parent = root;
+    segments.forEach((segment, index) => {
+      const isFile = index === segments.length - 1;
+      const path = segments.slice(0, index + 1).join('/');
+      let node = parent.children.find(child => child.name === segment && !!child.file === isFile);
+      if (!node) {
+        node = { name: segment, path, children: [], ...(isFile ? { file } : {}) };
+        parent.children.push(node);
+      }
+      parent = node;
+    });
+  }
+
+  const sortNodes = (nodes: FileTreeNode[]) => {
+    nodes.sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name));
+    nodes.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(root.children);
+
+  return root.children;
+};
+
+// Keep only files whose path contains the query, plus the folders leading to them
+export const filterFileTree = (nodes: FileTreeNode[], query: string): FileTreeNode[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return nodes;
+
+  return nodes.flatMap(node => {
+    if (node.file) return node.path.toLowerCase().includes(needle) ? [node] : [];
+    const children = filterFileTree(node.children, query);
+    return children.length > 0 ? [{ ...node, children }] : [];
+  });
+};
@@ -0,0 +1,134 @@
+// Minimal .gitignore support for filtering unpacked archives and dropped folders.
+// Handles comments, negation, anchoring, directory-only rules, `*`, `?` and `**`.
+
+export const VENDOR_DIRECTORIES = [
+  'node_modules',
+  'dist',
+  '.git',
+  'build',
+  'coverage',
+  '.next',
+  '__pycache__',
+  '.venv',
+  'venv',
+  'target',
+  'vendor',
+];
+
+interface IgnoreRule {
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+const escapeRegex = (text: string) => text.replace(/[.+^${}()|\\]/g, '\\$&');
+
+const globToRegex = (glob: string): string => {
+  let result = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything below
+        if (glob[i + 2] === '/') {
+          result += '(?:.*/)?';
+          i += 2;
+        } else {
+          result += '.*';
+          i += 1;
+        }
+      } else {
+        result += '[^/]*';
+      }
+    } else if (char === '?') {
+      result += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i);
+      if (close === -1) {
+        result += '\\[';
+      } else {
+        result += glob.slice(i, close + 1).replace('[!', '[^');
+        i = close;
+      }
+    } else {
+      result += escapeRegex(char);
+    }
+  }
+  return result;
+};
+
+// Parse one .gitignore file; `base` is the directory it lives in ('' for the root)
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+    if (!line) continue;
+
+    const body = globToRegex(line);
+    rules.push({
+      base: base ? `${base}/` : '',
+      regex: new RegExp(anchored ? `^${body}$` : `(?:^|/)${body}$`),
+      negate,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+export function createIgnoreMatcher(rules: IgnoreRule[]) {
+  const matches = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (!path.startsWith(rule.base)) continue;
+      if (rule.regex.test(path.slice(rule.base.length))) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  };
+
+  // A file is ignored if it, or any directory above it, is ignored or a vendor folder
+  return (path: string): boolean => {
+    const segments = path.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const isDirectory = i < segments.length;
+      if (isDirectory && VENDOR_DIRECTORIES.includes(segments[i - 1])) return true;
+      if (matches(segments.slice(0, i).join('/'), isDirectory)) return true;
+    }
+    return false;
+  };
+}
+
+// Drop files excluded by any .gitignore in the tree or living under a vendor folder
+export async function filterIgnoredFiles<T extends { path: string; file: File }>(
+  files: T[]
+): Promise<{ kept: T[]; ignoredCount: number }> {
+  const gitignores = files.filter(entry => entry.path === '.gitignore' || entry.path.endsWith('/.gitignore'));
+
+  const rules: IgnoreRule[] = [];
+  // Shallower .gitignore files first so deeper ones can override them
+  const ordered = [...gitignores].sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+  for (const entry of ordered) {
+    const base = entry.path.includes('/') ? entry.path.slice(0, entry.path.lastIndexOf('/')) : '';
+    rules.push(...parseGitignore(await entry.file.text(), base));
+  }
+
+  const isIgnored = createIgnoreMatcher(rules);
+  const kept = files.filter(entry => !isIgnored(entry.path));
+  return { kept, ignoredCount: files.length - kept.length };
+}
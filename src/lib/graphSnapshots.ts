@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+import { loadSessionFileContents } from '@/lib/fileContents';
+import { buildImportGraph } from '@/lib/diagrams/importGraph';
+import { GraphSnapshot, graphFromDependencyDiagram } from '@/lib/diagrams/graphDiff';
+import { SessionDiagram } from '@/lib/sessionDiagrams';
+
+export interface ComparableSession {
+  id: string;
+  title: string;
+  updatedAt: Date;
+}
+
+// Sessions whose files or saved dependency graphs can be compared, most recent first
+export const listComparableSessions = async (userId: string): Promise<ComparableSession[]> => {
+  const { data, error } = await supabase
+    .from('chat_sessions')
+    .select('id, title, updated_at')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(session => ({
+    id: session.id,
+    title: session.title,
+    updatedAt: new Date(session.updated_at),
+  }));
+};
+
+// The dependency graph of the files currently uploaded to a session
+export const loadSessionSnapshot = async (sessionId: string, label: string): Promise<GraphSnapshot> => {
+  const sources = await loadSessionFileContents(sessionId);
+  return {
+    label,
+    graph: buildImportGraph(sources),
+    contents: Object.fromEntries(sources.map(source => [source.path, source.content])),
+  };
+};
+
+// A saved "Module dependencies" version; file contents were not kept, so only imports are compared
+export const versionSnapshot = (version: SessionDiagram, label: string): GraphSnapshot => ({
+  label,
+  graph: graphFromDependencyDiagram(version.code, version.nodeFiles),
+});
@@ -0,0 +1,98 @@
+import hljs from 'highlight.js/lib/common';
+import { sanitizeMarkdownHTML } from '@/lib/security';
+
+// Above this size highlighting gets sluggish; such files are shown as plain text
+const MAX_HIGHLIGHT_CHARS = 300_000;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  rb: 'ruby',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  kt: 'kotlin',
+  cs: 'csharp',
+  c: 'c',
+  h: 'c',
+  cpp: 'cpp',
+  cc: 'cpp',
+  hpp: 'cpp',
+  php: 'php',
+  swift: 'swift',
+  sql: 'sql',
+  sh: 'bash',
+  bash: 'bash',
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  toml: 'ini',
+  ini: 'ini',
+  md: 'markdown',
+  html: 'xml',
+  xml: 'xml',
+  vue: 'xml',
+  css: 'css',
+  scss: 'scss',
+  less: 'less',
+};
+
+const LANGUAGE_BY_NAME: Record<string, string> = {
+  Dockerfile: 'dockerfile',
+  Makefile: 'makefile',
+};
+
+export const languageForPath = (path: string): string | undefined => {
+  const name = path.split('/').pop() ?? path;
+  if (LANGUAGE_BY_NAME[name]) return LANGUAGE_BY_NAME[name];
+  const language = LANGUAGE_BY_EXTENSION[name.split('.').pop()?.toLowerCase() ?? ''];
+  return language && hljs.getLanguage(language) ? language : undefined;
+};
+
+// Highlight a whole file and split the HTML into one string per line. Spans that
+// cross a line break are closed at the end of the line and reopened on the next,
+// so every line stays well-formed on its own. Returns null when not highlighted.
+export const highlightLines = (content: string, language: string | undefined): string[] | null => {
+  if (!language || content.length > MAX_HIGHLIGHT_CHARS) return null;
+
+  let html: string;
+  try {
+    html = sanitizeMarkdownHTML(hljs.highlight(content, { language, ignoreIllegals: true }).value);
+  } catch (error) {
+    console.error(`Failed to highlight ${language}:`, error);
+    return null;
+  }
+
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = '';
+  const tagPattern = /<span[^>]*>|<\/span>|\n/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(html)) !== null) {
+    current += html.slice(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+
+    if (match[0] === '\n') {
+      lines.push(current + '</span>'.repeat(openTags.length));
+      current = openTags.join('');
+    } else if (match[0] === '</span>') {
+      openTags.pop();
+      current += match[0];
+    } else {
+      openTags.push(match[0]);
+      current += match[0];
+    }
+  }
+  lines.push(current + html.slice(lastIndex));
+
+  return lines;
+};
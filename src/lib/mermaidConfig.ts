@@ -0,0 +1,63 @@
+import mermaid, { MermaidConfig } from 'mermaid';
+import { inlineSvgStyles } from '@/lib/diagrams/inlineSvgStyles';
+
+// One strict configuration for every Mermaid render in the app (playground and chat)
+export const MERMAID_CONFIG: MermaidConfig = {
+  startOnLoad: true,
+  theme: 'default',
+  securityLevel: 'strict', // Changed to strict for security
+  fontFamily: 'inherit',
+  fontSize: 14,
+  flowchart: {
+    useMaxWidth: true,
+    htmlLabels: true,
+    curve: 'basis'
+  },
+  sequence: {
+    diagramMarginX: 50,
+    diagramMarginY: 10,
+    actorMargin: 50,
+    width: 150,
+    height: 65,
+    boxMargin: 10,
+    boxTextMargin: 5,
+    noteMargin: 10,
+    messageMargin: 35,
+    mirrorActors: false, // Long traces are easier to read without the actor row repeated at the bottom
+    useMaxWidth: true
+  },
+  class: {
+    useMaxWidth: true
+  },
+  er: {
+    useMaxWidth: true,
+    layoutDirection: 'LR', // Foreign keys read left to right, from parent to child tables
+    minEntityWidth: 120
+  },
+  c4: {
+    useMaxWidth: true,
+    diagramMarginX: 50,
+    diagramMarginY: 10,
+    c4ShapeInRow: 3,
+    c4BoundaryInRow: 1
+  }
+};
+
+let initialized = false;
+
+export const initializeMermaid = () => {
+  if (initialized) return;
+  mermaid.initialize(MERMAID_CONFIG);
+  initialized = true;
+};
+
+export type MermaidTheme = 'default' | 'dark';
+
+// Renders a diagram ready for safeSetInnerHTML; other themes are applied through an
+// init directive so concurrent renders never see a changed global configuration
+export const renderMermaid = async (id: string, code: string, theme: MermaidTheme = 'default'): Promise<string> => {
+  initializeMermaid();
+  const source = theme === MERMAID_CONFIG.theme ? code : `%%{init: {"theme": "${theme}"}}%%\n${code}`;
+  const { svg } = await mermaid.render(id, source);
+  return inlineSvgStyles(svg);
+};
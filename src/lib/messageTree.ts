@@ -0,0 +1,75 @@
+// Conversations are stored as a tree: every message points at the one it follows, and
+// editing a question or regenerating an answer adds a sibling. The chat shows one branch,
+// the path from the root to the active message.
+
+export interface TreeNode {
+  id: string;
+  parentId: string | null;
+  timestamp: Date;
+}
+
+export interface BranchPosition {
+  // 0-based among the message's siblings, oldest first
+  index: number;
+  count: number;
+}
+
+const ROOT = '';
+
+// Children of every message (and of the root, under ''), oldest first
+export const groupChildren = <T extends TreeNode>(messages: T[]): Map<string, T[]> => {
+  const children = new Map<string, T[]>();
+  for (const message of messages) {
+    const key = message.parentId ?? ROOT;
+    const siblings = children.get(key);
+    if (siblings) siblings.push(message);
+    else children.set(key, [message]);
+  }
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+  return children;
+};
+
+// Follow the newest child down to a leaf
+export const latestDescendant = <T extends TreeNode>(message: T, children: Map<string, T[]>): T => {
+  let current = message;
+  let next = children.get(current.id);
+  while (next && next.length > 0) {
+    current = next[next.length - 1];
+    next = children.get(current.id);
+  }
+  return current;
+};
+
+// The branch ending at (or running through) `activeId`, root first. Without a known active
+// message, the branch of the most recent message is shown.
+export const activeBranch = <T extends TreeNode>(messages: T[], activeId: string | null): T[] => {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const children = groupChildren(messages);
+
+  const start = (activeId && byId.get(activeId))
+    ?? messages.reduce((latest, message) => (message.timestamp > latest.timestamp ? message : latest));
+  const leaf = latestDescendant(start, children);
+
+  const branch: T[] = [];
+  const seen = new Set<string>();
+  for (let current: T | undefined = leaf; current && !seen.has(current.id); current = byId.get(current.parentId ?? ROOT)) {
+    seen.add(current.id);
+    branch.unshift(current);
+  }
+  return branch;
+};
+
+export const branchPosition = <T extends TreeNode>(message: T, children: Map<string, T[]>): BranchPosition => {
+  const siblings = children.get(message.parentId ?? ROOT) ?? [message];
+  return { index: siblings.findIndex(sibling => sibling.id === message.id), count: siblings.length };
+};
+
+// The leaf to show after moving from `message` to its previous (-1) or next (1) sibling
+export const switchBranch = <T extends TreeNode>(message: T, direction: -1 | 1, children: Map<string, T[]>): T | null => {
+  const siblings = children.get(message.parentId ?? ROOT) ?? [];
+  const target = siblings[siblings.findIndex(sibling => sibling.id === message.id) + direction];
+  return target ? latestDescendant(target, children) : null;
+};
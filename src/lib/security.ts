@@ -133,6 +133,20 @@ export const sanitizeHTML = (html: string): string => {
   });
 };
 
+// Sanitization for Markdown rendered in chat messages; links may only use safe protocols
+export const sanitizeMarkdownHTML = (html: string): string => {
+  return DOMPurify.sanitize(html, {
+    ALLOWED_TAGS: [
+      'p', 'br', 'hr', 'strong', 'em', 'del', 'code', 'pre', 'span', 'a', 'blockquote',
+      'ul', 'ol', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+      'table', 'thead', 'tbody', 'tr', 'th', 'td', 'input'
+    ],
+    ALLOWED_ATTR: ['href', 'title', 'class', 'type', 'checked', 'disabled', 'start', 'align'],
+    ALLOWED_URI_REGEXP: /^(?:https?:|mailto:|#)/i,
+    KEEP_CONTENT: true
+  });
+};
+
 // Safe DOM manipulation for Mermaid
 export const safeSetInnerHTML = (element: HTMLElement, content: string): void => {
   // Clear existing content
@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { DiagramKind, getDiagramKind } from '@/lib/diagrams/diagramKinds';
+
+// 'static' covers every diagram generated locally from the sources, without an AI provider
+export type DiagramSource = 'ai' | 'static' | 'edit' | 'import' | 'restore';
+
+export interface SessionDiagram {
+  id: string;
+  version: number;
+  code: string;
+  source: DiagramSource;
+  // Null for imported files, whose kind is unknown
+  kind: DiagramKind | null;
+  provider: string | null;
+  model: string | null;
+  promptHash: string | null;
+  fileSet: string[];
+  // Mermaid node id -> file path, for click-through from the rendered diagram
+  nodeFiles: Record<string, string>;
+  createdAt: Date;
+}
+
+export interface NewDiagramVersion {
+  code: string;
+  source: DiagramSource;
+  kind?: DiagramKind | null;
+  provider?: string | null;
+  model?: string | null;
+  promptHash?: string | null;
+  fileSet?: string[];
+  nodeFiles?: Record<string, string>;
+}
+
+export const DIAGRAM_SOURCE_LABELS: Record<DiagramSource, string> = {
+  ai: 'Generated',
+  static: 'Generated locally',
+  edit: 'Edited',
+  import: 'Imported',
+  restore: 'Restored',
+};
+
+const DIAGRAM_COLUMNS = 'id, version, mermaid_code, source, kind, provider, model, prompt_hash, file_set, node_files, created_at';
+
+interface DiagramRow {
+  id: string;
+  version: number;
+  mermaid_code: string;
+  source: string;
+  kind: string | null;
+  provider: string | null;
+  model: string | null;
+  prompt_hash: string | null;
+  file_set: Json;
+  node_files: Json;
+  created_at: string;
+}
+
+export const parseNodeFiles = (value: Json): Record<string, string> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+};
+
+export const toSessionDiagram = (row: DiagramRow): SessionDiagram => ({
+  id: row.id,
+  version: row.version,
+  code: row.mermaid_code,
+  source: row.source as DiagramSource,
+  kind: getDiagramKind(row.kind)?.kind ?? null,
+  provider: row.provider,
+  model: row.model,
+  promptHash: row.prompt_hash,
+  fileSet: Array.isArray(row.file_set) ? row.file_set.filter((path): path is string => typeof path === 'string') : [],
+  nodeFiles: parseNodeFiles(row.node_files),
+  createdAt: new Date(row.created_at),
+});
+
+// Newest first
+export const listDiagramVersions = async (sessionId: string): Promise<SessionDiagram[]> => {
+  const { data, error } = await supabase
+    .from('session_diagrams')
+    .select(DIAGRAM_COLUMNS)
+    .eq('session_id', sessionId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(toSessionDiagram);
+};
+
+export const loadLatestDiagram = async (sessionId: string): Promise<SessionDiagram | null> => {
+  const { data, error } = await supabase
+    .from('session_diagrams')
+    .select(DIAGRAM_COLUMNS)
+    .eq('session_id', sessionId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toSessionDiagram(data) : null;
+};
+
+// The version number is assigned by the database
+export const saveDiagramVersion = async (
+  sessionId: string,
+  userId: string,
+  diagram: NewDiagramVersion
+): Promise<SessionDiagram> => {
+  const { data, error } = await supabase
+    .from('session_diagrams')
+    .insert([{
+      session_id: sessionId,
+      user_id: userId,
+      mermaid_code: diagram.code,
+      source: diagram.source,
+      kind: diagram.kind ?? null,
+      provider: diagram.provider ?? null,
+      model: diagram.model ?? null,
+      prompt_hash: diagram.promptHash ?? null,
+      file_set: diagram.fileSet ?? [],
+      node_files: diagram.nodeFiles ?? {},
+    }])
+    .select(DIAGRAM_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toSessionDiagram(data);
+};
@@ -0,0 +1,182 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Citation, parseCitations } from '@/lib/citations';
+import { getFunctionErrorMessage } from '@/lib/edgeFunctions';
+import { DiagramKind, getDiagramKind } from '@/lib/diagrams/diagramKinds';
+import { parseNodeFiles } from '@/lib/sessionDiagrams';
+
+export interface SessionShare {
+  id: string;
+  token: string;
+  // Null for links that never expire
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ShareExpiryOption {
+  label: string;
+  days: number | null;
+}
+
+export const SHARE_EXPIRY_OPTIONS: ShareExpiryOption[] = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null },
+];
+
+export interface SharedMessage {
+  id: string;
+  content: string;
+  role: 'user' | 'assistant';
+  timestamp: Date;
+  citations: Citation[];
+}
+
+export interface SharedFile {
+  id: string;
+  path: string;
+  size: number;
+  type: string;
+}
+
+export interface SharedDiagram {
+  version: number;
+  code: string;
+  kind: DiagramKind | null;
+  nodeFiles: Record<string, string>;
+  createdAt: Date;
+}
+
+// A session as the holder of a share link sees it
+export interface SharedSession {
+  title: string;
+  tags: string[];
+  updatedAt: Date;
+  expiresAt: Date | null;
+  messages: SharedMessage[];
+  files: SharedFile[];
+  // The latest saved version, if any
+  diagram: SharedDiagram | null;
+}
+
+const SHARE_COLUMNS = 'id, token, expires_at, revoked_at, created_at';
+
+interface ShareRow {
+  id: string;
+  token: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+const toSessionShare = (row: ShareRow): SessionShare => ({
+  id: row.id,
+  token: row.token,
+  expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+  revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+  createdAt: new Date(row.created_at),
+});
+
+export const shareUrl = (token: string): string => `${window.location.origin}/share/${token}`;
+
+export const isShareActive = (share: SessionShare, now = new Date()): boolean =>
+  !share.revokedAt && (!share.expiresAt || share.expiresAt > now);
+
+// Newest first, including revoked and expired links
+export const listSessionShares = async (sessionId: string): Promise<SessionShare[]> => {
+  const { data, error } = await supabase
+    .from('session_shares')
+    .select(SHARE_COLUMNS)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(toSessionShare);
+};
+
+// The token is generated by the database
+export const createSessionShare = async (
+  sessionId: string,
+  userId: string,
+  expiresInDays: number | null
+): Promise<SessionShare> => {
+  const expiresAt = expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('session_shares')
+    .insert([{ session_id: sessionId, user_id: userId, expires_at: expiresAt?.toISOString() ?? null }])
+    .select(SHARE_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toSessionShare(data);
+};
+
+// Revoked links stay listed so the owner can see what was handed out
+export const revokeSessionShare = async (shareId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('session_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId);
+
+  if (error) throw error;
+};
+
+interface SharedSessionResponse {
+  session: { title: string | null; tags: string[] | null; updated_at: string };
+  expiresAt: string | null;
+  messages: { id: string; role: string; content: string; citations: Json; created_at: string }[];
+  files: { id: string; file_path: string; file_size: number; file_type: string }[];
+  diagram: { version: number; mermaid_code: string; kind: string | null; node_files: Json; created_at: string } | null;
+}
+
+// Read through the shared-session function, which queries as the anonymous role with the
+// token attached, so the viewer does not need an account
+export const loadSharedSession = async (token: string): Promise<SharedSession> => {
+  const { data, error } = await supabase.functions.invoke<SharedSessionResponse>('shared-session', {
+    body: { token },
+  });
+
+  if (error) {
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to open the shared session'));
+  }
+
+  return {
+    title: data.session.title ?? 'Untitled session',
+    tags: data.session.tags ?? [],
+    updatedAt: new Date(data.session.updated_at),
+    expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+    messages: data.messages.map(message => ({
+      id: message.id,
+      content: message.content,
+      role: message.role as 'user' | 'assistant',
+      timestamp: new Date(message.created_at),
+      citations: parseCitations(message.citations),
+    })),
+    files: data.files.map(file => ({
+      id: file.id,
+      path: file.file_path,
+      size: file.file_size,
+      type: file.file_type,
+    })),
+    diagram: data.diagram && {
+      version: data.diagram.version,
+      code: data.diagram.mermaid_code,
+      kind: getDiagramKind(data.diagram.kind)?.kind ?? null,
+      nodeFiles: parseNodeFiles(data.diagram.node_files),
+      createdAt: new Date(data.diagram.created_at),
+    },
+  };
+};
+
+export const loadSharedFileContent = async (token: string, fileId: string): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke<{ content: string }>('shared-session', {
+    body: { token, fileId },
+  });
+
+  if (error) {
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to load the file'));
+  }
+  return data.content;
+};
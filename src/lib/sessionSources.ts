@@ -0,0 +1,27 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// A session answers from the files uploaded to it and from the workspace codebases attached
+// to it; codebase files, chunks and symbols carry codebase_id instead of session_id. Mirrors
+// supabase/functions/_shared/sessionSources.ts so the UI lists what the chat answers from.
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// PostgREST `or` filter matching rows of uploaded_files, file_chunks or file_symbols that
+// belong to the session. The id is checked first, as a `,` or `)` in it would add filter terms.
+export const sessionSourceFilter = async (sessionId: string): Promise<string> => {
+  if (!UUID_PATTERN.test(sessionId)) {
+    throw new Error('Session ID must be a UUID');
+  }
+
+  const { data, error } = await supabase
+    .from('session_codebases')
+    .select('codebase_id')
+    .eq('session_id', sessionId);
+
+  if (error) throw error;
+
+  const codebaseIds = (data ?? []).map(row => row.codebase_id);
+  return codebaseIds.length > 0
+    ? `session_id.eq.${sessionId},codebase_id.in.(${codebaseIds.join(',')})`
+    : `session_id.eq.${sessionId}`;
+};
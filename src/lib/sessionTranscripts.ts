@@ -0,0 +1,555 @@
+import { marked, Token } from 'marked';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Citation, formatCitation, parseCitations } from '@/lib/citations';
+import { SessionTitleSource } from '@/lib/chatSessions';
+import { DIAGRAM_SOURCE_LABELS, DiagramSource, listDiagramVersions } from '@/lib/sessionDiagrams';
+import { DiagramKind, getDiagramKind } from '@/lib/diagrams/diagramKinds';
+import { renderMermaid } from '@/lib/mermaidConfig';
+import { activeBranch } from '@/lib/messageTree';
+import { safeSetInnerHTML, sanitizeMarkdownHTML } from '@/lib/security';
+
+export type TranscriptFormat = 'markdown' | 'json' | 'html';
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  markdown: 'Markdown',
+  json: 'JSON',
+  html: 'HTML',
+};
+
+const TRANSCRIPT_EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+const TRANSCRIPT_MIME_TYPES: Record<TranscriptFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  html: 'text/html',
+};
+
+// Identifies the JSON format; bump the version when a change would break older importers
+const EXPORT_FORMAT = 'codebase-chat-session';
+const EXPORT_VERSION = 2;
+
+export const MAX_IMPORT_SIZE = 10 * 1024 * 1024;
+
+export interface ExportedFile {
+  path: string;
+  size: number;
+  type: string;
+  status: string;
+  uploadedAt: string;
+}
+
+// File ids belong to the exporting session, so citations only keep the path
+export type ExportedCitation = Omit<Citation, 'fileId'>;
+
+// Ids are only meaningful within the file; importing assigns new ones
+export interface ExportedMessage {
+  id: string;
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  citations: ExportedCitation[];
+  createdAt: string;
+}
+
+export interface ExportedDiagram {
+  version: number;
+  code: string;
+  source: DiagramSource;
+  kind: DiagramKind | null;
+  provider: string | null;
+  model: string | null;
+  fileSet: string[];
+  nodeFiles: Record<string, string>;
+  createdAt: string;
+}
+
+export interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    title: string;
+    titleSource: SessionTitleSource;
+    tags: string[];
+    createdAt: string;
+    updatedAt: string;
+  };
+  // Names and sizes only; the contents stay in storage
+  files: ExportedFile[];
+  // Every branch, oldest first; parents always come before their replies
+  messages: ExportedMessage[];
+  activeMessageId: string | null;
+  // Oldest first
+  diagrams: ExportedDiagram[];
+}
+
+// Everything needed to write any of the formats, read in one go
+export const loadSessionExport = async (sessionId: string): Promise<SessionExport> => {
+  const [sessionResult, messagesResult, filesResult, versions] = await Promise.all([
+    supabase
+      .from('chat_sessions')
+      .select('title, title_source, tags, active_message_id, created_at, updated_at')
+      .eq('id', sessionId)
+      .single(),
+    supabase
+      .from('chat_messages')
+      .select('id, parent_id, role, content, citations, created_at')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('uploaded_files')
+      .select('file_path, file_size, file_type, status, uploaded_at')
+      .eq('session_id', sessionId)
+      .order('uploaded_at', { ascending: false }),
+    listDiagramVersions(sessionId),
+  ]);
+
+  if (sessionResult.error) throw sessionResult.error;
+  if (messagesResult.error) throw messagesResult.error;
+  if (filesResult.error) throw filesResult.error;
+
+  // Re-uploading a path keeps the older row around; only the newest copy counts
+  const seenPaths = new Set<string>();
+  const files = (filesResult.data ?? []).filter(file => {
+    if (seenPaths.has(file.file_path)) return false;
+    seenPaths.add(file.file_path);
+    return true;
+  });
+
+  const session = sessionResult.data;
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      title: session.title ?? 'Untitled session',
+      titleSource: session.title_source as SessionTitleSource,
+      tags: session.tags ?? [],
+      createdAt: session.created_at,
+      updatedAt: session.updated_at,
+    },
+    files: files
+      .map(file => ({
+        path: file.file_path,
+        size: file.file_size,
+        type: file.file_type,
+        status: file.status,
+        uploadedAt: file.uploaded_at,
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    messages: (messagesResult.data ?? []).map(message => ({
+      id: message.id,
+      parentId: message.parent_id,
+      role: message.role as 'user' | 'assistant',
+      content: message.content,
+      citations: parseCitations(message.citations).map(({ path, startLine, endLine }) => ({ path, startLine, endLine })),
+      createdAt: message.created_at,
+    })),
+    activeMessageId: session.active_message_id,
+    diagrams: [...versions].reverse().map(diagram => ({
+      version: diagram.version,
+      code: diagram.code,
+      source: diagram.source,
+      kind: diagram.kind,
+      provider: diagram.provider,
+      model: diagram.model,
+      fileSet: diagram.fileSet,
+      nodeFiles: diagram.nodeFiles,
+      createdAt: diagram.createdAt.toISOString(),
+    })),
+  };
+};
+
+const formatTimestamp = (iso: string) => new Date(iso).toLocaleString();
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Markdown and HTML read top to bottom, so they show only the branch that was on screen
+const exportedBranch = (data: SessionExport): ExportedMessage[] => activeBranch(
+  data.messages.map(message => ({ ...message, timestamp: new Date(message.createdAt) })),
+  data.activeMessageId
+);
+
+const ROLE_LABELS: Record<ExportedMessage['role'], string> = {
+  user: 'Question',
+  assistant: 'Answer',
+};
+
+const describeDiagram = (diagram: ExportedDiagram) => {
+  const kind = diagram.kind ? getDiagramKind(diagram.kind)?.label : null;
+  return `Version ${diagram.version}${kind ? ` · ${kind}` : ''} · ${DIAGRAM_SOURCE_LABELS[diagram.source]}`;
+};
+
+export const sessionToMarkdown = (data: SessionExport): string => {
+  const lines: string[] = [`# ${data.session.title}`, ''];
+  lines.push(`- Started: ${formatTimestamp(data.session.createdAt)}`);
+  lines.push(`- Exported: ${formatTimestamp(data.exportedAt)}`);
+  if (data.session.tags.length > 0) {
+    lines.push(`- Tags: ${data.session.tags.map(tag => `#${tag}`).join(' ')}`);
+  }
+  lines.push('');
+
+  if (data.files.length > 0) {
+    lines.push(`## Files (${data.files.length})`, '');
+    data.files.forEach(file => lines.push(`- \`${file.path}\` (${formatBytes(file.size)})`));
+    lines.push('');
+  }
+
+  lines.push('## Conversation', '');
+  exportedBranch(data).forEach(message => {
+    lines.push(`### ${ROLE_LABELS[message.role]} · ${formatTimestamp(message.createdAt)}`, '');
+    lines.push(message.content.trim(), '');
+    if (message.citations.length > 0) {
+      lines.push(`Sources: ${message.citations.map(citation => `\`${formatCitation(citation)}\``).join(', ')}`, '');
+    }
+  });
+
+  if (data.diagrams.length > 0) {
+    lines.push('## Diagrams', '');
+    data.diagrams.forEach(diagram => {
+      lines.push(`### ${describeDiagram(diagram)}`, '', '```mermaid', diagram.code.trim(), '```', '');
+    });
+  }
+
+  return lines.join('\n');
+};
+
+export const sessionToJson = (data: SessionExport): string => JSON.stringify(data, null, 2);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+let transcriptDiagramCounter = 0;
+
+// The same sanitized markup the preview shows; null when the code does not render
+const renderDiagramHtml = async (code: string): Promise<string | null> => {
+  try {
+    const svg = await renderMermaid(`transcript-mermaid-${++transcriptDiagramCounter}`, code);
+    const host = document.createElement('div');
+    safeSetInnerHTML(host, svg);
+    return host.querySelector('svg') ? host.innerHTML : null;
+  } catch (error) {
+    console.error('Mermaid rendering error in transcript:', error);
+    return null;
+  }
+};
+
+const codeBlockHtml = (code: string, language: string) =>
+  `<pre><code${language ? ` class="language-${escapeHtml(language)}"` : ''}>${escapeHtml(code)}</code></pre>`;
+
+// Mermaid blocks become inline SVG so the transcript needs nothing but a browser
+const markdownToHtml = async (content: string): Promise<string> => {
+  const parts: string[] = [];
+  let pending: Token[] = [];
+  const flush = () => {
+    if (pending.length === 0) return;
+    const tokens = Object.assign(pending, { links: {} });
+    parts.push(sanitizeMarkdownHTML(marked.parser(tokens, { gfm: true })));
+    pending = [];
+  };
+
+  for (const token of marked.lexer(content, { gfm: true })) {
+    if (token.type !== 'code') {
+      pending.push(token);
+      continue;
+    }
+    flush();
+    const language = (token.lang ?? '').split(/\s/)[0].toLowerCase();
+    const svg = language === 'mermaid' ? await renderDiagramHtml(token.text) : null;
+    parts.push(svg ? `<div class="diagram">${svg}</div>` : codeBlockHtml(token.text, language));
+  }
+  flush();
+
+  return parts.join('\n');
+};
+
+const TRANSCRIPT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; line-height: 1.55; color: #1f2328; max-width: 860px; margin: 2rem auto; padding: 0 1rem; }
+  header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+  .meta { color: #59636e; font-size: 0.875rem; }
+  .tag { display: inline-block; background: #eef1f4; border-radius: 999px; padding: 0 0.5rem; margin-right: 0.25rem; }
+  .message { border: 1px solid #d0d7de; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+  .message.user { background: #f6f8fa; }
+  .message h3 { font-size: 0.8rem; text-transform: uppercase; letter-spacing: 0.04em; color: #59636e; margin: 0 0 0.5rem; }
+  .sources { font-size: 0.8rem; color: #59636e; }
+  pre { background: #f6f8fa; border-radius: 6px; padding: 0.75rem; overflow-x: auto; font-size: 0.85rem; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.5rem; }
+  .diagram { overflow-x: auto; margin: 0.75rem 0; }
+  .diagram svg { max-width: 100%; height: auto; }
+`;
+
+export const sessionToHtml = async (data: SessionExport): Promise<string> => {
+  const body: string[] = [];
+  body.push(
+    '<header>',
+    `<h1>${escapeHtml(data.session.title)}</h1>`,
+    `<p class="meta">Started ${escapeHtml(formatTimestamp(data.session.createdAt))} · exported ${escapeHtml(formatTimestamp(data.exportedAt))}</p>`,
+  );
+  if (data.session.tags.length > 0) {
+    body.push(`<p class="meta">${data.session.tags.map(tag => `<span class="tag">#${escapeHtml(tag)}</span>`).join('')}</p>`);
+  }
+  if (data.files.length > 0) {
+    body.push(
+      `<details><summary class="meta">${data.files.length} ${data.files.length === 1 ? 'file' : 'files'}</summary><ul class="meta">`,
+      ...data.files.map(file => `<li><code>${escapeHtml(file.path)}</code> (${formatBytes(file.size)})</li>`),
+      '</ul></details>',
+    );
+  }
+  body.push('</header>', '<main>');
+
+  for (const message of exportedBranch(data)) {
+    body.push(
+      `<section class="message ${message.role}">`,
+      `<h3>${ROLE_LABELS[message.role]} · ${escapeHtml(formatTimestamp(message.createdAt))}</h3>`,
+      await markdownToHtml(message.content),
+    );
+    if (message.citations.length > 0) {
+      const sources = message.citations.map(citation => `<code>${escapeHtml(formatCitation(citation))}</code>`);
+      body.push(`<p class="sources">Sources: ${sources.join(', ')}</p>`);
+    }
+    body.push('</section>');
+  }
+
+  if (data.diagrams.length > 0) {
+    body.push('<h2>Diagrams</h2>');
+    for (const diagram of data.diagrams) {
+      const svg = await renderDiagramHtml(diagram.code);
+      body.push(
+        `<h3>${escapeHtml(describeDiagram(diagram))}</h3>`,
+        svg ? `<div class="diagram">${svg}</div>` : codeBlockHtml(diagram.code, 'mermaid'),
+      );
+    }
+  }
+  body.push('</main>');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(data.session.title)}</title>`,
+    `<style>${TRANSCRIPT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
+
+export const buildTranscript = async (data: SessionExport, format: TranscriptFormat): Promise<Blob> => {
+  const text = format === 'markdown' ? sessionToMarkdown(data)
+    : format === 'json' ? sessionToJson(data)
+      : await sessionToHtml(data);
+  return new Blob([text], { type: `${TRANSCRIPT_MIME_TYPES[format]};charset=utf-8` });
+};
+
+export const transcriptFilename = (title: string, format: TranscriptFormat): string => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'session';
+  return `${slug}.${TRANSCRIPT_EXTENSIONS[format]}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isTimestamp = (value: unknown): value is string => isString(value) && !Number.isNaN(Date.parse(value));
+
+const parseExportedCitations = (value: unknown): ExportedCitation[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((entry): entry is ExportedCitation => isObject(entry) && isString(entry.path)
+      && typeof entry.startLine === 'number' && typeof entry.endLine === 'number')
+    .map(({ path, startLine, endLine }) => ({ path, startLine, endLine }));
+};
+
+const DIAGRAM_SOURCES: DiagramSource[] = ['ai', 'static', 'edit', 'import', 'restore'];
+
+// Check a file produced by sessionToJson (possibly hand-edited) and return it in its
+// canonical shape; unknown fields are dropped and malformed entries fail with a reason
+export const parseSessionExport = (text: string): SessionExport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isObject(raw) || raw.format !== EXPORT_FORMAT) {
+    throw new Error('The file is not an exported chat session');
+  }
+  if (typeof raw.version !== 'number' || raw.version > EXPORT_VERSION) {
+    throw new Error('The file was exported by a newer version of the app');
+  }
+  const session = raw.session;
+  if (!isObject(session) || !isString(session.title)) {
+    throw new Error('The session title is missing');
+  }
+  if (!Array.isArray(raw.messages)) {
+    throw new Error('The session has no messages');
+  }
+
+  // Version 1 files list one branch without ids; each message follows the one before it
+  const chained = raw.version < 2;
+  const seenIds = new Set<string>();
+  const messages = raw.messages.map((message, index): ExportedMessage => {
+    if (!isObject(message) || (message.role !== 'user' && message.role !== 'assistant') || !isString(message.content)) {
+      throw new Error(`Message ${index + 1} needs a role of "user" or "assistant" and a content`);
+    }
+    const id = chained ? String(index) : message.id;
+    const parent = chained ? (index > 0 ? String(index - 1) : null) : message.parentId ?? null;
+    if (!isString(id) || seenIds.has(id)) {
+      throw new Error(`Message ${index + 1} needs an id of its own`);
+    }
+    // Requiring parents first also rules out cycles
+    const parentId = isString(parent) && seenIds.has(parent) ? parent : null;
+    if (parent !== null && parentId === null) {
+      throw new Error(`Message ${index + 1} replies to a message that does not come before it`);
+    }
+    seenIds.add(id);
+    return {
+      id,
+      parentId,
+      role: message.role,
+      content: message.content,
+      citations: parseExportedCitations(message.citations),
+      createdAt: isTimestamp(message.createdAt) ? message.createdAt : new Date().toISOString(),
+    };
+  });
+
+  const diagrams = (Array.isArray(raw.diagrams) ? raw.diagrams : []).map((diagram, index): ExportedDiagram => {
+    if (!isObject(diagram) || !isString(diagram.code)) {
+      throw new Error(`Diagram ${index + 1} has no Mermaid code`);
+    }
+    const nodeFiles = isObject(diagram.nodeFiles)
+      ? Object.fromEntries(Object.entries(diagram.nodeFiles).filter((entry): entry is [string, string] => isString(entry[1])))
+      : {};
+    return {
+      version: typeof diagram.version === 'number' ? diagram.version : index + 1,
+      code: diagram.code,
+      source: DIAGRAM_SOURCES.includes(diagram.source as DiagramSource) ? diagram.source as DiagramSource : 'import',
+      kind: getDiagramKind(isString(diagram.kind) ? diagram.kind : null)?.kind ?? null,
+      provider: isString(diagram.provider) ? diagram.provider : null,
+      model: isString(diagram.model) ? diagram.model : null,
+      fileSet: Array.isArray(diagram.fileSet) ? diagram.fileSet.filter(isString) : [],
+      nodeFiles,
+      createdAt: isTimestamp(diagram.createdAt) ? diagram.createdAt : new Date().toISOString(),
+    };
+  });
+
+  const files = (Array.isArray(raw.files) ? raw.files : [])
+    .filter((file): file is Record<string, unknown> => isObject(file) && isString(file.path))
+    .map(file => ({
+      path: file.path as string,
+      size: typeof file.size === 'number' ? file.size : 0,
+      type: isString(file.type) ? file.type : '',
+      status: isString(file.status) ? file.status : 'success',
+      uploadedAt: isTimestamp(file.uploadedAt) ? file.uploadedAt : '',
+    }));
+
+  const titleSource = ['default', 'ai', 'user'].includes(session.titleSource as string)
+    ? session.titleSource as SessionTitleSource
+    : 'user';
+
+  return {
+    format: EXPORT_FORMAT,
+    version: raw.version,
+    exportedAt: isTimestamp(raw.exportedAt) ? raw.exportedAt : new Date().toISOString(),
+    session: {
+      title: session.title,
+      titleSource,
+      tags: Array.isArray(session.tags) ? session.tags.filter(isString) : [],
+      createdAt: isTimestamp(session.createdAt) ? session.createdAt : new Date().toISOString(),
+      updatedAt: isTimestamp(session.updatedAt) ? session.updatedAt : new Date().toISOString(),
+    },
+    files,
+    messages,
+    activeMessageId: isString(raw.activeMessageId) && seenIds.has(raw.activeMessageId) ? raw.activeMessageId : null,
+    diagrams,
+  };
+};
+
+// Recreate an exported session for the caller and return its id. Messages and diagrams
+// keep their timestamps; uploaded files are not part of the export, so citations point
+// at paths and open once files with the same paths are uploaded to the new session.
+export const importSession = async (data: SessionExport, userId: string): Promise<string> => {
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .insert([{
+      user_id: userId,
+      title: data.session.title,
+      title_source: data.session.titleSource,
+      tags: data.session.tags,
+    }])
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  try {
+    if (data.messages.length > 0) {
+      // Ids are chosen here so replies can point at their parents and branches survive
+      const ids = new Map(data.messages.map(message => [message.id, crypto.randomUUID()]));
+      const { error: messagesError } = await supabase
+        .from('chat_messages')
+        .insert(data.messages.map(message => ({
+          id: ids.get(message.id),
+          parent_id: message.parentId ? ids.get(message.parentId) ?? null : null,
+          session_id: session.id,
+          user_id: userId,
+          role: message.role,
+          content: message.content,
+          citations: message.citations.map(citation => ({ fileId: '', ...citation })),
+          created_at: message.createdAt,
+        })));
+      if (messagesError) throw messagesError;
+
+      const activeMessageId = data.activeMessageId ? ids.get(data.activeMessageId) : undefined;
+      if (activeMessageId) {
+        const { error: activeError } = await supabase
+          .from('chat_sessions')
+          .update({ active_message_id: activeMessageId })
+          .eq('id', session.id);
+        if (activeError) throw activeError;
+      }
+    }
+
+    // Versions are renumbered from 1 by the database, in the original order
+    if (data.diagrams.length > 0) {
+      const { error: diagramsError } = await supabase
+        .from('session_diagrams')
+        .insert(data.diagrams.map(diagram => ({
+          session_id: session.id,
+          user_id: userId,
+          mermaid_code: diagram.code,
+          source: diagram.source,
+          kind: diagram.kind,
+          provider: diagram.provider,
+          model: diagram.model,
+          file_set: diagram.fileSet,
+          node_files: diagram.nodeFiles,
+          created_at: diagram.createdAt,
+        })));
+      if (diagramsError) throw diagramsError;
+    }
+  } catch (importError) {
+    // Don't leave a half-imported session behind
+    await supabase.from('chat_sessions').delete().eq('id', session.id);
+    throw importError;
+  }
+
+  return session.id;
+};
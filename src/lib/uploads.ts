@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const STORAGE_BUCKET = 'uploaded-files';
+
+const MAX_UPLOAD_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Storage policies require the first folder of every object path to be the owner's id
+export const buildStoragePath = (userId: string, sessionId: string, fileId: string) =>
+  `${userId}/${sessionId}/${fileId}`;
+
+// Upload through a signed URL with XHR so we get real progress events,
+// which supabase-js' fetch-based upload does not expose
+export const uploadFileWithProgress = async (
+  path: string,
+  file: File,
+  onProgress: (percent: number) => void
+): Promise<void> => {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .createSignedUploadUrl(path, { upsert: true });
+
+  if (error) throw error;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', data.signedUrl);
+    xhr.setRequestHeader('x-upsert', 'true');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+      } else {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+
+    const body = new FormData();
+    body.append('cacheControl', '3600');
+    body.append('', file);
+    xhr.send(body);
+  });
+};
+
+// Retry failed uploads with exponential backoff before giving up
+export const uploadWithRetry = async (
+  path: string,
+  file: File,
+  onProgress: (percent: number) => void,
+  maxAttempts = MAX_UPLOAD_ATTEMPTS
+): Promise<void> => {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      onProgress(0);
+      await uploadFileWithProgress(path, file, onProgress);
+      return;
+    } catch (error) {
+      lastError = error;
+      console.error(`Upload attempt ${attempt} for ${file.name} failed:`, error);
+      if (attempt < maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  throw lastError;
+};
+
+// Run async work over a list with at most `limit` tasks in flight
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const LIST_PAGE_SIZE = 1000;
+
+// Remove every stored object under a folder, including nested ones. A folder is listed in
+// full, page by page, before anything in it is removed, so removals don't shift the offsets.
+const removeFolderObjects = async (folder: string): Promise<void> => {
+  const files: string[] = [];
+  const subfolders: string[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .list(folder, { limit: LIST_PAGE_SIZE, offset });
+    if (error) throw error;
+    // Folders are listed without an id
+    (data ?? []).forEach(object => (object.id ? files : subfolders).push(`${folder}/${object.name}`));
+    if (!data || data.length < LIST_PAGE_SIZE) break;
+  }
+
+  for (let start = 0; start < files.length; start += LIST_PAGE_SIZE) {
+    const { error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .remove(files.slice(start, start + LIST_PAGE_SIZE));
+    if (error) throw error;
+  }
+
+  for (const subfolder of subfolders) {
+    await removeFolderObjects(subfolder);
+  }
+};
+
+// Remove every stored object under a session folder
+export const removeSessionObjects = (userId: string, sessionId: string): Promise<void> =>
+  removeFolderObjects(`${userId}/${sessionId}`);
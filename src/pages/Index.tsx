@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Header } from '@/components/Header';
 import { Footer } from '@/components/Footer';
 import { FileUpload } from '@/components/FileUpload';
@@ -9,37 +9,83 @@ import { AuthButton } from '@/components/AuthButton';
 import { ChatHistory } from '@/components/ChatHistory';
 import { VisualPlayground } from '@/components/VisualPlayground';
 import { ApiKeyManager } from '@/components/ApiKeyManager';
+import { CitationViewer } from '@/components/CitationViewer';
+import { CodeBrowser, CodeBrowserView } from '@/components/CodeBrowser';
 
 
 import { useToast } from '@/hooks/use-toast';
 import { useSecurity } from '@/hooks/useSecurity';
+import { useSessionSync } from '@/hooks/useSessionSync';
 import { supabase } from '@/integrations/supabase/client';
+import { loadUserApiKeys, loadProviderOrder } from '@/lib/apiKeys';
+import { ChatFocus, formatFocus, streamChatAnswer } from '@/lib/chatStream';
+import { Citation, parseCitations, toCitationJson } from '@/lib/citations';
+import { STORAGE_BUCKET, buildStoragePath, uploadWithRetry, mapWithConcurrency, removeSessionObjects } from '@/lib/uploads';
+import { CollectedFile } from '@/lib/archives';
+import { FileTreeFile } from '@/lib/fileTree';
+import { SessionDiagram, loadLatestDiagram, toSessionDiagram } from '@/lib/sessionDiagrams';
+import { suggestSessionTitle } from '@/lib/chatSessions';
+import { sessionSourceFilter } from '@/lib/sessionSources';
+import { activeBranch, branchPosition, groupChildren, switchBranch } from '@/lib/messageTree';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 interface UploadedFile {
   id: string;
   name: string;
+  path: string;
   size: number;
   type: string;
   status: 'uploading' | 'success' | 'error';
   progress?: number;
+  processed?: boolean;
+  // Set for files of a workspace codebase attached to the session, which aren't removed with it
+  codebaseId?: string | null;
 }
 
+interface PendingUpload {
+  file: File;
+  storagePath: string;
+}
+
+const UPLOAD_CONCURRENCY = 3;
+
 interface Message {
   id: string;
+  // The message this one follows; null for the first question
+  parentId: string | null;
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
+  citations?: Citation[];
 }
 
 const Index = () => {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  // Every message of the session, across all branches
   const [messages, setMessages] = useState<Message[]>([]);
+  // Last message of the branch on screen
+  const [activeMessageId, setActiveMessageId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const [viewedCitation, setViewedCitation] = useState<Citation | null>(null);
+  const [isBrowserOpen, setIsBrowserOpen] = useState(false);
+  const [browserFile, setBrowserFile] = useState<FileTreeFile | null>(null);
+  const [browserView, setBrowserView] = useState<CodeBrowserView>('files');
+  const [chatFocus, setChatFocus] = useState<ChatFocus | null>(null);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  // Kept here because the playground unmounts when its tab is closed
+  const [latestDiagram, setLatestDiagram] = useState<SessionDiagram | null>(null);
+  // Bumped when a session is renamed behind the history list's back, so it reloads
+  const [sessionsVersion, setSessionsVersion] = useState(0);
   const [user, setUser] = useState<any>(null);
   const [activeTab, setActiveTab] = useState('questions');
+  // Raw bytes of files that are not ingested yet, kept so failed uploads can be retried
+  const pendingUploadsRef = useRef<Map<string, PendingUpload>>(new Map());
   const { toast } = useToast();
+
+  const messageChildren = useMemo(() => groupChildren(messages), [messages]);
+  const conversation = useMemo(() => activeBranch(messages, activeMessageId), [messages, activeMessageId]);
   
   // Initialize security monitoring
   const { updateActivity } = useSecurity();
@@ -82,6 +128,7 @@ const Index = () => {
         .single();
 
       if (error) throw error;
+      setLatestDiagram(null);
       setSessionId(data.id);
     } catch (error) {
       console.error('Error creating session:', error);
@@ -93,19 +140,74 @@ const Index = () => {
     }
   };
 
-  const handleFilesUploaded = useCallback(async (newFiles: UploadedFile[]) => {
+  const updateFileState = useCallback((fileId: string, changes: Partial<UploadedFile>) => {
+    setUploadedFiles(prev => prev.map(file => file.id === fileId ? { ...file, ...changes } : file));
+  }, []);
+
+  // Upload a file's bytes to storage, then ask the server to ingest it
+  const uploadAndIngest = useCallback(async (fileId: string): Promise<boolean> => {
+    const pending = pendingUploadsRef.current.get(fileId);
+    if (!pending) return false;
+
+    try {
+      let lastProgress = -1;
+      await uploadWithRetry(pending.storagePath, pending.file, (progress) => {
+        if (progress !== lastProgress) {
+          lastProgress = progress;
+          updateFileState(fileId, { progress });
+        }
+      });
+    } catch (error) {
+      console.error(`Error uploading ${pending.file.name}:`, error);
+      await supabase.from('uploaded_files').update({ status: 'error' }).eq('id', fileId);
+      updateFileState(fileId, { status: 'error', progress: undefined });
+      return false;
+    }
+
+    await supabase.from('uploaded_files').update({ status: 'success' }).eq('id', fileId);
+    updateFileState(fileId, { status: 'success', progress: undefined });
+
+    // Ingestion also chunks and embeds the file; the user's OpenAI key is used for embeddings when set
+    const userApiKeys = await loadUserApiKeys();
+    const { error } = await supabase.functions.invoke('ingest-file', { body: { fileId, userApiKeys } });
+    if (error) {
+      console.error(`Error ingesting ${pending.file.name}:`, error);
+      // The function may have failed before it could record the error itself
+      await supabase.from('uploaded_files').update({ status: 'error' }).eq('id', fileId);
+      updateFileState(fileId, { status: 'error' });
+      return false;
+    }
+
+    pendingUploadsRef.current.delete(fileId);
+    updateFileState(fileId, { processed: true });
+    return true;
+  }, [updateFileState]);
+
+  const handleFilesSelected = useCallback(async (files: CollectedFile[]) => {
     if (!user || !sessionId) return;
 
+    const newUploads = files.map(({ file, path }) => {
+      const id = crypto.randomUUID();
+      return { id, file, path, storagePath: buildStoragePath(user.id, sessionId, id) };
+    });
+
+    // Registered before the rows exist so their realtime echo is left to this tab
+    newUploads.forEach(({ id, file, storagePath }) => {
+      pendingUploadsRef.current.set(id, { file, storagePath });
+    });
+
     try {
-      // Store file metadata in database
-      const fileRecords = newFiles.map(file => ({
+      // Store file metadata in database before any bytes are sent
+      const fileRecords = newUploads.map(({ id, file, path, storagePath }) => ({
+        id,
         session_id: sessionId,
         user_id: user.id,
         file_name: file.name,
+        file_path: path,
         file_size: file.size,
         file_type: file.type,
-        storage_path: `${user.id}/${file.id}`,
-        status: file.status
+        storage_path: storagePath,
+        status: 'uploading'
       }));
 
       const { error } = await supabase
@@ -113,35 +215,90 @@ const Index = () => {
         .insert(fileRecords);
 
       if (error) throw error;
-
-      setUploadedFiles(prev => [...prev, ...newFiles]);
-      toast({
-        title: "Files uploaded",
-        description: `${newFiles.length} file(s) uploaded successfully`,
-      });
     } catch (error) {
       console.error('Error saving files:', error);
+      newUploads.forEach(({ id }) => pendingUploadsRef.current.delete(id));
       toast({
         title: "Error",
         description: "Failed to save file metadata",
         variant: "destructive",
       });
+      return;
     }
-  }, [user, sessionId, toast]);
+
+    setUploadedFiles(prev => [
+      ...prev,
+      ...newUploads.map(({ id, file, path }) => ({
+        id,
+        name: file.name,
+        path,
+        size: file.size,
+        type: file.type,
+        status: 'uploading' as const,
+        progress: 0
+      }))
+    ]);
+
+    const results = await mapWithConcurrency(newUploads, UPLOAD_CONCURRENCY, ({ id }) => uploadAndIngest(id));
+    const failedCount = results.filter(ok => !ok).length;
+
+    if (failedCount === 0) {
+      toast({
+        title: "Files uploaded",
+        description: `${newUploads.length} file(s) uploaded successfully`,
+      });
+    } else {
+      toast({
+        title: "Some uploads failed",
+        description: `${failedCount} of ${newUploads.length} file(s) could not be uploaded. Use retry to try again.`,
+        variant: "destructive",
+      });
+    }
+  }, [user, sessionId, uploadAndIngest, toast]);
+
+  const handleRetryFile = useCallback(async (fileId: string) => {
+    if (!pendingUploadsRef.current.has(fileId)) {
+      toast({
+        title: "Cannot retry",
+        description: "The original file is no longer available. Please upload it again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await supabase.from('uploaded_files').update({ status: 'uploading' }).eq('id', fileId);
+    updateFileState(fileId, { status: 'uploading', progress: 0 });
+
+    if (await uploadAndIngest(fileId)) {
+      toast({
+        title: "File uploaded",
+        description: "The file was uploaded successfully",
+      });
+    }
+  }, [uploadAndIngest, updateFileState, toast]);
 
   const handleRemoveFile = useCallback(async (fileId: string) => {
     if (!user) return;
 
     try {
       // Remove from database
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('uploaded_files')
         .delete()
         .eq('id', fileId)
-        .eq('user_id', user.id);
+        .eq('user_id', user.id)
+        .select('storage_path');
 
       if (error) throw error;
 
+      // Remove the stored bytes as well
+      const storagePaths = (data ?? []).map(file => file.storage_path);
+      if (storagePaths.length > 0) {
+        const { error: storageError } = await supabase.storage.from(STORAGE_BUCKET).remove(storagePaths);
+        if (storageError) console.error('Error removing stored file:', storageError);
+      }
+
+      pendingUploadsRef.current.delete(fileId);
       setUploadedFiles(prev => prev.filter(file => file.id !== fileId));
       toast({
         title: "File removed",
@@ -157,77 +314,272 @@ const Index = () => {
     }
   }, [user, toast]);
 
-  const handleSendMessage = useCallback(async (content: string) => {
-    if (!user || !sessionId) return;
-
-    const userMessage: Message = {
-      id: Math.random().toString(36).substr(2, 9),
-      content,
-      role: 'user',
+  // Remember the branch being looked at, so it is the one shown when the session is reopened
+  const persistActiveMessage = useCallback((messageId: string) => {
+    setActiveMessageId(messageId);
+    if (!sessionId) return;
+    supabase
+      .from('chat_sessions')
+      .update({ active_message_id: messageId })
+      .eq('id', sessionId)
+      .then(({ error }) => {
+        if (error) console.error('Error saving the active branch:', error);
+      });
+  }, [sessionId]);
+
+  // Stream an answer to `question` into a new assistant message under it. `history` is the
+  // branch before the question; `restoreId` is shown again if no answer arrives.
+  // Resolves to whether an answer was saved.
+  const streamAnswer = useCallback(async (
+    question: Message,
+    history: Message[],
+    { focus = null, restoreId }: { focus?: ChatFocus | null; restoreId: string }
+  ): Promise<boolean> => {
+    if (!user || !sessionId) return false;
+
+    const assistantId = crypto.randomUUID();
+    const assistantMessage: Message = {
+      id: assistantId,
+      parentId: question.id,
+      content: '',
+      role: 'assistant',
       timestamp: new Date()
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    setMessages(prev => [...prev, assistantMessage]);
+    setActiveMessageId(assistantId);
+    setStreamingMessageId(assistantId);
     setIsLoading(true);
 
-    try {
-      // Save user message to database
-      await supabase
+    let streamedContent = '';
+    const saveAssistantMessage = async (aiContent: string, citations: Citation[] = []) => {
+      const { error } = await supabase
         .from('chat_messages')
         .insert([
           {
+            id: assistantId,
+            parent_id: question.id,
             session_id: sessionId,
             user_id: user.id,
-            content,
-            role: 'user'
+            content: aiContent,
+            role: 'assistant',
+            citations: toCitationJson(citations)
           }
         ]);
+      if (error) console.error('Error saving the answer:', error);
+      else persistActiveMessage(assistantId);
+    };
+    const dropPlaceholder = () => {
+      setMessages(prev => prev.filter(message => message.id !== assistantId));
+      persistActiveMessage(restoreId);
+    };
 
-      // Simulate AI response (your team will replace this with real LLM integration)
-      await new Promise(resolve => setTimeout(resolve, 1500));
-
-      const aiResponseContent = generateMockResponse(content, uploadedFiles);
-      const aiResponse: Message = {
-        id: Math.random().toString(36).substr(2, 9),
-        content: aiResponseContent,
-        role: 'assistant',
-        timestamp: new Date()
-      };
+    try {
+      // Stream an answer grounded in this session's files into a placeholder message
+      const userApiKeys = await loadUserApiKeys();
+      const controller = new AbortController();
+      streamAbortRef.current = controller;
+
+      const { content: aiResponseContent, citations, stopped } = await streamChatAnswer({
+        sessionId,
+        question: question.content,
+        messages: history.map(({ role, content }) => ({ role, content })),
+        userApiKeys,
+        providerOrder: loadProviderOrder(),
+        focus: focus && { fileId: focus.fileId, startLine: focus.startLine, endLine: focus.endLine }
+      }, {
+        signal: controller.signal,
+        onDelta: (partial) => {
+          streamedContent = partial;
+          setMessages(prev => prev.map(message =>
+            message.id === assistantId ? { ...message, content: partial } : message
+          ));
+        }
+      });
 
-      // Save AI response to database
-      await supabase
-        .from('chat_messages')
-        .insert([
-          {
-            session_id: sessionId,
-            user_id: user.id,
-            content: aiResponseContent,
-            role: 'assistant'
-          }
-        ]);
+      if (!aiResponseContent) {
+        dropPlaceholder();
+        return false;
+      }
 
-      setMessages(prev => [...prev, aiResponse]);
+      setMessages(prev => prev.map(message =>
+        message.id === assistantId ? { ...message, content: aiResponseContent, citations } : message
+      ));
+
+      // Save AI response to database, including a partial answer the user stopped
+      await saveAssistantMessage(aiResponseContent, citations);
+      if (stopped) {
+        toast({
+          title: "Response stopped",
+          description: "The partial answer was saved",
+        });
+      }
+      return true;
     } catch (error) {
       console.error('Error sending message:', error);
+      // Keep whatever arrived before the failure; drop the bubble if nothing did
+      if (streamedContent) {
+        await saveAssistantMessage(streamedContent);
+      } else {
+        dropPlaceholder();
+      }
       toast({
         title: "Error",
-        description: "Failed to send message",
+        description: error instanceof Error ? error.message : "Failed to send message",
         variant: "destructive",
       });
+      return Boolean(streamedContent);
     } finally {
+      streamAbortRef.current = null;
+      setStreamingMessageId(null);
+      setIsLoading(false);
+    }
+  }, [user, sessionId, persistActiveMessage, toast]);
+
+  // Save a question under `parentId` and answer it. Editing a question asks the new
+  // wording as a sibling of the original, leaving the original branch in place.
+  const askQuestion = useCallback(async (
+    content: string,
+    parentId: string | null,
+    history: Message[],
+    focus: ChatFocus | null
+  ): Promise<boolean> => {
+    if (!user || !sessionId) return false;
+
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      parentId,
+      content,
+      role: 'user',
+      timestamp: new Date()
+    };
+    const previousActiveId = activeMessageId;
+
+    setMessages(prev => [...prev, userMessage]);
+    setActiveMessageId(userMessage.id);
+    setIsLoading(true);
+
+    const { error } = await supabase
+      .from('chat_messages')
+      .insert([
+        {
+          id: userMessage.id,
+          parent_id: parentId,
+          session_id: sessionId,
+          user_id: user.id,
+          content,
+          role: 'user'
+        }
+      ]);
+
+    if (error) {
+      console.error('Error saving question:', error);
+      setMessages(prev => prev.filter(message => message.id !== userMessage.id));
+      setActiveMessageId(previousActiveId);
       setIsLoading(false);
+      toast({
+        title: "Error",
+        description: "Failed to send message",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    return streamAnswer(userMessage, history, { focus, restoreId: userMessage.id });
+  }, [user, sessionId, activeMessageId, streamAnswer, toast]);
+
+  const handleSendMessage = useCallback(async (question: string) => {
+    if (!sessionId) return;
+
+    // Name the attached file or range in the question itself so follow-ups keep the reference
+    const focus = chatFocus;
+    const content = focus ? `About ${formatFocus(focus)}: ${question}` : question;
+    const isFirstExchange = messages.length === 0;
+    setChatFocus(null);
+
+    const parent = conversation[conversation.length - 1];
+    const answered = await askQuestion(content, parent?.id ?? null, conversation, focus);
+    if (answered && isFirstExchange) {
+      // Name the session after its first exchange; a failed suggestion keeps the default title
+      suggestSessionTitle(sessionId)
+        .then(title => {
+          if (title) setSessionsVersion(version => version + 1);
+        })
+        .catch(error => console.error('Error suggesting a session title:', error));
     }
-  }, [user, sessionId, uploadedFiles, toast]);
+  }, [sessionId, messages.length, conversation, chatFocus, askQuestion]);
+
+  const handleEditMessage = useCallback((messageId: string, content: string) => {
+    const index = conversation.findIndex(message => message.id === messageId);
+    if (index < 0 || isLoading) return;
+    askQuestion(content, conversation[index].parentId, conversation.slice(0, index), null);
+  }, [conversation, isLoading, askQuestion]);
+
+  // Answer the same question again as a sibling of the existing answer
+  const handleRegenerate = useCallback((messageId: string) => {
+    const index = conversation.findIndex(message => message.id === messageId);
+    const question = conversation[index - 1];
+    if (index < 1 || question.role !== 'user' || isLoading) return;
+    streamAnswer(question, conversation.slice(0, index - 1), { restoreId: messageId });
+  }, [conversation, isLoading, streamAnswer]);
+
+  const handleSwitchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    const message = messages.find(candidate => candidate.id === messageId);
+    if (!message || isLoading) return;
+    const leaf = switchBranch(message, direction, messageChildren);
+    if (leaf) persistActiveMessage(leaf.id);
+  }, [messages, messageChildren, isLoading, persistActiveMessage]);
+
+  const handleStopGenerating = useCallback(() => {
+    streamAbortRef.current?.abort();
+  }, []);
 
   const handleQuestionSelect = useCallback((question: string) => {
     handleSendMessage(question);
   }, [handleSendMessage]);
 
+  const handleBrowseFiles = useCallback((fileId?: string) => {
+    const file = uploadedFiles.find(candidate => candidate.id === fileId);
+    setBrowserFile(file ? { id: file.id, path: file.path } : null);
+    setBrowserView('files');
+    setIsBrowserOpen(true);
+  }, [uploadedFiles]);
+
+  // Put a file or range in focus for the next question and bring the chat into view
+  const handleAskAbout = useCallback((focus: ChatFocus) => {
+    setChatFocus(focus);
+    setActiveTab(tab => (tab === 'questions' || tab === 'history' ? tab : 'questions'));
+  }, []);
+
+  // Imported sessions cite paths without file ids; they open once a file with that path is uploaded
+  const handleCitationClick = useCallback((citation: Citation) => {
+    const file = uploadedFiles.find(candidate => candidate.id === citation.fileId)
+      ?? uploadedFiles.find(candidate => candidate.path === citation.path && candidate.status === 'success');
+    if (!file) {
+      toast({
+        title: "File not uploaded",
+        description: `Upload ${citation.path} to this session to view the cited lines`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setViewedCitation({ ...citation, fileId: file.id });
+  }, [uploadedFiles, toast]);
+
+  const handleSearchCode = useCallback(() => {
+    setBrowserFile(null);
+    setBrowserView('search');
+    setIsBrowserOpen(true);
+  }, []);
+
   const handleSessionSelect = useCallback(async (selectedSessionId: string) => {
     if (!user) return;
 
+    // An answer still streaming belongs to the previous session; stop it (the partial is saved there)
+    streamAbortRef.current?.abort();
+
     try {
-      // Load messages for the selected session
+      // Load messages for the selected session, across all branches
       const { data: messagesData, error: messagesError } = await supabase
         .from('chat_messages')
         .select('*')
@@ -236,32 +588,51 @@ const Index = () => {
 
       if (messagesError) throw messagesError;
 
-      // Load files for the selected session
+      const { data: sessionData, error: sessionError } = await supabase
+        .from('chat_sessions')
+        .select('active_message_id')
+        .eq('id', selectedSessionId)
+        .single();
+
+      if (sessionError) throw sessionError;
+
+      // Load files for the selected session, including those of its attached codebases
       const { data: filesData, error: filesError } = await supabase
         .from('uploaded_files')
         .select('*')
-        .eq('session_id', selectedSessionId);
+        .or(await sessionSourceFilter(selectedSessionId));
 
       if (filesError) throw filesError;
 
+      const diagram = await loadLatestDiagram(selectedSessionId);
+
       // Convert to frontend format
       const loadedMessages: Message[] = messagesData.map(msg => ({
         id: msg.id,
+        parentId: msg.parent_id,
         content: msg.content,
         role: msg.role as 'user' | 'assistant',
-        timestamp: new Date(msg.created_at)
+        timestamp: new Date(msg.created_at),
+        citations: parseCitations(msg.citations)
       }));
 
+      // Uploads interrupted by a reload can't resume without their bytes, so show them as failed
       const loadedFiles: UploadedFile[] = filesData.map(file => ({
         id: file.id,
         name: file.file_name,
+        path: file.file_path,
         size: file.file_size,
         type: file.file_type,
-        status: 'success' as const
+        status: file.status === 'success' ? 'success' as const : 'error' as const,
+        processed: !!file.processed_at,
+        codebaseId: file.codebase_id
       }));
 
+      setLatestDiagram(diagram);
       setSessionId(selectedSessionId);
       setMessages(loadedMessages);
+      // The branch last looked at; activeBranch falls back to the newest message
+      setActiveMessageId(sessionData.active_message_id);
       setUploadedFiles(loadedFiles);
 
       toast({
@@ -282,6 +653,13 @@ const Index = () => {
     if (!user || !sessionId) return;
 
     try {
+      // Stored bytes are not covered by the cascade, remove them first
+      try {
+        await removeSessionObjects(user.id, sessionId);
+      } catch (storageError) {
+        console.error('Error removing stored files:', storageError);
+      }
+
       // Delete session (will cascade delete files and messages)
       await supabase
         .from('chat_sessions')
@@ -290,8 +668,10 @@ const Index = () => {
         .eq('user_id', user.id);
 
       // Create new session
+      pendingUploadsRef.current.clear();
       setUploadedFiles([]);
       setMessages([]);
+      setActiveMessageId(null);
       await createNewSession();
       
       toast({
@@ -308,7 +688,57 @@ const Index = () => {
     }
   }, [user, sessionId, toast]);
 
+  // Changes made to this session from other tabs and devices. Ids are generated before
+  // rows are written, so the echo of this tab's own writes matches what is already shown.
+  useSessionSync(sessionId, {
+    onMessageInserted: (row) => {
+      setMessages(prev => prev.some(message => message.id === row.id) ? prev : [
+        ...prev,
+        {
+          id: row.id,
+          parentId: row.parent_id,
+          content: row.content,
+          role: row.role as 'user' | 'assistant',
+          timestamp: new Date(row.created_at),
+          citations: parseCitations(row.citations)
+        }
+      ]);
+    },
+    onFileChanged: (row) => {
+      // This tab is uploading the file and knows its state better than the row does
+      if (pendingUploadsRef.current.has(row.id)) return;
+      const file: UploadedFile = {
+        id: row.id,
+        name: row.file_name,
+        path: row.file_path,
+        size: row.file_size,
+        type: row.file_type,
+        status: row.status === 'success' || row.status === 'error' ? row.status : 'uploading',
+        processed: !!row.processed_at,
+        codebaseId: row.codebase_id
+      };
+      setUploadedFiles(prev => prev.some(existing => existing.id === row.id)
+        ? prev.map(existing => existing.id === row.id ? { ...existing, ...file } : existing)
+        : [...prev, file]);
+    },
+    onFileDeleted: (fileId) => {
+      pendingUploadsRef.current.delete(fileId);
+      setUploadedFiles(prev => prev.filter(file => file.id !== fileId));
+    },
+    onDiagramInserted: (row) => {
+      setLatestDiagram(prev => prev && prev.version >= row.version ? prev : toSessionDiagram(row));
+    },
+  });
+
+  const chatMessages = useMemo(
+    () => conversation.map(message => ({ ...message, branch: branchPosition(message, messageChildren) })),
+    [conversation, messageChildren]
+  );
   const totalSize = uploadedFiles.reduce((sum, file) => sum + file.size, 0);
+  const browsableFiles = useMemo(
+    () => uploadedFiles.filter(file => file.status === 'success').map(({ id, path }) => ({ id, path })),
+    [uploadedFiles]
+  );
   const isProcessing = uploadedFiles.some(file => file.status === 'uploading');
 
   return (
@@ -356,18 +786,27 @@ const Index = () => {
                     />
                     
                     <FileUpload
-                      onFilesUploaded={handleFilesUploaded}
+                      onFilesSelected={handleFilesSelected}
                       uploadedFiles={uploadedFiles}
                       onRemoveFile={handleRemoveFile}
+                      onRetryFile={handleRetryFile}
+                      onBrowseFiles={handleBrowseFiles}
+                      onSearchCode={handleSearchCode}
                     />
                   </div>
 
                   {/* Full Width Visual Playground */}
                   <div className="lg:col-span-4">
                     <VisualPlayground
+                      key={sessionId ?? 'none'}
                       sessionId={sessionId}
                       fileCount={uploadedFiles.length}
+                      files={browsableFiles}
                       user={user}
+                      latestDiagram={latestDiagram}
+                      onDiagramSaved={setLatestDiagram}
+                      onOpenFile={handleBrowseFiles}
+                      onAskAbout={handleAskAbout}
                     />
                   </div>
                 </div>
@@ -386,9 +825,12 @@ const Index = () => {
                   />
                   
                   <FileUpload
-                    onFilesUploaded={handleFilesUploaded}
+                    onFilesSelected={handleFilesSelected}
                     uploadedFiles={uploadedFiles}
                     onRemoveFile={handleRemoveFile}
+                    onRetryFile={handleRetryFile}
+                    onBrowseFiles={handleBrowseFiles}
+                    onSearchCode={handleSearchCode}
                   />
                 </div>
 
@@ -396,9 +838,17 @@ const Index = () => {
                 <div className="lg:col-span-2 min-h-[600px]">
                   <div className="h-full rounded-lg border bg-card shadow-card">
                     <ChatWindow
-                      messages={messages}
+                      messages={chatMessages}
                       onSendMessage={handleSendMessage}
+                      onEditMessage={handleEditMessage}
+                      onRegenerate={handleRegenerate}
+                      onSwitchBranch={handleSwitchBranch}
                       isLoading={isLoading}
+                      streamingMessageId={streamingMessageId}
+                      onStop={handleStopGenerating}
+                      onCitationClick={handleCitationClick}
+                      focus={chatFocus}
+                      onClearFocus={() => setChatFocus(null)}
                       className="h-full"
                     />
                   </div>
@@ -421,6 +871,7 @@ const Index = () => {
                         currentSessionId={sessionId}
                         onSessionSelect={handleSessionSelect}
                         user={user}
+                        refreshKey={sessionsVersion}
                       />
                     </TabsContent>
                      <TabsContent value="settings" className="mt-4">
@@ -458,41 +909,20 @@ const Index = () => {
         )}
       </main>
 
+      <CitationViewer citation={viewedCitation} onClose={() => setViewedCitation(null)} />
+      <CodeBrowser
+        sessionId={sessionId}
+        open={isBrowserOpen}
+        onOpenChange={setIsBrowserOpen}
+        files={browsableFiles}
+        initialFile={browserFile}
+        initialView={browserView}
+        onAsk={handleAskAbout}
+      />
+
       <Footer />
     </div>
   );
 };
 
-// Mock response generator
-function generateMockResponse(question: string, files: UploadedFile[]): string {
-  const hasFiles = files.length > 0;
-  const fileTypes = files.map(f => f.name.split('.').pop()).filter(Boolean);
-  
-  if (!hasFiles) {
-    return "I'd be happy to help you understand your codebase! However, I don't see any files uploaded yet. Please upload your code files first so I can provide specific insights about your project's architecture, dependencies, and structure.";
-  }
-
-  // Generate contextual responses based on question keywords
-  const lowerQuestion = question.toLowerCase();
-  
-  if (lowerQuestion.includes('authentication') || lowerQuestion.includes('auth')) {
-    return `Based on your uploaded files (${files.length} files), I can see you have ${fileTypes.join(', ')} files. For authentication, I'd typically look for:\n\n• Authentication middleware or decorators\n• User models and session management\n• JWT token handling or OAuth configuration\n• Login/logout routes and controllers\n\nLet me analyze your specific files to provide more detailed insights about your authentication flow.`;
-  }
-  
-  if (lowerQuestion.includes('architecture') || lowerQuestion.includes('diagram')) {
-    return `Looking at your uploaded files, I can help explain the architecture! From the ${files.length} files you've uploaded, I can identify:\n\n• **Component Structure**: How your modules are organized\n• **Data Flow**: How information moves through your system\n• **Dependencies**: Key libraries and their relationships\n• **Design Patterns**: Architectural patterns being used\n\nWould you like me to focus on any specific aspect of the architecture?`;
-  }
-  
-  if (lowerQuestion.includes('run') || lowerQuestion.includes('setup') || lowerQuestion.includes('local')) {
-    return `To run this project locally, I'll analyze your configuration files. Based on your uploaded files, here's what I typically look for:\n\n• **Package files**: package.json, requirements.txt, pom.xml\n• **Environment setup**: .env files, config files\n• **Build scripts**: Dockerfile, scripts, build configurations\n• **Documentation**: README files with setup instructions\n\nLet me examine your specific files to provide exact setup instructions for your project.`;
-  }
-  
-  if (lowerQuestion.includes('dependencies') || lowerQuestion.includes('libraries')) {
-    return `I'll analyze the dependencies in your project. From your ${files.length} uploaded files, I can identify:\n\n• **Core Dependencies**: Main libraries and frameworks\n• **Development Tools**: Testing, building, and development utilities\n• **Version Compatibility**: Potential conflicts or outdated packages\n• **Security Considerations**: Known vulnerabilities or recommendations\n\nLet me examine your package files to provide a detailed dependency analysis.`;
-  }
-  
-  // Default response
-  return `Great question! I can see you've uploaded ${files.length} files including ${fileTypes.slice(0, 3).join(', ')}${fileTypes.length > 3 ? ' and more' : ''}.\n\nI'm analyzing your codebase to provide specific insights. Based on the files you've uploaded, I can help you understand:\n\n• Code structure and organization\n• Key components and their relationships\n• Configuration and setup requirements\n• Best practices and potential improvements\n\nFeel free to ask more specific questions about any particular file or aspect of your project!`;
-}
-
 export default Index;
\ No newline at end of file
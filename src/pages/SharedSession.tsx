@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Eye, FolderOpen, Link2Off, Loader2, Network } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Header } from '@/components/Header';
+import { Footer } from '@/components/Footer';
+import { ChatWindow } from '@/components/ChatWindow';
+import { FileTree } from '@/components/FileTree';
+import { FileViewer } from '@/components/FileViewer';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Citation } from '@/lib/citations';
+import { getDiagramKind } from '@/lib/diagrams/diagramKinds';
+import { FileTreeFile, buildFileTree } from '@/lib/fileTree';
+import { renderMermaid } from '@/lib/mermaidConfig';
+import { safeSetInnerHTML } from '@/lib/security';
+import { SharedSession as SharedSessionData, loadSharedFileContent, loadSharedSession } from '@/lib/sessionShares';
+
+interface ViewedFile {
+  fileId: string;
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+let sharedDiagramCounter = 0;
+
+// Read-only view of a session opened through a share link; works without signing in
+const SharedSession = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const [session, setSession] = useState<SharedSessionData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [viewedFile, setViewedFile] = useState<ViewedFile | null>(null);
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [diagramFailed, setDiagramFailed] = useState(false);
+  const diagramRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSession(null);
+    setError(null);
+
+    loadSharedSession(token)
+      .then(shared => {
+        if (!cancelled) setSession(shared);
+      })
+      .catch(loadError => {
+        console.error('Error loading shared session:', loadError);
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to open the shared session');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const diagramCode = session?.diagram?.code;
+  useEffect(() => {
+    if (!diagramCode) return;
+    let cancelled = false;
+    renderMermaid(`shared-mermaid-${++sharedDiagramCounter}`, diagramCode)
+      .then(svg => {
+        if (!cancelled && diagramRef.current) {
+          safeSetInnerHTML(diagramRef.current, svg);
+          setDiagramFailed(false);
+        }
+      })
+      .catch(renderError => {
+        console.error('Mermaid rendering error in shared session:', renderError);
+        if (!cancelled) setDiagramFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [diagramCode]);
+
+  useEffect(() => {
+    if (!viewedFile) return;
+    let cancelled = false;
+    setFileContent(null);
+    setFileError(null);
+
+    loadSharedFileContent(token, viewedFile.fileId)
+      .then(content => {
+        if (!cancelled) setFileContent(content);
+      })
+      .catch(loadError => {
+        console.error('Error loading shared file:', loadError);
+        if (!cancelled) setFileError('This file is no longer available in the session.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, viewedFile]);
+
+  const tree = useMemo(
+    () => buildFileTree((session?.files ?? []).map(({ id, path }) => ({ id, path }))),
+    [session]
+  );
+
+  const toggleFolder = useCallback((path: string) => {
+    setExpandedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  }, []);
+
+  const openFile = useCallback((file: FileTreeFile) => setViewedFile({ fileId: file.id, path: file.path }), []);
+
+  const openCitation = useCallback((citation: Citation) => setViewedFile(citation), []);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header />
+
+      <main className="flex-1 container mx-auto p-4 max-w-7xl">
+        {error ? (
+          <div className="flex flex-col items-center justify-center py-24 text-center space-y-3">
+            <Link2Off className="w-12 h-12 text-muted-foreground" />
+            <h2 className="text-xl font-semibold">This shared session can't be opened</h2>
+            <p className="text-muted-foreground">{error}</p>
+            <a href="/" className="text-primary underline">Go to the assistant</a>
+          </div>
+        ) : !session ? (
+          <div className="flex items-center justify-center gap-2 py-24 text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Loading shared session...
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="bg-card border rounded-lg p-4 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <h2 className="text-xl font-semibold">{session.title}</h2>
+                <Badge variant="secondary" className="gap-1 font-normal">
+                  <Eye className="w-3 h-3" />
+                  Read-only
+                </Badge>
+                {session.tags.map(tag => (
+                  <Badge key={tag} variant="outline" className="font-normal">#{tag}</Badge>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Updated {formatDistanceToNow(session.updatedAt)} ago
+                {session.expiresAt && ` · this link expires ${formatDistanceToNow(session.expiresAt, { addSuffix: true })}`}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+              <Card className="lg:col-span-1 h-fit">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <FolderOpen className="w-4 h-4" />
+                    Files ({session.files.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="max-h-[600px] overflow-y-auto">
+                  {session.files.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No files were uploaded to this session</p>
+                  ) : (
+                    <FileTree
+                      nodes={tree}
+                      expandedFolders={expandedFolders}
+                      onToggleFolder={toggleFolder}
+                      selectedFileId={viewedFile?.fileId}
+                      onSelectFile={openFile}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="lg:col-span-3 space-y-6">
+                <div className="h-[600px] rounded-lg border bg-card shadow-card">
+                  <ChatWindow
+                    messages={session.messages}
+                    isLoading={false}
+                    onCitationClick={openCitation}
+                    className="h-full"
+                  />
+                </div>
+
+                {session.diagram && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        <Network className="w-4 h-4" />
+                        {getDiagramKind(session.diagram.kind)?.label ?? 'Diagram'}
+                        <span className="text-sm font-normal text-muted-foreground">
+                          version {session.diagram.version}
+                        </span>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      {diagramFailed ? (
+                        <pre className="overflow-x-auto rounded-md bg-muted p-3 text-sm">{session.diagram.code}</pre>
+                      ) : (
+                        <div ref={diagramRef} className="overflow-auto max-h-[600px]" />
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+
+      <Dialog open={!!viewedFile} onOpenChange={(open) => !open && setViewedFile(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono text-base break-all">{viewedFile?.path}</DialogTitle>
+            {viewedFile?.startLine !== undefined && (
+              <DialogDescription>
+                {viewedFile.startLine === viewedFile.endLine
+                  ? `Cited line ${viewedFile.startLine}`
+                  : `Cited lines ${viewedFile.startLine}-${viewedFile.endLine}`}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {fileError ? (
+            <p className="text-sm text-destructive">{fileError}</p>
+          ) : fileContent === null ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span className="text-sm">Loading file...</span>
+            </div>
+          ) : (
+            <FileViewer
+              content={fileContent}
+              path={viewedFile?.path}
+              highlightStart={viewedFile?.startLine}
+              highlightEnd={viewedFile?.endLine}
+              className="max-h-[60vh]"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SharedSession;
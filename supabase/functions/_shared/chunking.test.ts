@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { chunkFile } from './chunking.ts';
+
+const filler = (count: number, prefix = '  // ') =>
+  Array.from({ length: count }, (_, index) => `${prefix}line ${index}`);
+
+Deno.test('TypeScript splits at top-level definitions and keeps their leading comments', () => {
+  const content = [
+    "import { x } from './x';",
+    '',
+    '// Loads the keys',
+    'export async function loadKeys() {',
+    ...filler(40),
+    '}',
+    '',
+    'export class KeyStore {',
+    ...filler(40),
+    '}',
+  ].join('\n');
+
+  const chunks = chunkFile('src/keys.ts', content);
+
+  assert.deepEqual(chunks.map(chunk => [chunk.kind, chunk.symbol]), [['function', 'loadKeys'], ['class', 'KeyStore']]);
+  assert.equal(chunks[0].startLine, 1);
+  assert(chunks[0].content.includes('// Loads the keys'));
+  assert.equal(chunks[1].startLine, 47);
+  assert.equal(chunks[1].endLine, 88);
+});
+
+Deno.test('oversized blocks split at nested methods, then into overlapping windows', () => {
+  const content = [
+    'export class Big {',
+    '  first() {',
+    ...filler(100, '    // '),
+    '  }',
+    '  second() {',
+    ...filler(300, '    // '),
+    '  }',
+    '}',
+  ].join('\n');
+
+  const chunks = chunkFile('big.ts', content);
+
+  assert.equal(chunks[0].symbol, 'Big');
+  assert(chunks.some(chunk => chunk.symbol === 'first'));
+  const second = chunks.filter(chunk => chunk.symbol === 'second');
+  assert(second.length > 1);
+  assert(chunks.every(chunk => chunk.endLine - chunk.startLine + 1 <= 120));
+  // Windows overlap so nothing is lost at a cut
+  assert(second[1].startLine <= second[0].endLine);
+});
+
+Deno.test('Markdown splits on headings', () => {
+  const content = [
+    '# Setup',
+    ...filler(50, ''),
+    '## Running tests',
+    ...filler(50, ''),
+  ].join('\n');
+
+  const chunks = chunkFile('README.md', content);
+
+  assert.deepEqual(chunks.map(chunk => [chunk.kind, chunk.symbol, chunk.startLine]), [
+    ['section', 'Setup', 1],
+    ['section', 'Running tests', 52],
+  ]);
+});
+
+Deno.test('small neighbouring definitions are merged and blank files produce no chunks', () => {
+  const content = ['export const a = () => 1;', 'export const b = () => 2;', 'export const c = () => 3;'].join('\n');
+
+  assert.deepEqual(chunkFile('small.ts', content).map(chunk => [chunk.symbol, chunk.startLine, chunk.endLine]), [['a', 1, 3]]);
+  assert.deepEqual(chunkFile('empty.ts', '\n\n'), []);
+});
@@ -0,0 +1,186 @@
+// Split source files into retrieval chunks along language-aware boundaries:
+// top-level functions and classes first, then methods inside oversized blocks,
+// then fixed windows as a last resort. Markdown splits on headings.
+import { Language, detectLanguage } from './codeStructure.ts';
+
+export type ChunkKind = 'function' | 'class' | 'type' | 'section' | 'block';
+
+export interface Chunk {
+  index: number;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  kind: ChunkKind;
+  symbol: string | null;
+  content: string;
+}
+
+interface BoundaryPattern {
+  pattern: RegExp;
+  kind: ChunkKind;
+}
+
+interface Segment {
+  start: number; // 0-based line index, inclusive
+  end: number; // exclusive
+  kind: ChunkKind;
+  symbol: string | null;
+}
+
+const TARGET_LINES = 60;
+const MAX_LINES = 120;
+const WINDOW_OVERLAP = 10;
+
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'else', 'do', 'new', 'sizeof']);
+
+const JS_PATTERNS: BoundaryPattern[] = [
+  { pattern: /^(?:export\s+)?(?:default\s+)?(?:async\s+)?function\*?\s+(\w+)/, kind: 'function' },
+  { pattern: /^(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+(\w+)/, kind: 'class' },
+  { pattern: /^(?:export\s+)?(?:const|let|var)\s+(\w+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)|\w+)\s*(?::[^=]+)?=>/, kind: 'function' },
+  { pattern: /^(?:export\s+)?(?:declare\s+)?(?:interface|type|enum)\s+(\w+)/, kind: 'type' },
+];
+
+const BOUNDARIES: Partial<Record<Language, { topLevel: BoundaryPattern[]; nested: BoundaryPattern[] }>> = {
+  javascript: {
+    topLevel: JS_PATTERNS,
+    nested: [
+      { pattern: /^\s+(?:(?:public|private|protected|static|async|get|set|override|readonly)\s+)*(\w+)\s*\([^)]*\)\s*(?::[^{]+)?\{\s*$/, kind: 'function' },
+      // Handlers inside components, including useCallback/useMemo wrappers
+      { pattern: /^\s+(?:const|let)\s+(\w+)\s*=\s*(?:\w+\()?(?:async\s+)?(?:\([^)]*\)|\w+)\s*(?::[^=]+)?=>/, kind: 'function' },
+    ],
+  },
+  python: {
+    topLevel: [
+      { pattern: /^(?:async\s+)?def\s+(\w+)/, kind: 'function' },
+      { pattern: /^class\s+(\w+)/, kind: 'class' },
+    ],
+    nested: [{ pattern: /^\s+(?:async\s+)?def\s+(\w+)/, kind: 'function' }],
+  },
+  java: {
+    topLevel: [{ pattern: /^(?:(?:public|private|protected|abstract|final|static|sealed)\s+)*(?:class|interface|enum|record)\s+(\w+)/, kind: 'class' }],
+    nested: [
+      { pattern: /^\s+(?:(?:public|private|protected|abstract|final|static)\s+)*(?:class|interface|enum|record)\s+(\w+)/, kind: 'class' },
+      { pattern: /^\s+(?:(?:public|private|protected|static|final|abstract|synchronized|default)\s+)*[\w<>[\],.? ]+\s+(\w+)\s*\([^)]*\)?\s*(?:throws\s+[\w., ]+)?\{?\s*$/, kind: 'function' },
+    ],
+  },
+  cpp: {
+    topLevel: [
+      { pattern: /^(?:template\s*<[^>]*>\s*)?(?:class|struct)\s+(\w+)(?!\s*;)/, kind: 'class' },
+      { pattern: /^[\w:<>,*&~ ]*?[\s*&]([~\w][\w:]*)\s*\([^;]*\)\s*(?:const\s*)?(?:override\s*)?\{?\s*$/, kind: 'function' },
+    ],
+    nested: [{ pattern: /^\s+[\w:<>,*&~ ]*?[\s*&]?([~\w][\w:]*)\s*\([^;]*\)\s*(?:const\s*)?(?:override\s*)?\{\s*$/, kind: 'function' }],
+  },
+  go: {
+    topLevel: [
+      { pattern: /^func\s+(?:\([^)]*\)\s*)?(\w+)/, kind: 'function' },
+      { pattern: /^type\s+(\w+)\s+(?:struct|interface)/, kind: 'class' },
+    ],
+    nested: [],
+  },
+  markdown: {
+    topLevel: [{ pattern: /^#{1,6}\s+(.+?)\s*#*\s*$/, kind: 'section' }],
+    nested: [],
+  },
+};
+BOUNDARIES.typescript = BOUNDARIES.javascript;
+
+// Comments and decorators directly above a definition belong to it
+const LEADING_LINE = /^\s*(?:\/\/|\/\*|\*|#(?!include)|@\w)/;
+
+function matchBoundary(line: string, patterns: BoundaryPattern[]): { kind: ChunkKind; symbol: string } | null {
+  for (const { pattern, kind } of patterns) {
+    const match = line.match(pattern);
+    if (match && !CONTROL_KEYWORDS.has(match[1])) return { kind, symbol: match[1] };
+  }
+  return null;
+}
+
+// Cut [start, end) at every line matching a boundary pattern
+function splitAtBoundaries(
+  lines: string[],
+  start: number,
+  end: number,
+  patterns: BoundaryPattern[],
+  fallback: Omit<Segment, 'start' | 'end'>,
+  language: Language
+): Segment[] {
+  const segments: Segment[] = [];
+  let current: Segment = { start, end, ...fallback };
+
+  for (let i = start; i < end; i++) {
+    const boundary = matchBoundary(lines[i], patterns);
+    if (!boundary) continue;
+
+    let cut = i;
+    if (language !== 'markdown') {
+      while (cut - 1 > current.start && LEADING_LINE.test(lines[cut - 1])) cut--;
+    }
+    if (cut > current.start) {
+      segments.push({ ...current, end: cut });
+      current = { start: cut, end, ...boundary };
+    } else {
+      current = { ...current, ...boundary };
+    }
+  }
+
+  segments.push(current);
+  return segments;
+}
+
+function splitIntoWindows(segment: Segment): Segment[] {
+  const windows: Segment[] = [];
+  for (let start = segment.start; start < segment.end; start += MAX_LINES - WINDOW_OVERLAP) {
+    windows.push({ ...segment, start, end: Math.min(start + MAX_LINES, segment.end) });
+    if (start + MAX_LINES >= segment.end) break;
+  }
+  return windows;
+}
+
+// Greedily join neighbouring small segments so chunks aren't a handful of lines each
+function mergeSmall(segments: Segment[]): Segment[] {
+  const merged: Segment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && segment.end - last.start <= TARGET_LINES && segment.start === last.end) {
+      last.end = segment.end;
+      if (!last.symbol) {
+        last.kind = segment.kind;
+        last.symbol = segment.symbol;
+      }
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+export function chunkFile(fileName: string, content: string): Chunk[] {
+  const language = detectLanguage(fileName);
+  const lines = content.split('\n');
+  const boundaries = BOUNDARIES[language];
+  const whole: Omit<Segment, 'start' | 'end'> = { kind: 'block', symbol: null };
+
+  let segments = boundaries
+    ? splitAtBoundaries(lines, 0, lines.length, boundaries.topLevel, whole, language)
+    : [{ start: 0, end: lines.length, ...whole }];
+
+  segments = segments.flatMap(segment => {
+    if (segment.end - segment.start <= MAX_LINES) return [segment];
+    const nested = boundaries && boundaries.nested.length > 0
+      ? splitAtBoundaries(lines, segment.start, segment.end, boundaries.nested, segment, language)
+      : [segment];
+    return nested.flatMap(part => (part.end - part.start > MAX_LINES ? splitIntoWindows(part) : [part]));
+  });
+
+  return mergeSmall(segments)
+    .map(segment => ({ ...segment, content: lines.slice(segment.start, segment.end).join('\n') }))
+    .filter(segment => segment.content.trim().length > 0)
+    .map((segment, index) => ({
+      index,
+      startLine: segment.start + 1,
+      endLine: segment.end,
+      kind: segment.kind,
+      symbol: segment.symbol,
+      content: segment.content,
+    }));
+}
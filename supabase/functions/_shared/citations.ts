@@ -0,0 +1,56 @@
+// Answers cite sources inline as [path:start-end] (or [path:line]); this turns those
+// markers into structured citations that the client can link back to uploaded files.
+
+export interface Citation {
+  fileId: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface CitableFile {
+  id: string;
+  path: string;
+  lineCount: number;
+}
+
+const CITATION_PATTERN = /\[([^[\]\n:]+):(\d+)(?:\s*-\s*(\d+))?\]/g;
+
+export const CITATION_INSTRUCTIONS =
+  'Cite the lines you rely on inline as [path:start-end] (or [path:line]) using the exact paths and line numbers shown.';
+
+// Prefix each line with its number so the model can cite exact ranges;
+// `firstLine` is where an excerpt starts in its file
+export const numberLines = (content: string, firstLine = 1): string =>
+  content.split('\n').map((line, index) => `${index + firstLine}| ${line}`).join('\n');
+
+export function extractCitations(answer: string, files: CitableFile[]): Citation[] {
+  const byPath = new Map(files.map(file => [file.path, file]));
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const path = match[1].trim().replace(/^`|`$/g, '');
+    // Models sometimes drop leading folders, so fall back to a unique suffix match
+    const file = byPath.get(path) ?? uniqueSuffixMatch(files, path);
+    if (!file) continue;
+
+    let startLine = Number(match[2]);
+    let endLine = Number(match[3] ?? match[2]);
+    if (endLine < startLine) [startLine, endLine] = [endLine, startLine];
+    startLine = Math.min(Math.max(startLine, 1), file.lineCount);
+    endLine = Math.min(Math.max(endLine, startLine), file.lineCount);
+
+    const key = `${file.id}:${startLine}-${endLine}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    citations.push({ fileId: file.id, path: file.path, startLine, endLine });
+  }
+
+  return citations;
+}
+
+function uniqueSuffixMatch(files: CitableFile[], path: string): CitableFile | undefined {
+  const matches = files.filter(file => file.path.endsWith(`/${path}`));
+  return matches.length === 1 ? matches[0] : undefined;
+}
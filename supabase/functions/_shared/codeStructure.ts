@@ -0,0 +1,291 @@
+// Lightweight, regex-based structure extraction for the languages we accept on upload.
+// It is deliberately forgiving: the output feeds prompts and indexes, not a compiler.
+
+export type Language =
+  | 'javascript'
+  | 'typescript'
+  | 'python'
+  | 'java'
+  | 'cpp'
+  | 'go'
+  | 'markdown'
+  | 'json'
+  | 'yaml'
+  | 'text';
+
+export interface FileStructure {
+  language: Language;
+  lineCount: number;
+  imports: string[];
+  exports: string[];
+  classes: string[];
+  functions: string[];
+}
+
+const EXTENSION_LANGUAGES: Record<string, Language> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  java: 'java',
+  c: 'cpp',
+  h: 'cpp',
+  cc: 'cpp',
+  cpp: 'cpp',
+  hpp: 'cpp',
+  go: 'go',
+  md: 'markdown',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+};
+
+export const BINARY_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'ico', 'svg', 'pdf', 'zip', 'gz', 'tgz', 'jar'];
+
+export const getExtension = (fileName: string): string =>
+  fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+
+export const detectLanguage = (fileName: string): Language =>
+  EXTENSION_LANGUAGES[getExtension(fileName)] ?? 'text';
+
+export const isBinaryFile = (fileName: string): boolean =>
+  BINARY_EXTENSIONS.includes(getExtension(fileName));
+
+// Rough token estimate (~4 characters per token) used for prompt budgeting
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const unique = (values: string[]): string[] => [...new Set(values.filter(Boolean))];
+
+const matchAll = (content: string, pattern: RegExp, pick: (match: RegExpExecArray) => string): string[] => {
+  const results: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    results.push(pick(match).trim());
+  }
+  return results;
+};
+
+const compactParams = (params: string): string => params.replace(/\s+/g, ' ').trim();
+
+function extractJavaScript(content: string): Omit<FileStructure, 'language' | 'lineCount'> {
+  const imports = [
+    ...matchAll(content, /^\s*(?:import|export)\s[^'"]*?from\s+['"]([^'"]+)['"]/gm, m => m[1]),
+    ...matchAll(content, /^\s*import\s+['"]([^'"]+)['"]/gm, m => m[1]),
+    ...matchAll(content, /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g, m => m[1]),
+    ...matchAll(content, /\bimport\(\s*['"]([^'"]+)['"]\s*\)/g, m => m[1]),
+  ];
+
+  const exports = [
+    ...matchAll(
+      content,
+      /^\s*export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/gm,
+      m => m[1]
+    ),
+    ...matchAll(content, /^\s*export\s*\{([^}]+)\}/gm, m => m[1])
+      .flatMap(list => list.split(',').map(name => name.trim().split(/\s+as\s+/).pop() ?? '')),
+    ...matchAll(content, /^\s*export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/gm, m => `default (${m[1]})`),
+  ];
+
+  const classes = matchAll(
+    content,
+    /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)(\s+extends\s+[\w$.]+)?(\s+implements\s+[\w$.,\s]+?)?\s*\{/gm,
+    m => `${m[1]}${m[2] ?? ''}${m[3] ? m[3].replace(/\s+/g, ' ') : ''}`
+  );
+
+  const functions = [
+    ...matchAll(
+      content,
+      /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\*?\s+([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\(([^)]*)\)/gm,
+      m => `${m[1]}(${compactParams(m[2])})`
+    ),
+    ...matchAll(
+      content,
+      /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\(([^)]*)\)|([A-Za-z_$][\w$]*))\s*(?::[^=]+)?=>/gm,
+      m => `${m[1]}(${compactParams(m[2] ?? m[3] ?? '')})`
+    ),
+  ];
+
+  return { imports: unique(imports), exports: unique(exports), classes: unique(classes), functions: unique(functions) };
+}
+
+function extractPython(content: string): Omit<FileStructure, 'language' | 'lineCount'> {
+  const imports = [
+    ...matchAll(content, /^\s*import\s+([\w.]+(?:\s*,\s*[\w.]+)*)/gm, m => m[1])
+      .flatMap(list => list.split(',').map(name => name.trim())),
+    ...matchAll(content, /^\s*from\s+([\w.]+)\s+import\s+/gm, m => m[1]),
+  ];
+
+  const allBlock = /__all__\s*=\s*[[(]([^\])]*)[\])]/m.exec(content);
+  const exports = allBlock
+    ? allBlock[1].split(',').map(name => name.trim().replace(/['"]/g, ''))
+    : matchAll(content, /^(?:async\s+)?(?:def|class)\s+([A-Za-z]\w*)/gm, m => m[1]);
+
+  const classes = matchAll(
+    content,
+    /^\s*class\s+(\w+)\s*(?:\(([^)]*)\))?\s*:/gm,
+    m => (m[2] ? `${m[1]}(${compactParams(m[2])})` : m[1])
+  );
+
+  const functions = matchAll(
+    content,
+    /^\s*(?:async\s+)?def\s+(\w+)\s*\(([^)]*)\)/gm,
+    m => `${m[1]}(${compactParams(m[2])})`
+  );
+
+  return { imports: unique(imports), exports: unique(exports), classes: unique(classes), functions: unique(functions) };
+}
+
+function extractJava(content: string): Omit<FileStructure, 'language' | 'lineCount'> {
+  const imports = matchAll(content, /^\s*import\s+(?:static\s+)?([\w.*]+)\s*;/gm, m => m[1]);
+
+  const classes = matchAll(
+    content,
+    /^\s*(?:(?:public|protected|private|abstract|final|static|sealed)\s+)*(class|interface|enum|record)\s+(\w+)(?:<[^>{]*>)?(\s+extends\s+[\w.<>,\s]+?)?(\s+implements\s+[\w.<>,\s]+?)?\s*[({]/gm,
+    m => `${m[1] === 'class' ? '' : `${m[1]} `}${m[2]}${(m[3] ?? '').replace(/\s+/g, ' ')}${(m[4] ?? '').replace(/\s+/g, ' ')}`
+  );
+
+  const exports = matchAll(
+    content,
+    /^\s*public\s+(?:(?:abstract|final|static|sealed)\s+)*(?:class|interface|enum|record)\s+(\w+)/gm,
+    m => m[1]
+  );
+
+  const functions = matchAll(
+    content,
+    /^\s*(?:(?:public|protected|private|static|final|abstract|synchronized|native|default)\s+)+(?:<[^>]+>\s+)?([\w.<>[\],\s]+?)\s+(\w+)\s*\(([^)]*)\)\s*(?:throws\s+[\w.,\s]+)?\s*[{;]/gm,
+    m => `${m[2]}(${compactParams(m[3])}): ${m[1].trim()}`
+  );
+
+  return { imports: unique(imports), exports: unique(exports), classes: unique(classes), functions: unique(functions) };
+}
+
+function extractCpp(content: string): Omit<FileStructure, 'language' | 'lineCount'> {
+  const imports = matchAll(content, /^\s*#\s*include\s*[<"]([^>"]+)[>"]/gm, m => m[1]);
+
+  const classes = matchAll(
+    content,
+    /^\s*(?:template\s*<[^>]*>\s*)?(class|struct)\s+(\w+)\s*(?::\s*([^{]+))?\{/gm,
+    m => `${m[1] === 'struct' ? 'struct ' : ''}${m[2]}${m[3] ? ` : ${m[3].replace(/\s+/g, ' ').trim()}` : ''}`
+  );
+
+  const functions = matchAll(
+    content,
+    /^(?!\s*(?:if|for|while|switch|return|else)\b)\s*(?:[\w:<>,*&~]+\s+)+[*&]?([\w:~]+)\s*\(([^;{)]*)\)\s*(?:const\s*)?(?:override\s*)?\{/gm,
+    m => `${m[1]}(${compactParams(m[2])})`
+  );
+
+  return { imports: unique(imports), exports: [], classes: unique(classes), functions: unique(functions) };
+}
+
+function extractGo(content: string): Omit<FileStructure, 'language' | 'lineCount'> {
+  const importBlocks = matchAll(content, /^import\s*\(([^)]*)\)/gm, m => m[1])
+    .flatMap(block => matchAll(block, /"([^"]+)"/g, m => m[1]));
+  const imports = [...importBlocks, ...matchAll(content, /^import\s+(?:\w+\s+)?"([^"]+)"/gm, m => m[1])];
+
+  const classes = matchAll(content, /^type\s+(\w+)\s+(struct|interface)\b/gm, m => `${m[1]} (${m[2]})`);
+  const functions = matchAll(
+    content,
+    /^func\s+(?:\(([^)]*)\)\s*)?(\w+)\s*\(([^)]*)\)/gm,
+    m => `${m[1] ? `(${compactParams(m[1])}) ` : ''}${m[2]}(${compactParams(m[3])})`
+  );
+  const exports = [
+    ...matchAll(content, /^type\s+([A-Z]\w*)/gm, m => m[1]),
+    ...matchAll(content, /^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)/gm, m => m[1]),
+  ];
+
+  return { imports: unique(imports), exports: unique(exports), classes: unique(classes), functions: unique(functions) };
+}
+
+function extractMarkdown(content: string): Omit<FileStructure, 'language' | 'lineCount'> {
+  const headings = matchAll(content, /^(#{1,3})\s+(.+)$/gm, m => `${'  '.repeat(m[1].length - 1)}${m[2]}`);
+  return { imports: [], exports: headings, classes: [], functions: [] };
+}
+
+function extractJson(fileName: string, content: string): Omit<FileStructure, 'language' | 'lineCount'> {
+  try {
+    const parsed = JSON.parse(content);
+    if (fileName.endsWith('package.json')) {
+      // Declared dependencies are the "imports" of a package manifest
+      const dependencies = Object.keys({ ...parsed.dependencies, ...parsed.devDependencies, ...parsed.peerDependencies });
+      const scripts = Object.keys(parsed.scripts ?? {}).map(script => `script: ${script}`);
+      return { imports: dependencies, exports: [parsed.name, parsed.main].filter(Boolean), classes: [], functions: scripts };
+    }
+    const keys = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? Object.keys(parsed) : [];
+    return { imports: [], exports: keys, classes: [], functions: [] };
+  } catch {
+    return { imports: [], exports: [], classes: [], functions: [] };
+  }
+}
+
+function extractYaml(content: string): Omit<FileStructure, 'language' | 'lineCount'> {
+  const keys = matchAll(content, /^([A-Za-z_][\w.-]*)\s*:/gm, m => m[1]);
+  return { imports: [], exports: unique(keys), classes: [], functions: [] };
+}
+
+export function extractStructure(fileName: string, content: string): FileStructure {
+  const language = detectLanguage(fileName);
+  const lineCount = content.split('\n').length;
+
+  let structure: Omit<FileStructure, 'language' | 'lineCount'>;
+  switch (language) {
+    case 'javascript':
+    case 'typescript':
+      structure = extractJavaScript(content);
+      break;
+    case 'python':
+      structure = extractPython(content);
+      break;
+    case 'java':
+      structure = extractJava(content);
+      break;
+    case 'cpp':
+      structure = extractCpp(content);
+      break;
+    case 'go':
+      structure = extractGo(content);
+      break;
+    case 'markdown':
+      structure = extractMarkdown(content);
+      break;
+    case 'json':
+      structure = extractJson(fileName, content);
+      break;
+    case 'yaml':
+      structure = extractYaml(content);
+      break;
+    default:
+      structure = { imports: [], exports: [], classes: [], functions: [] };
+  }
+
+  return { language, lineCount, ...structure };
+}
+
+// Render a structure as a compact prompt block, capping each list at `maxItems` entries.
+// Returns whether anything had to be dropped so callers can report truncation.
+export function formatStructure(
+  fileName: string,
+  structure: FileStructure,
+  maxItems = Infinity
+): { text: string; truncated: boolean } {
+  let truncated = false;
+  const section = (label: string, items: string[]) => {
+    if (items.length === 0) return null;
+    const shown = items.slice(0, maxItems);
+    if (shown.length < items.length) truncated = true;
+    const more = items.length > shown.length ? `, ... (+${items.length - shown.length} more)` : '';
+    return `  ${label}: ${shown.join(', ')}${more}`;
+  };
+
+  const lines = [
+    `- ${fileName} (${structure.language}, ${structure.lineCount} lines)`,
+    section('imports', structure.imports),
+    section('exports', structure.exports),
+    section('classes', structure.classes),
+    section('functions', structure.functions),
+  ].filter((line): line is string => line !== null);
+
+  return { text: lines.join('\n'), truncated };
+}
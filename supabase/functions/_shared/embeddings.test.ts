@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { EMBEDDING_DIMENSIONS, createLocalEmbedder, resolveEmbedder } from './embeddings.ts';
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+Deno.test('local embedder returns the same unit vector for the same text', async () => {
+  const text = 'export async function loadUserApiKeys(userId: string) {}';
+  const [first] = await createLocalEmbedder().embed([text]);
+  const [second] = await createLocalEmbedder().embed([text]);
+
+  assert.equal(first.length, EMBEDDING_DIMENSIONS);
+  assert.deepEqual(first, second);
+  assert(Math.abs(Math.hypot(...first) - 1) < 1e-9);
+});
+
+Deno.test('local embedder ranks text sharing identifier parts above unrelated text', async () => {
+  const [question, related, unrelated] = await createLocalEmbedder().embed([
+    'where are the user api keys loaded',
+    'const loadUserApiKeys = async () => supabase.from("user_api_keys").select()',
+    'function renderMermaidDiagram(svg) { return svg; }',
+  ]);
+
+  assert(dot(question, related) > dot(question, unrelated));
+  assert.notDeepEqual(related, unrelated);
+});
+
+Deno.test('local embedder gives empty text a zero vector instead of NaN', async () => {
+  const [vector] = await createLocalEmbedder().embed(['']);
+  assert(vector.every(value => value === 0));
+});
+
+Deno.test('EMBEDDING_PROVIDER=local wins over an OpenAI key', () => {
+  Deno.env.set('EMBEDDING_PROVIDER', 'local');
+  try {
+    assert.equal(resolveEmbedder({ openai: 'sk-test' }).model, 'local-hash-v1');
+  } finally {
+    Deno.env.delete('EMBEDDING_PROVIDER');
+  }
+});
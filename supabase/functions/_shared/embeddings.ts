@@ -0,0 +1,91 @@
+// Embeddings for retrieval. OpenAI when a key is available; otherwise a deterministic
+// feature-hashing embedder that needs no network, so ingestion and search run offline.
+import { postJson } from './llm/http.ts';
+import type { UserApiKeys } from './llm/index.ts';
+
+// Must match the vector column in the file_chunks migration
+export const EMBEDDING_DIMENSIONS = 1536;
+const OPENAI_BATCH_SIZE = 96;
+
+export interface Embedder {
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export function createOpenAIEmbedder(apiKey: string, model = 'text-embedding-3-small'): Embedder {
+  return {
+    model,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+        const response = await postJson(
+          'https://api.openai.com/v1/embeddings',
+          { 'Authorization': `Bearer ${apiKey}` },
+          { model, input: texts.slice(i, i + OPENAI_BATCH_SIZE), dimensions: EMBEDDING_DIMENSIONS },
+          { provider: 'openai' }
+        );
+        const data = await response.json();
+        const batch: { index: number; embedding: number[] }[] = data.data;
+        vectors.push(...batch.sort((a, b) => a.index - b.index).map(item => item.embedding));
+      }
+      return vectors;
+    },
+  };
+}
+
+// 32-bit FNV-1a
+const hash = (text: string): number => {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+};
+
+// Identifiers count both whole and split on camelCase/snake_case, so `loadUserApiKeys`
+// also matches a question about "user api keys"
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const identifier of text.match(/[A-Za-z_][A-Za-z0-9_]*|\d+/g) ?? []) {
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1);
+    tokens.push(...parts);
+    if (parts.length > 1) tokens.push(identifier.toLowerCase());
+  }
+  return tokens;
+};
+
+export function createLocalEmbedder(): Embedder {
+  const embedOne = (text: string): number[] => {
+    const counts = new Map<string, number>();
+    tokenize(text).forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    counts.forEach((count, token) => {
+      const bucket = hash(token);
+      // A second hash picks the sign so collisions tend to cancel out
+      const sign = hash(`#${token}`) & 1 ? 1 : -1;
+      vector[bucket % EMBEDDING_DIMENSIONS] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.hypot(...vector) || 1;
+    return vector.map(value => value / norm);
+  };
+
+  return {
+    model: 'local-hash-v1',
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+// EMBEDDING_PROVIDER=local forces the offline embedder, e.g. for tests
+export function resolveEmbedder(userApiKeys?: UserApiKeys): Embedder {
+  if (Deno.env.get('EMBEDDING_PROVIDER') === 'local') return createLocalEmbedder();
+  const apiKey = userApiKeys?.openai || Deno.env.get('OPENAI_API_KEY');
+  return apiKey ? createOpenAIEmbedder(apiKey) : createLocalEmbedder();
+}
@@ -0,0 +1,63 @@
+import { LlmError } from './errors.ts';
+import { postJson, readServerSentEvents, parseJson } from './http.ts';
+import { estimateRequestTokens } from './tokens.ts';
+import type { CompletionRequest, LlmProvider, ProviderOptions } from './types.ts';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_CLAUDE_MODEL = 'claude-3-5-sonnet-20241022';
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 2000;
+
+export function createAnthropicProvider(options: ProviderOptions): LlmProvider {
+  const name = 'claude';
+  const baseUrl = (options.baseUrl ?? ANTHROPIC_BASE_URL).replace(/\/$/, '');
+  const model = options.model ?? DEFAULT_CLAUDE_MODEL;
+  const headers = {
+    'x-api-key': options.apiKey ?? '',
+    'anthropic-version': ANTHROPIC_VERSION,
+  };
+
+  const send = (request: CompletionRequest, stream: boolean) =>
+    postJson(`${baseUrl}/messages`, headers, {
+      model,
+      system: request.system,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream,
+    }, { provider: name, timeoutMs: options.timeoutMs, maxRetries: options.maxRetries, signal: request.signal });
+
+  return {
+    name,
+    model,
+
+    async complete(request) {
+      const data = await (await send(request, false)).json();
+      const blocks: { type: string; text?: string }[] = data.content ?? [];
+      const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+      if (!text) {
+        throw new LlmError(name, 'invalid_response', `response contained no text (${data.stop_reason ?? 'unknown reason'})`);
+      }
+      return { text: text.trim(), provider: name, model };
+    },
+
+    async *stream(request) {
+      const response = await send(request, true);
+      for await (const data of readServerSentEvents(response)) {
+        const event = parseJson(name, data);
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield event.delta.text;
+        } else if (event.type === 'error') {
+          // Errors after the stream has started arrive as events, not status codes
+          const kind = event.error?.type === 'overloaded_error' ? 'unavailable' : 'invalid_response';
+          throw new LlmError(name, kind, event.error?.message ?? 'stream error');
+        } else if (event.type === 'message_stop') {
+          return;
+        }
+      }
+    },
+
+    countTokens: estimateRequestTokens,
+  };
+}
@@ -0,0 +1,69 @@
+export type LlmErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'bad_request'
+  | 'unavailable'
+  | 'timeout'
+  | 'cancelled'
+  | 'invalid_response';
+
+const RETRYABLE_KINDS: LlmErrorKind[] = ['rate_limit', 'unavailable', 'timeout'];
+
+// One error type for every provider so callers can branch on `kind` instead of vendor payloads
+export class LlmError extends Error {
+  readonly kind: LlmErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    provider: string,
+    kind: LlmErrorKind,
+    message: string,
+    options: { status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'LlmError';
+    this.provider = provider;
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+const kindForStatus = (status: number): LlmErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 408) return 'timeout';
+  // 529 is Anthropic's "overloaded"
+  if (status >= 500) return 'unavailable';
+  return 'bad_request';
+};
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Build an LlmError from a non-2xx response, keeping the vendor's message when there is one
+export async function errorFromResponse(provider: string, response: Response): Promise<LlmError> {
+  let detail = response.statusText;
+  try {
+    const body = await response.json();
+    detail = body?.error?.message ?? body?.message ?? detail;
+  } catch {
+    // Not JSON; the status text will do
+  }
+
+  return new LlmError(provider, kindForStatus(response.status), `${response.status} ${detail}`.trim(), {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  });
+}
@@ -0,0 +1,64 @@
+import { LlmError } from './errors.ts';
+import { postJson, readServerSentEvents, parseJson } from './http.ts';
+import { estimateRequestTokens } from './tokens.ts';
+import type { CompletionRequest, LlmProvider, ProviderOptions } from './types.ts';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-pro';
+
+interface GeminiCandidate {
+  content?: { parts?: { text?: string }[] };
+  finishReason?: string;
+}
+
+const candidateText = (candidate?: GeminiCandidate) =>
+  (candidate?.content?.parts ?? []).map(part => part.text ?? '').join('');
+
+export function createGeminiProvider(options: ProviderOptions): LlmProvider {
+  const name = 'google';
+  const baseUrl = (options.baseUrl ?? GEMINI_BASE_URL).replace(/\/$/, '');
+  const model = options.model ?? DEFAULT_GEMINI_MODEL;
+  const headers = { 'x-goog-api-key': options.apiKey ?? '' };
+
+  const send = (request: CompletionRequest, stream: boolean) =>
+    postJson(
+      `${baseUrl}/models/${model}:${stream ? 'streamGenerateContent?alt=sse' : 'generateContent'}`,
+      headers,
+      {
+        systemInstruction: request.system ? { parts: [{ text: request.system }] } : undefined,
+        // Gemini calls the assistant role "model"
+        contents: request.messages.map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }],
+        })),
+        generationConfig: { temperature: request.temperature, maxOutputTokens: request.maxTokens },
+      },
+      { provider: name, timeoutMs: options.timeoutMs, maxRetries: options.maxRetries, signal: request.signal }
+    );
+
+  return {
+    name,
+    model,
+
+    async complete(request) {
+      const data = await (await send(request, false)).json();
+      const candidate: GeminiCandidate | undefined = data.candidates?.[0];
+      const text = candidateText(candidate).trim();
+      if (!text) {
+        // Safety filters return a candidate with no text rather than an error status
+        throw new LlmError(name, 'invalid_response', `response contained no text (${candidate?.finishReason ?? 'unknown reason'})`);
+      }
+      return { text, provider: name, model };
+    },
+
+    async *stream(request) {
+      const response = await send(request, true);
+      for await (const data of readServerSentEvents(response)) {
+        const text = candidateText(parseJson(name, data).candidates?.[0]);
+        if (text) yield text;
+      }
+    },
+
+    countTokens: estimateRequestTokens,
+  };
+}
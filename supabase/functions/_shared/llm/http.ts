@@ -0,0 +1,96 @@
+import { LlmError, errorFromResponse } from './errors.ts';
+
+export const DEFAULT_TIMEOUT_MS = 60000;
+export const DEFAULT_MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+
+interface RequestOptions {
+  provider: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// POST JSON with a per-attempt timeout, retrying rate limits, 5xx and timeouts with backoff.
+// Resolves once response headers arrive, so streamed bodies are not covered by the retry.
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  { provider, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES, signal }: RequestOptions
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new LlmError(provider, 'cancelled', 'request cancelled');
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
+    let error: LlmError;
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+      if (response.ok) return response;
+      error = await errorFromResponse(provider, response);
+    } catch (cause) {
+      if (cause instanceof LlmError) throw cause;
+      if (signal?.aborted) throw new LlmError(provider, 'cancelled', 'request cancelled');
+      error = controller.signal.aborted
+        ? new LlmError(provider, 'timeout', `no response within ${timeoutMs}ms`)
+        : new LlmError(provider, 'unavailable', cause instanceof Error ? cause.message : String(cause));
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (!error.retryable || attempt >= maxRetries) throw error;
+    const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt;
+    await sleep(Math.min(error.retryAfterMs ?? backoff, MAX_RETRY_DELAY_MS));
+  }
+}
+
+// Yield the `data:` payload of each server-sent event in a streamed response
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary: number;
+      while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield data;
+      }
+    }
+  } finally {
+    // Also closes the connection when the consumer stops reading early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+export const parseJson = (provider: string, data: string) => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new LlmError(provider, 'invalid_response', 'malformed JSON in response');
+  }
+};
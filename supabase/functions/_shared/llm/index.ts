@@ -0,0 +1,112 @@
+// Shared LLM access for edge functions: one provider interface with the same
+// timeout, retry and error mapping behaviour regardless of vendor.
+import { LlmError } from './errors.ts';
+import { createOpenAIProvider, createOpenAICompatibleProvider } from './openai.ts';
+import { createAnthropicProvider } from './anthropic.ts';
+import { createGeminiProvider } from './gemini.ts';
+import type { CompletionRequest, CompletionResult, LlmProvider, ProviderName } from './types.ts';
+
+export * from './types.ts';
+export { LlmError } from './errors.ts';
+export type { LlmErrorKind } from './errors.ts';
+export { createOpenAIProvider, createOpenAICompatibleProvider } from './openai.ts';
+export { createAnthropicProvider } from './anthropic.ts';
+export { createGeminiProvider } from './gemini.ts';
+export { estimateRequestTokens } from './tokens.ts';
+
+export const DEFAULT_PROVIDER_ORDER: ProviderName[] = ['openai', 'claude', 'google', 'local'];
+
+export type UserApiKeys = Partial<Record<'openai' | 'claude' | 'google', string>>;
+
+// Build the provider for `name` from the user's keys or the function's secrets,
+// or null when it isn't configured. Models can be overridden per deployment.
+export function createProvider(name: ProviderName, userApiKeys?: UserApiKeys): LlmProvider | null {
+  switch (name) {
+    case 'openai': {
+      const apiKey = userApiKeys?.openai || Deno.env.get('OPENAI_API_KEY');
+      return apiKey ? createOpenAIProvider({ apiKey, model: Deno.env.get('OPENAI_MODEL') }) : null;
+    }
+    case 'claude': {
+      const apiKey = userApiKeys?.claude || Deno.env.get('CLAUDE_API_KEY');
+      return apiKey ? createAnthropicProvider({ apiKey, model: Deno.env.get('CLAUDE_MODEL') }) : null;
+    }
+    case 'google': {
+      const apiKey = userApiKeys?.google || Deno.env.get('GOOGLE_AI_API_KEY');
+      return apiKey ? createGeminiProvider({ apiKey, model: Deno.env.get('GEMINI_MODEL') }) : null;
+    }
+    case 'local': {
+      // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8000/v1 for vLLM
+      const baseUrl = Deno.env.get('LOCAL_LLM_BASE_URL');
+      const model = Deno.env.get('LOCAL_LLM_MODEL');
+      if (!baseUrl || !model) return null;
+      return createOpenAICompatibleProvider('local', {
+        baseUrl,
+        model,
+        apiKey: Deno.env.get('LOCAL_LLM_API_KEY'),
+        // Local models are slow to load on first use
+        timeoutMs: 180000,
+      });
+    }
+    default:
+      return null;
+  }
+}
+
+// Providers that are configured, in the caller's preferred order; unknown names are ignored
+// and any provider left out of the requested order is still tried after the listed ones
+export function resolveProviders(userApiKeys?: UserApiKeys, providerOrder?: unknown): LlmProvider[] {
+  const requested = Array.isArray(providerOrder)
+    ? providerOrder.filter((name): name is ProviderName => DEFAULT_PROVIDER_ORDER.includes(name))
+    : [];
+
+  return [...new Set([...requested, ...DEFAULT_PROVIDER_ORDER])]
+    .map(name => createProvider(name, userApiKeys))
+    .filter((provider): provider is LlmProvider => provider !== null);
+}
+
+// Try each provider in turn until one answers; only a cancelled request stops the chain
+export async function completeWithFallback(
+  providers: LlmProvider[],
+  request: CompletionRequest
+): Promise<CompletionResult> {
+  let lastError: unknown = new Error('No AI providers configured');
+  for (const provider of providers) {
+    try {
+      console.log(`Using ${provider.name} (${provider.model})...`);
+      return await provider.complete(request);
+    } catch (error) {
+      console.error(`${provider.name} failed:`, error);
+      lastError = error;
+      if (error instanceof LlmError && error.kind === 'cancelled') break;
+    }
+  }
+  throw lastError;
+}
+
+// Streaming counterpart of completeWithFallback. A provider only counts as answering
+// once its first chunk arrives; after that, failures surface to the caller instead.
+export async function streamWithFallback(
+  providers: LlmProvider[],
+  request: CompletionRequest
+): Promise<{ provider: string; model: string; chunks: AsyncIterable<string> }> {
+  let lastError: unknown = new Error('No AI providers configured');
+  for (const provider of providers) {
+    const iterator = provider.stream(request)[Symbol.asyncIterator]();
+    try {
+      console.log(`Streaming with ${provider.name} (${provider.model})...`);
+      const first = await iterator.next();
+      const chunks = async function* () {
+        if (first.done) return;
+        yield first.value;
+        // Resume the same iterator so the upstream request isn't repeated
+        yield* { [Symbol.asyncIterator]: () => iterator };
+      };
+      return { provider: provider.name, model: provider.model, chunks: chunks() };
+    } catch (error) {
+      console.error(`${provider.name} failed:`, error);
+      lastError = error;
+      if (error instanceof LlmError && error.kind === 'cancelled') break;
+    }
+  }
+  throw lastError;
+}
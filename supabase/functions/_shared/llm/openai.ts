@@ -0,0 +1,56 @@
+import { LlmError } from './errors.ts';
+import { postJson, readServerSentEvents, parseJson } from './http.ts';
+import { estimateRequestTokens } from './tokens.ts';
+import type { CompletionRequest, LlmProvider, ProviderOptions } from './types.ts';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
+
+const toMessages = ({ system, messages }: CompletionRequest) => [
+  ...(system ? [{ role: 'system', content: system }] : []),
+  ...messages,
+];
+
+// Chat Completions API; also used for local servers (Ollama, vLLM) that mimic it
+export function createOpenAICompatibleProvider(name: string, options: ProviderOptions): LlmProvider {
+  const baseUrl = (options.baseUrl ?? OPENAI_BASE_URL).replace(/\/$/, '');
+  const model = options.model ?? DEFAULT_OPENAI_MODEL;
+  const headers: Record<string, string> = options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {};
+
+  const send = (request: CompletionRequest, stream: boolean) =>
+    postJson(`${baseUrl}/chat/completions`, headers, {
+      model,
+      messages: toMessages(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      stream,
+    }, { provider: name, timeoutMs: options.timeoutMs, maxRetries: options.maxRetries, signal: request.signal });
+
+  return {
+    name,
+    model,
+
+    async complete(request) {
+      const data = await (await send(request, false)).json();
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new LlmError(name, 'invalid_response', 'response contained no message');
+      }
+      return { text: text.trim(), provider: name, model };
+    },
+
+    async *stream(request) {
+      const response = await send(request, true);
+      for await (const data of readServerSentEvents(response)) {
+        if (data === '[DONE]') return;
+        const delta = parseJson(name, data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+
+    countTokens: estimateRequestTokens,
+  };
+}
+
+export const createOpenAIProvider = (options: ProviderOptions) =>
+  createOpenAICompatibleProvider('openai', options);
@@ -0,0 +1,9 @@
+import { estimateTokens } from '../codeStructure.ts';
+import type { CompletionRequest } from './types.ts';
+
+// Rough per-message framing overhead shared by the chat APIs
+const TOKENS_PER_MESSAGE = 4;
+
+export const estimateRequestTokens = ({ system, messages }: CompletionRequest): number =>
+  estimateTokens(system ?? '') +
+  messages.reduce((total, message) => total + estimateTokens(message.content) + TOKENS_PER_MESSAGE, 0);
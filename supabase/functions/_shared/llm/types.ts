@@ -0,0 +1,39 @@
+export type ProviderName = 'openai' | 'claude' | 'google' | 'local';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  system?: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Lets callers cancel, e.g. when the client disconnects mid-stream
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+export interface LlmProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields text deltas as they arrive
+  stream(request: CompletionRequest): AsyncIterable<string>;
+  // Approximate; used for budgeting prompts, not billing
+  countTokens(request: CompletionRequest): number;
+}
+
+export interface ProviderOptions {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
@@ -0,0 +1,30 @@
+// A session answers from the files uploaded to it and from the workspace codebases attached
+// to it. Codebase files, chunks and symbols carry codebase_id instead of session_id.
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Session ids end up inside filter strings, where a `,` or `)` would add filter terms
+export const isUuid = (value: unknown): value is string => typeof value === 'string' && UUID_PATTERN.test(value);
+
+// PostgREST `or` filter matching rows of uploaded_files, file_chunks or file_symbols that
+// belong to the session. Callers answer 400 for ids that aren't UUIDs before getting here.
+export async function sessionSourceFilter(supabase: SupabaseClient, sessionId: string): Promise<string> {
+  if (!isUuid(sessionId)) {
+    throw new Error('Session ID must be a UUID');
+  }
+
+  const { data, error } = await supabase
+    .from('session_codebases')
+    .select('codebase_id')
+    .eq('session_id', sessionId);
+
+  if (error) {
+    throw new Error(`Failed to load attached codebases: ${error.message}`);
+  }
+
+  const codebaseIds = (data ?? []).map(row => row.codebase_id as string);
+  return codebaseIds.length > 0
+    ? `session_id.eq.${sessionId},codebase_id.in.(${codebaseIds.join(',')})`
+    : `session_id.eq.${sessionId}`;
+}
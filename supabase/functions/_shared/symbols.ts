@@ -0,0 +1,174 @@
+// Symbol index for "where is X defined?" searches: one entry per function, class,
+// type or exported name, with the line it is declared on. Like codeStructure.ts this
+// is regex-based and line-oriented, so it favours recall over precision.
+import { Language, detectLanguage } from './codeStructure.ts';
+
+export type SymbolKind = 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
+export interface CodeSymbol {
+  name: string;
+  kind: SymbolKind;
+  // 1-based line of the declaration
+  line: number;
+  exported: boolean;
+  signature: string;
+}
+
+interface SymbolPattern {
+  pattern: RegExp;
+  // Capture group holding the name
+  nameGroup: number;
+  kind: SymbolKind | ((match: RegExpMatchArray) => SymbolKind);
+  exported: (match: RegExpMatchArray, name: string) => boolean;
+}
+
+const MAX_SIGNATURE_CHARS = 200;
+
+const CONTROL_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'else', 'do', 'new', 'sizeof', 'function', 'constructor',
+]);
+
+const hasExport = (match: RegExpMatchArray) => /\bexport\b/.test(match[0]);
+
+const JS_PATTERNS: SymbolPattern[] = [
+  {
+    pattern: /^\s*(export\s+)?(?:default\s+)?(?:async\s+)?function\*?\s+([A-Za-z_$][\w$]*)/,
+    nameGroup: 2,
+    kind: 'function',
+    exported: hasExport,
+  },
+  {
+    pattern: /^\s*(export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/,
+    nameGroup: 2,
+    kind: 'class',
+    exported: hasExport,
+  },
+  {
+    pattern: /^\s*(export\s+)?(?:declare\s+)?(interface|type|enum)\s+([A-Za-z_$][\w$]*)/,
+    nameGroup: 3,
+    kind: match => (match[2] === 'type' ? 'type' : match[2] as SymbolKind),
+    exported: hasExport,
+  },
+  {
+    // Arrow functions, including ones wrapped in useCallback/useMemo or with parameters on the next lines
+    pattern: /^\s*(export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:use\w*\()?(?:async\s+)?(?:\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>|\(\s*$)/,
+    nameGroup: 2,
+    kind: 'function',
+    exported: hasExport,
+  },
+  {
+    pattern: /^(export\s+)(?:const|let|var)\s+([A-Za-z_$][\w$]*)/,
+    nameGroup: 2,
+    kind: 'variable',
+    exported: () => true,
+  },
+  {
+    pattern: /^\s+(?:(?:public|private|protected|static|async|get|set|override|readonly)\s+)*([A-Za-z_$][\w$]*)\s*\([^)]*\)\s*(?::[^{]+)?\{\s*$/,
+    nameGroup: 1,
+    kind: 'method',
+    exported: () => false,
+  },
+];
+
+const PATTERNS: Partial<Record<Language, SymbolPattern[]>> = {
+  javascript: JS_PATTERNS,
+  typescript: JS_PATTERNS,
+  python: [
+    {
+      pattern: /^(\s*)(?:async\s+)?def\s+(\w+)/,
+      nameGroup: 2,
+      kind: match => (match[1] ? 'method' : 'function'),
+      exported: (match, name) => !match[1] && !name.startsWith('_'),
+    },
+    {
+      pattern: /^(\s*)class\s+(\w+)/,
+      nameGroup: 2,
+      kind: 'class',
+      exported: (match, name) => !match[1] && !name.startsWith('_'),
+    },
+  ],
+  java: [
+    {
+      pattern: /^\s*((?:(?:public|protected|private|abstract|final|static|sealed)\s+)*)(class|interface|enum|record)\s+(\w+)/,
+      nameGroup: 3,
+      kind: match => (match[2] === 'interface' ? 'interface' : match[2] === 'enum' ? 'enum' : 'class'),
+      exported: match => /\bpublic\b/.test(match[1]),
+    },
+    {
+      pattern: /^\s+((?:(?:public|private|protected|static|final|abstract|synchronized|default)\s+)*)[\w<>[\],.? ]+\s+(\w+)\s*\([^)]*\)?\s*(?:throws\s+[\w., ]+)?\{?\s*$/,
+      nameGroup: 2,
+      kind: 'method',
+      exported: match => /\bpublic\b/.test(match[1]),
+    },
+  ],
+  go: [
+    {
+      pattern: /^func\s+(\([^)]*\)\s*)?(\w+)/,
+      nameGroup: 2,
+      kind: match => (match[1] ? 'method' : 'function'),
+      exported: (_, name) => /^[A-Z]/.test(name),
+    },
+    {
+      pattern: /^type\s+(\w+)\s+(struct|interface)?/,
+      nameGroup: 1,
+      kind: match => (match[2] === 'interface' ? 'interface' : match[2] === 'struct' ? 'class' : 'type'),
+      exported: (_, name) => /^[A-Z]/.test(name),
+    },
+  ],
+  cpp: [
+    {
+      pattern: /^\s*(?:template\s*<[^>]*>\s*)?(class|struct|enum(?:\s+class)?)\s+(\w+)(?!\s*;)/,
+      nameGroup: 2,
+      kind: match => (match[1].startsWith('enum') ? 'enum' : 'class'),
+      exported: () => true,
+    },
+    {
+      pattern: /^[\w:<>,*&~ ]*?[\s*&]([~\w][\w:]*)\s*\([^;]*\)\s*(?:const\s*)?(?:override\s*)?\{?\s*$/,
+      nameGroup: 1,
+      kind: match => (match[1].includes('::') ? 'method' : 'function'),
+      exported: () => true,
+    },
+  ],
+};
+
+// Names listed in `export { a, b as c }` are exported even though declared without `export`
+const collectExportLists = (content: string): Set<string> => {
+  const names = new Set<string>();
+  for (const match of content.matchAll(/^\s*export\s*\{([^}]+)\}/gm)) {
+    for (const entry of match[1].split(',')) {
+      const name = entry.trim().split(/\s+as\s+/)[0].trim();
+      if (name) names.add(name);
+    }
+  }
+  const defaultExport = content.match(/^\s*export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/m);
+  if (defaultExport) names.add(defaultExport[1]);
+  return names;
+};
+
+export function extractSymbols(fileName: string, content: string): CodeSymbol[] {
+  const language = detectLanguage(fileName);
+  const patterns = PATTERNS[language];
+  if (!patterns) return [];
+
+  const exportLists = language === 'javascript' || language === 'typescript' ? collectExportLists(content) : new Set<string>();
+  const symbols: CodeSymbol[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    for (const { pattern, nameGroup, kind, exported } of patterns) {
+      const match = line.match(pattern);
+      const name = match?.[nameGroup];
+      if (!match || !name || CONTROL_KEYWORDS.has(name)) continue;
+
+      symbols.push({
+        name,
+        kind: typeof kind === 'function' ? kind(match) : kind,
+        line: index + 1,
+        exported: exported(match, name) || exportLists.has(name),
+        signature: line.trim().replace(/\s*\{\s*$/, '').slice(0, MAX_SIGNATURE_CHARS),
+      });
+      break;
+    }
+  });
+
+  return symbols;
+}
@@ -1,12 +1,161 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { extractStructure, formatStructure, estimateTokens, isBinaryFile } from '../_shared/codeStructure.ts';
+import { resolveProviders, completeWithFallback } from '../_shared/llm/index.ts';
+import { isUuid, sessionSourceFilter } from '../_shared/sessionSources.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const STORAGE_BUCKET = 'uploaded-files';
+const SUMMARY_TOKEN_BUDGET = 6000; // Leaves room for the instructions and the diagram itself
+const MAX_FILE_SUMMARY_TOKENS = 600;
+const MAX_ITEMS_PER_SECTION = 15;
+
+const ENTRY_FILE_MAX_CHARS = 16000; // About 4000 tokens of the sequence diagram's entry point
+
+const SYSTEM_PROMPT = 'You are an expert software architect who creates clear, comprehensive Mermaid diagrams for codebase analysis.';
+
+// Diagram kinds drawn by the AI; the other kinds offered in the playground are built in the browser
+type AiDiagramKind = 'architecture' | 'sequence' | 'c4_context' | 'c4_container';
+
+interface EntryPoint {
+  path: string;
+  // Optional function or method to start from
+  symbol?: string;
+}
+
+const DIAGRAM_INSTRUCTIONS: Record<AiDiagramKind, (entry?: EntryPoint) => string> = {
+  architecture: () => `create a comprehensive Mermaid diagram that shows:
+
+1. The overall architecture and data flow
+2. Component relationships and dependencies  
+3. Main modules and their interactions
+4. Database/storage connections if applicable
+
+Base the edges on the actual imports listed below rather than guessing from file names.
+
+Use flowchart syntax (flowchart TD or flowchart LR) that clearly shows:
+- Main components/modules
+- Data flow between components
+- External dependencies
+- Database or API connections
+- User interactions
+
+Include meaningful labels and relationships.
+
+For every node that stands for a single file, add a comment line \`%% file: <nodeId> <path>\` with the node's id and the file's path exactly as listed below.`,
+
+  sequence: (entry) => `create a Mermaid sequence diagram (sequenceDiagram) of what happens when ${entry?.symbol ? `\`${entry.symbol}\` in ${entry.path}` : entry?.path} runs.
+
+- Use the full source of the entry point below and the structural summary of the other files to follow the calls
+- Participants are the modules, classes, services and external systems involved, declared in the order they are first called
+- Show requests with ->> and responses with -->>, and use alt/opt/loop blocks for branches, error handling and retries
+- Only include calls you can see in the code; add a Note where the flow leaves the uploaded files`,
+
+  c4_context: () => `create a C4 system context diagram using Mermaid's C4Context syntax.
+
+- Show the system as one System(), the people who use it as Person(), and every external service, API or database it talks to as System_Ext() or SystemDb_Ext()
+- Connect them with Rel(from, to, "label", "technology")
+- Infer users and external systems from the imports, API clients, environment variables and SDKs in the summary
+- Add a title line`,
+
+  c4_container: () => `create a C4 container diagram using Mermaid's C4Container syntax.
+
+- Put the system's deployable parts (web apps, APIs, serverless functions, workers, databases, storage buckets) inside a System_Boundary() as Container(), ContainerDb() or ContainerQueue() with their technology
+- Show people as Person() and external services as System_Ext() outside the boundary
+- Connect them with Rel(from, to, "label", "technology")
+- Derive containers from the directory layout, entry points and clients in the summary
+- Add a title line`,
+};
+
+const isAiDiagramKind = (kind: unknown): kind is AiDiagramKind =>
+  typeof kind === 'string' && Object.prototype.hasOwnProperty.call(DIAGRAM_INSTRUCTIONS, kind);
+
+// Pull the `%% file:` comments out of the diagram into a node id -> path map, keeping
+// only paths that exist in the session so the client never links to a made-up file
+function extractNodeFiles(code: string, knownPaths: Set<string>): { code: string; nodeFiles: Record<string, string> } {
+  const nodeFiles: Record<string, string> = {};
+  const cleaned = code.replace(/^[ \t]*%%[ \t]*file:[ \t]*(\S+)[ \t]+(.+?)[ \t]*(?:\r?\n|$)/gm, (_, nodeId: string, path: string) => {
+    if (knownPaths.has(path)) nodeFiles[nodeId] = path;
+    return '';
+  });
+  return { code: cleaned.trim(), nodeFiles };
+}
+
+// Models sometimes wrap the diagram in a fenced code block despite being asked not to
+function stripCodeFence(text: string): string {
+  const fenced = text.match(/```(?:mermaid)?\s*\n([\s\S]*?)```/);
+  return (fenced ? fenced[1] : text).trim();
+}
+
+interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+interface CodebaseSummary {
+  summaries: string[];
+  analyzedFiles: string[];
+  truncatedFiles: string[];
+  skippedFiles: SkippedFile[];
+}
+
+// Download each file and reduce it to imports, exports, classes and signatures,
+// trimming per-file detail and then whole files once the token budget runs out
+async function summarizeCodebase(
+  supabase: SupabaseClient,
+  files: { file_path: string; storage_path: string }[]
+): Promise<CodebaseSummary> {
+  const summaries: string[] = [];
+  const analyzedFiles: string[] = [];
+  const truncatedFiles: string[] = [];
+  const skippedFiles: SkippedFile[] = [];
+  let usedTokens = 0;
+
+  for (const file of files) {
+    if (isBinaryFile(file.file_path)) {
+      skippedFiles.push({ name: file.file_path, reason: 'binary file' });
+      continue;
+    }
+
+    const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(file.storage_path);
+    if (error || !data) {
+      console.error(`Failed to download ${file.storage_path}:`, error);
+      skippedFiles.push({ name: file.file_path, reason: 'not found in storage' });
+      continue;
+    }
+
+    const structure = extractStructure(file.file_path, await data.text());
+    let summary = formatStructure(file.file_path, structure);
+    if (estimateTokens(summary.text) > MAX_FILE_SUMMARY_TOKENS) {
+      summary = formatStructure(file.file_path, structure, MAX_ITEMS_PER_SECTION);
+    }
+
+    const tokens = estimateTokens(summary.text);
+    if (usedTokens + tokens > SUMMARY_TOKEN_BUDGET) {
+      skippedFiles.push({ name: file.file_path, reason: 'token budget exhausted' });
+      continue;
+    }
+
+    usedTokens += tokens;
+    summaries.push(summary.text);
+    analyzedFiles.push(file.file_path);
+    if (summary.truncated) truncatedFiles.push(file.file_path);
+  }
+
+  return { summaries, analyzedFiles, truncatedFiles, skippedFiles };
+}
+
+// Hex SHA-256, stored with saved diagrams to recognise regenerations from identical input
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -14,14 +163,13 @@ serve(async (req) => {
 
   try {
     const body = await req.json();
-    const { sessionId, userApiKeys } = body;
+    const { sessionId, userApiKeys, providerOrder, diagramKind = 'architecture', entryPoint } = body;
     
     // Check for user-provided API keys or fallback to environment
-    const openAIApiKey = userApiKeys?.openai || Deno.env.get('OPENAI_API_KEY');
-    const claudeApiKey = userApiKeys?.claude || Deno.env.get('CLAUDE_API_KEY');
+    const providers = resolveProviders(userApiKeys, providerOrder);
     
     // Verify at least one API key is available
-    if (!openAIApiKey && !claudeApiKey) {
+    if (providers.length === 0) {
       console.error('No AI API keys found');
       return new Response(
         JSON.stringify({ 
@@ -43,17 +191,40 @@ serve(async (req) => {
         }
       );
     }
+
+    if (!isUuid(sessionId)) {
+      return new Response(
+        JSON.stringify({ error: 'Session ID must be a UUID' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     
-    // Initialize Supabase client
+    if (!isAiDiagramKind(diagramKind)) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported diagram kind: ${diagramKind}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (diagramKind === 'sequence' && typeof entryPoint?.path !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Sequence diagrams need an entry point file' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Initialize Supabase client as the calling user so RLS exposes their files
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    const supabase = createClient(supabaseUrl, supabaseKey, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+    });
 
-    // Get files for the session
+    // Get files for the session, including those of its attached codebases
     const { data: files, error: filesError } = await supabase
       .from('uploaded_files')
-      .select('file_name, file_type, storage_path')
-      .eq('session_id', sessionId);
+      .select('file_path, file_type, storage_path')
+      .or(await sessionSourceFilter(supabase, sessionId));
 
     if (filesError) {
       throw new Error(`Failed to fetch files: ${filesError.message}`);
@@ -66,119 +237,68 @@ serve(async (req) => {
       );
     }
 
-    // Create a summary of the codebase structure
-    const fileStructure = files.map(file => ({
-      name: file.file_name,
-      type: file.file_type,
-      extension: file.file_name.split('.').pop()
-    }));
-
-    // Analyze with OpenAI
-    const prompt = `
-You are a senior software architect analyzing a codebase. Based on the following file structure, create a comprehensive Mermaid diagram that shows:
+    // Create a structural summary of the codebase from the real file contents
+    const { summaries, analyzedFiles, truncatedFiles, skippedFiles } = await summarizeCodebase(supabase, files);
 
-1. The overall architecture and data flow
-2. Component relationships and dependencies  
-3. Main modules and their interactions
-4. Database/storage connections if applicable
+    // Sequence diagrams get the entry point's full source on top of the summaries
+    let entrySource = '';
+    if (diagramKind === 'sequence') {
+      const entryFile = files.find(file => file.file_path === entryPoint.path);
+      if (!entryFile) {
+        return new Response(
+          JSON.stringify({ error: `Entry point not found in this session: ${entryPoint.path}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(entryFile.storage_path);
+      if (error || !data) {
+        throw new Error(`Failed to download the entry point ${entryPoint.path}`);
+      }
+      const entryText = await data.text();
+      entrySource = `
+Entry point (${entryPoint.path}${entryText.length > ENTRY_FILE_MAX_CHARS ? ', truncated' : ''}):
+\`\`\`
+${entryText.slice(0, ENTRY_FILE_MAX_CHARS)}
+\`\`\`
+`;
+    }
 
+    const prompt = `
+You are a senior software architect analyzing a codebase. Based on the following structural summary (imports, exports, classes and function signatures extracted from each file), ${DIAGRAM_INSTRUCTIONS[diagramKind](entryPoint)}
+${entrySource}
 Files in the codebase:
-${fileStructure.map(f => `- ${f.name} (${f.type})`).join('\n')}
-
-Please generate a Mermaid diagram using flowchart syntax that clearly shows:
-- Main components/modules
-- Data flow between components
-- External dependencies
-- Database or API connections
-- User interactions
-
-Focus on creating a clear, comprehensive architecture diagram. Use appropriate Mermaid syntax (flowchart TD, graph LR, etc.) and include meaningful labels and relationships.
+${summaries.join('\n') || '(no file contents could be read)'}
+${skippedFiles.length > 0 ? `\nOther files (contents not analyzed):\n${skippedFiles.map(f => `- ${f.name}`).join('\n')}\n` : ''}
 
 Return ONLY the Mermaid diagram code, no additional text or explanations.
 `;
 
-    let mermaidCode;
-
-    // Try OpenAI first if available
-    if (openAIApiKey) {
-      console.log('Using OpenAI API...');
-      try {
-        const response = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openAIApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o',
-            messages: [
-              { role: 'system', content: 'You are an expert software architect who creates clear, comprehensive Mermaid diagrams for codebase analysis.' },
-              { role: 'user', content: prompt }
-            ],
-            temperature: 0.3,
-            max_tokens: 2000,
-          }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          mermaidCode = data.choices[0].message.content.trim();
-        } else {
-          throw new Error(`OpenAI API error: ${response.status}`);
-        }
-      } catch (error) {
-        console.error('OpenAI API failed:', error);
-        if (!claudeApiKey) throw error;
-      }
-    }
-
-    // Try Claude if OpenAI failed or is not available
-    if (!mermaidCode && claudeApiKey) {
-      console.log('Using Claude API...');
-      try {
-        const response = await fetch('https://api.anthropic.com/v1/messages', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${claudeApiKey}`,
-            'Content-Type': 'application/json',
-            'anthropic-version': '2023-06-01',
-          },
-          body: JSON.stringify({
-            model: 'claude-3-5-sonnet-20241022',
-            max_tokens: 2000,
-            messages: [
-              {
-                role: 'user',
-                content: `You are an expert software architect who creates clear, comprehensive Mermaid diagrams for codebase analysis.\n\n${prompt}`
-              }
-            ],
-          }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          mermaidCode = data.content[0].text.trim();
-        } else {
-          throw new Error(`Claude API error: ${response.status}`);
-        }
-      } catch (error) {
-        console.error('Claude API failed:', error);
-        throw error;
-      }
-    }
-
-    if (!mermaidCode) {
-      return new Response(
-        JSON.stringify({ error: 'Failed to generate diagram with available AI services' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
-    }
+    // Try each configured provider in order until one produces a diagram
+    const { text, provider, model } = await completeWithFallback(providers, {
+      system: SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.3,
+      maxTokens: 2000,
+    });
+    const { code: mermaidCode, nodeFiles } = extractNodeFiles(
+      stripCodeFence(text),
+      new Set(files.map(file => file.file_path))
+    );
 
     return new Response(
-      JSON.stringify({ mermaidCode, fileCount: files.length }),
+      JSON.stringify({
+        mermaidCode,
+        nodeFiles,
+        diagramKind,
+        provider,
+        model,
+        promptHash: await sha256(`${SYSTEM_PROMPT}\n${prompt}`),
+        analyzedFiles,
+        fileCount: files.length,
+        analyzedFileCount: summaries.length,
+        truncatedFiles,
+        skippedFiles
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
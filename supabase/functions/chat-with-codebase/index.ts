@@ -0,0 +1,373 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import {
+  ChatMessage,
+  CompletionRequest,
+  LlmProvider,
+  completeWithFallback,
+  resolveProviders,
+  streamWithFallback,
+} from '../_shared/llm/index.ts';
+import { Citation, CitableFile, CITATION_INSTRUCTIONS, extractCitations, numberLines } from '../_shared/citations.ts';
+import { resolveEmbedder } from '../_shared/embeddings.ts';
+import { isUuid, sessionSourceFilter } from '../_shared/sessionSources.ts';
+import { createStubProvider } from './stubProvider.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const STORAGE_BUCKET = 'uploaded-files';
+const MAX_CONTEXT_CHARS = 60000; // Roughly 15k tokens of source code
+const MAX_FILE_CHARS = 15000;
+const MAX_HISTORY_MESSAGES = 20;
+const MAX_RETRIEVED_CHUNKS = 16;
+const BINARY_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'ico', 'pdf', 'zip', 'gz'];
+
+interface FileContext {
+  id: string;
+  name: string;
+  content: string;
+  // 1 for whole files, the excerpt's first line for retrieved chunks
+  startLine: number;
+  truncated: boolean;
+}
+
+// A file or line range the user explicitly asked about from the file browser
+interface ChatFocus {
+  fileId: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+interface MatchedChunk {
+  file_id: string;
+  file_path: string;
+  start_line: number;
+  end_line: number;
+  content: string;
+  similarity: number;
+}
+
+type StreamEvent =
+  | { type: 'start'; provider: string; filesUsed: string[]; skippedFiles: string[] }
+  | { type: 'delta'; text: string }
+  | { type: 'citations'; citations: Citation[] }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Download the session's files and cut them down to fit the context budget
+async function loadFileContext(
+  supabase: SupabaseClient,
+  files: { id: string; file_path: string; storage_path: string }[]
+): Promise<{ context: FileContext[]; skipped: string[] }> {
+  const context: FileContext[] = [];
+  const skipped: string[] = [];
+  let remaining = MAX_CONTEXT_CHARS;
+
+  for (const file of files) {
+    const extension = file.file_path.split('.').pop()?.toLowerCase() ?? '';
+    if (BINARY_EXTENSIONS.includes(extension) || remaining <= 0) {
+      skipped.push(file.file_path);
+      continue;
+    }
+
+    const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(file.storage_path);
+    if (error || !data) {
+      console.error(`Failed to download ${file.storage_path}:`, error);
+      skipped.push(file.file_path);
+      continue;
+    }
+
+    const text = await data.text();
+    const limit = Math.min(MAX_FILE_CHARS, remaining);
+    context.push({
+      id: file.id,
+      name: file.file_path,
+      content: text.slice(0, limit),
+      startLine: 1,
+      truncated: text.length > limit,
+    });
+    remaining -= Math.min(text.length, limit);
+  }
+
+  return { context, skipped };
+}
+
+// Load the focused file (or just the selected lines) so it is always in context
+async function loadFocusContext(
+  supabase: SupabaseClient,
+  sources: string,
+  focus: ChatFocus
+): Promise<FileContext | null> {
+  const { data: file } = await supabase
+    .from('uploaded_files')
+    .select('id, file_path, storage_path')
+    .eq('id', focus.fileId)
+    .or(sources)
+    .maybeSingle();
+  if (!file) return null;
+
+  const { data, error } = await supabase.storage.from(STORAGE_BUCKET).download(file.storage_path);
+  if (error || !data) {
+    console.error(`Failed to download ${file.storage_path}:`, error);
+    return null;
+  }
+
+  const lines = (await data.text()).split('\n');
+  const startLine = Math.min(Math.max(focus.startLine ?? 1, 1), lines.length);
+  const endLine = Math.min(Math.max(focus.endLine ?? lines.length, startLine), lines.length);
+  const text = lines.slice(startLine - 1, endLine).join('\n');
+
+  return {
+    id: file.id,
+    name: file.file_path,
+    content: text.slice(0, MAX_FILE_CHARS),
+    startLine,
+    truncated: text.length > MAX_FILE_CHARS,
+  };
+}
+
+// Retrieval-augmented context: the chunks most similar to the question, within the same
+// budget. Returns null when the session has no usable index so callers can fall back.
+async function retrieveChunkContext(
+  supabase: SupabaseClient,
+  sessionId: string,
+  sources: string,
+  question: string,
+  userApiKeys?: Record<string, string>
+): Promise<FileContext[] | null> {
+  const { data: indexed } = await supabase
+    .from('file_chunks')
+    .select('embedding_model')
+    .or(sources)
+    .not('embedding_model', 'is', null)
+    .limit(1);
+
+  const embedder = resolveEmbedder(userApiKeys);
+  // Vectors from another model (e.g. indexed with an OpenAI key that is no longer set) can't be compared
+  if (!indexed?.length || indexed[0].embedding_model !== embedder.model) return null;
+
+  const [queryEmbedding] = await embedder.embed([question]);
+  const { data: matches, error } = await supabase.rpc('match_file_chunks', {
+    query_embedding: JSON.stringify(queryEmbedding),
+    match_session_id: sessionId,
+    match_model: embedder.model,
+    match_count: MAX_RETRIEVED_CHUNKS,
+  });
+
+  if (error) {
+    console.error('Chunk search failed:', error);
+    return null;
+  }
+  if (!matches?.length) return null;
+
+  const selected: MatchedChunk[] = [];
+  let remaining = MAX_CONTEXT_CHARS;
+  for (const match of matches as MatchedChunk[]) {
+    if (match.content.length > remaining) continue;
+    selected.push(match);
+    remaining -= match.content.length;
+  }
+
+  // Present excerpts in file order so neighbouring chunks read naturally
+  return selected
+    .sort((a, b) => a.file_path.localeCompare(b.file_path) || a.start_line - b.start_line)
+    .map(match => ({
+      id: match.file_id,
+      name: match.file_path,
+      content: match.content,
+      startLine: match.start_line,
+      truncated: false,
+    }));
+}
+
+// Stream the answer as server-sent events. Cancelling the response body (the client
+// pressing Stop or disconnecting) aborts the upstream provider request too.
+function streamResponse(
+  providers: LlmProvider[],
+  request: CompletionRequest,
+  context: FileContext[],
+  skippedFiles: string[]
+): Response {
+  const abort = new AbortController();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      try {
+        const { provider, chunks } = await streamWithFallback(providers, { ...request, signal: abort.signal });
+        send({ type: 'start', provider, filesUsed: [...new Set(context.map(file => file.name))], skippedFiles });
+        let answer = '';
+        for await (const text of chunks) {
+          // A cancelled body can't be written to any more
+          if (abort.signal.aborted) return;
+          answer += text;
+          send({ type: 'delta', text });
+        }
+        send({ type: 'citations', citations: extractCitations(answer, citableFiles(context)) });
+        send({ type: 'done' });
+      } catch (error) {
+        if (abort.signal.aborted) return;
+        console.error('Error streaming answer:', error);
+        send({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+      controller.close();
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+// One entry per file; with excerpts the last cited line is the furthest excerpt's end
+const citableFiles = (context: FileContext[]): CitableFile[] => {
+  const byId = new Map<string, CitableFile>();
+  for (const file of context) {
+    const lastLine = file.startLine + file.content.split('\n').length - 1;
+    const existing = byId.get(file.id);
+    if (existing) existing.lineCount = Math.max(existing.lineCount, lastLine);
+    else byId.set(file.id, { id: file.id, path: file.name, lineCount: lastLine });
+  }
+  return [...byId.values()];
+};
+
+function buildSystemPrompt(files: FileContext[], skipped: string[]): string {
+  const fileBlocks = files.map(file =>
+    `=== FILE: ${file.name}${file.startLine > 1 ? ` (excerpt from line ${file.startLine})` : ''}${file.truncated ? ' (truncated)' : ''} ===\n${numberLines(file.content, file.startLine)}`
+  ).join('\n\n');
+
+  return `You are an onboarding assistant helping a new engineer understand a codebase.
+Answer ONLY from the files provided below. Each line is prefixed with its line number.
+${CITATION_INSTRUCTIONS}
+If the answer is not contained in the files, say so plainly instead of guessing.
+${skipped.length > 0 ? `\nThese files could not be included: ${skipped.join(', ')}\n` : ''}
+${fileBlocks || 'No readable files have been uploaded for this session.'}`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const { sessionId, question, messages = [], userApiKeys, providerOrder, focus, stream = false } = body;
+
+    if (!sessionId || typeof question !== 'string' || !question.trim()) {
+      return jsonResponse({ error: 'Session ID and question are required' }, 400);
+    }
+    if (!isUuid(sessionId)) {
+      return jsonResponse({ error: 'Session ID must be a UUID' }, 400);
+    }
+
+    const useStub = Deno.env.get('CHAT_PROVIDER') === 'stub';
+    const providers = useStub ? [] : resolveProviders(userApiKeys, providerOrder);
+    if (!useStub && providers.length === 0) {
+      console.error('No AI API keys found');
+      return jsonResponse({
+        error: 'No AI API keys configured. Please add your API keys in the settings.'
+      }, 400);
+    }
+
+    // Act as the calling user so RLS only exposes the files they may read
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+    const sources = await sessionSourceFilter(supabase, sessionId);
+
+    // Prefer the most relevant indexed chunks; fall back to whole files when there is no index
+    let context = await retrieveChunkContext(supabase, sessionId, sources, question.trim(), userApiKeys)
+      .catch(error => {
+        console.error('Retrieval failed, using whole files:', error);
+        return null;
+      });
+    let skipped: string[] = [];
+    const retrieval = context ? 'chunks' : 'files';
+
+    if (!context) {
+      const { data: files, error: filesError } = await supabase
+        .from('uploaded_files')
+        .select('id, file_path, storage_path')
+        .or(sources)
+        .eq('status', 'success')
+        .order('uploaded_at', { ascending: false });
+
+      if (filesError) {
+        throw new Error(`Failed to fetch files: ${filesError.message}`);
+      }
+
+      // Re-uploading a path keeps the older row around; only the newest copy counts
+      const seenPaths = new Set<string>();
+      const latestFiles = (files ?? []).filter(file => {
+        if (seenPaths.has(file.file_path)) return false;
+        seenPaths.add(file.file_path);
+        return true;
+      });
+
+      ({ context, skipped } = await loadFileContext(supabase, latestFiles));
+    }
+
+    // Put the focused file first and drop trailing context to stay within the budget
+    const focusContext = focus?.fileId ? await loadFocusContext(supabase, sources, focus) : null;
+    if (focusContext) {
+      let remaining = MAX_CONTEXT_CHARS - focusContext.content.length;
+      context = [focusContext, ...context.filter(file => {
+        remaining -= file.content.length;
+        return remaining >= 0;
+      })];
+    }
+
+    const history: ChatMessage[] = (messages as ChatMessage[])
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(message => ({ role: message.role, content: message.content }));
+
+    const request: CompletionRequest = {
+      system: buildSystemPrompt(context, skipped),
+      messages: [...history, { role: 'user', content: question.trim() }],
+      temperature: 0.2,
+      maxTokens: 1500,
+    };
+
+    const candidates = useStub ? [createStubProvider(context)] : providers;
+    if (stream) {
+      return streamResponse(candidates, request, context, skipped);
+    }
+
+    // Walk the provider list until one of them answers
+    const result = await completeWithFallback(candidates, request);
+    return jsonResponse({
+      answer: result.text,
+      provider: result.provider,
+      citations: extractCitations(result.text, citableFiles(context)),
+      retrieval,
+      filesUsed: [...new Set(context.map(file => file.name))],
+      skippedFiles: skipped,
+    });
+  } catch (error) {
+    console.error('Error in chat-with-codebase function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { completeWithFallback, streamWithFallback } from '../_shared/llm/index.ts';
+import { extractCitations } from '../_shared/citations.ts';
+import { createStubProvider } from './stubProvider.ts';
+
+const files = [
+  { name: 'src/lib/apiKeys.ts', content: 'import x from "y";\nexport const loadUserApiKeys = async () => {};', startLine: 1 },
+  { name: 'src/lib/uploads.ts', content: 'export const uploadWithRetry = () => {};', startLine: 40 },
+];
+
+const ask = (question: string) => ({ messages: [{ role: 'user' as const, content: question }] });
+
+Deno.test('stub answers with a citation to the best matching line', async () => {
+  const result = await createStubProvider(files).complete(ask('Where is uploadWithRetry defined?'));
+
+  assert.equal(result.provider, 'stub');
+  assert.equal(result.text, '[stub] The closest match is [src/lib/uploads.ts:40]:\n\nexport const uploadWithRetry = () => {};');
+  assert.deepEqual(
+    extractCitations(result.text, files.map((file, index) => ({ id: `f${index}`, path: file.name, lineCount: 40 }))),
+    [{ fileId: 'f1', path: 'src/lib/uploads.ts', startLine: 40, endLine: 40 }],
+  );
+});
+
+Deno.test('stub says so when nothing matches', async () => {
+  const result = await createStubProvider(files).complete(ask('What about kubernetes?'));
+  assert.match(result.text, /No lines in the 2 uploaded file\(s\) match/);
+});
+
+Deno.test('stub streams the same answer through the fallback chain', async () => {
+  const provider = createStubProvider(files);
+  const request = ask('loadUserApiKeys');
+  const { text } = await completeWithFallback([provider], request);
+
+  const { provider: name, chunks } = await streamWithFallback([provider], request);
+  let streamed = '';
+  for await (const delta of chunks) streamed += delta;
+
+  assert.equal(name, 'stub');
+  assert.equal(streamed, text);
+  assert.match(text, /\[src\/lib\/apiKeys\.ts:2\]/);
+});
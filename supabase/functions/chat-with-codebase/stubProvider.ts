@@ -0,0 +1,45 @@
+// Offline provider used when CHAT_PROVIDER=stub. It quotes the lines that share
+// the most words with the question so the whole pipeline can run without network.
+import { CompletionRequest, LlmProvider, estimateRequestTokens } from '../_shared/llm/index.ts';
+
+// The parts of a context file the stub reads
+export interface StubSourceFile {
+  name: string;
+  content: string;
+  // Line number of the content's first line
+  startLine: number;
+}
+
+export function createStubProvider(files: StubSourceFile[]): LlmProvider {
+  const answer = ({ messages }: CompletionRequest): string => {
+    const question = messages[messages.length - 1]?.content ?? '';
+    const terms = question.toLowerCase().split(/\W+/).filter(term => term.length > 2);
+
+    let best: { file: string; line: number; text: string; score: number } | null = null;
+    for (const file of files) {
+      const lines = file.content.split('\n');
+      for (let index = 0; index < lines.length; index++) {
+        const lower = lines[index].toLowerCase();
+        const score = terms.filter(term => lower.includes(term)).length;
+        if (score > 0 && (!best || score > best.score)) {
+          best = { file: file.name, line: file.startLine + index, text: lines[index].trim(), score };
+        }
+      }
+    }
+
+    if (!best) {
+      return `[stub] No lines in the ${files.length} uploaded file(s) match "${question}".`;
+    }
+    return `[stub] The closest match is [${best.file}:${best.line}]:\n\n${best.text}`;
+  };
+
+  return {
+    name: 'stub',
+    model: 'stub',
+    complete: async (request) => ({ text: answer(request), provider: 'stub', model: 'stub' }),
+    async *stream(request) {
+      yield answer(request);
+    },
+    countTokens: estimateRequestTokens,
+  };
+}
@@ -0,0 +1,178 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { isBinaryFile } from '../_shared/codeStructure.ts';
+import { chunkFile } from '../_shared/chunking.ts';
+import { resolveEmbedder } from '../_shared/embeddings.ts';
+import { extractSymbols } from '../_shared/symbols.ts';
+import type { UserApiKeys } from '../_shared/llm/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const STORAGE_BUCKET = 'uploaded-files';
+const INSERT_BATCH = 100;
+
+interface IndexResult {
+  chunkCount: number;
+  symbolCount: number;
+  // Null when the chunks were stored without embeddings
+  embeddingModel: string | null;
+  error?: string;
+}
+
+interface IngestedFile {
+  id: string;
+  session_id: string | null;
+  // Set instead of session_id for files uploaded to a workspace codebase
+  codebase_id: string | null;
+  user_id: string | null;
+  file_path: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+async function insertInBatches(supabase: SupabaseClient, table: string, rows: Record<string, unknown>[]) {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_BATCH));
+    if (error) throw new Error(`Failed to store ${table}: ${error.message}`);
+  }
+}
+
+// Replace the file's chunks and symbols. Chunks are kept without vectors when embedding
+// fails, since full-text search still works on them.
+async function indexFile(
+  supabase: SupabaseClient,
+  file: IngestedFile,
+  content: string,
+  userApiKeys?: UserApiKeys
+): Promise<IndexResult> {
+  const chunks = chunkFile(file.file_path, content);
+  const symbols = extractSymbols(file.file_path, content);
+  const embedder = resolveEmbedder(userApiKeys);
+
+  let embeddings: number[][] | null = null;
+  let embeddingError: string | undefined;
+  try {
+    // Embed the path and symbol with the code so searches can match on names too
+    embeddings = await embedder.embed(chunks.map(chunk =>
+      `${file.file_path}${chunk.symbol ? ` ${chunk.symbol}` : ''}\n${chunk.content}`
+    ));
+  } catch (error) {
+    console.error(`Failed to embed ${file.file_path}:`, error);
+    embeddingError = error instanceof Error ? error.message : String(error);
+  }
+
+  for (const table of ['file_chunks', 'file_symbols']) {
+    const { error: deleteError } = await supabase.from(table).delete().eq('file_id', file.id);
+    if (deleteError) throw new Error(`Failed to clear old ${table}: ${deleteError.message}`);
+  }
+
+  const rows = chunks.map((chunk, index) => ({
+    file_id: file.id,
+    session_id: file.session_id,
+    codebase_id: file.codebase_id,
+    user_id: file.user_id,
+    chunk_index: chunk.index,
+    start_line: chunk.startLine,
+    end_line: chunk.endLine,
+    kind: chunk.kind,
+    symbol: chunk.symbol,
+    content: chunk.content,
+    embedding: embeddings ? JSON.stringify(embeddings[index]) : null,
+    embedding_model: embeddings ? embedder.model : null,
+  }));
+  await insertInBatches(supabase, 'file_chunks', rows);
+
+  await insertInBatches(supabase, 'file_symbols', symbols.map(symbol => ({
+    file_id: file.id,
+    session_id: file.session_id,
+    codebase_id: file.codebase_id,
+    user_id: file.user_id,
+    name: symbol.name,
+    kind: symbol.kind,
+    line: symbol.line,
+    exported: symbol.exported,
+    signature: symbol.signature,
+  })));
+
+  return {
+    chunkCount: chunks.length,
+    symbolCount: symbols.length,
+    embeddingModel: embeddings ? embedder.model : null,
+    error: embeddingError,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { fileId, userApiKeys } = await req.json();
+
+    if (!fileId) {
+      return jsonResponse({ error: 'File ID is required' }, 400);
+    }
+
+    // Act as the calling user so RLS only exposes their own files
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: file, error: fileError } = await supabase
+      .from('uploaded_files')
+      .select('id, session_id, codebase_id, user_id, file_name, file_path, file_size, storage_path')
+      .eq('id', fileId)
+      .single();
+
+    if (fileError || !file) {
+      return jsonResponse({ error: 'File not found' }, 404);
+    }
+
+    // Confirm the bytes actually landed in storage before marking the file processed
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(file.storage_path);
+
+    if (downloadError || !blob || blob.size !== file.file_size) {
+      console.error(`Stored object for ${file.file_name} is missing or incomplete:`, downloadError);
+      await supabase.from('uploaded_files').update({ status: 'error' }).eq('id', file.id);
+      return jsonResponse({ error: `Stored copy of ${file.file_name} is missing or incomplete` }, 422);
+    }
+
+    // A failed index only costs retrieval and search quality; chat falls back to whole files
+    let index: IndexResult = { chunkCount: 0, symbolCount: 0, embeddingModel: null };
+    if (!isBinaryFile(file.file_path)) {
+      try {
+        index = await indexFile(supabase, file, await blob.text(), userApiKeys);
+      } catch (indexError) {
+        console.error(`Failed to index ${file.file_path}:`, indexError);
+        index = { ...index, error: indexError instanceof Error ? indexError.message : String(indexError) };
+      }
+    }
+
+    const processedAt = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from('uploaded_files')
+      .update({ status: 'success', processed_at: processedAt })
+      .eq('id', file.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update file: ${updateError.message}`);
+    }
+
+    return jsonResponse({ fileId: file.id, processedAt, ...index });
+  } catch (error) {
+    console.error('Error in ingest-file function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+});
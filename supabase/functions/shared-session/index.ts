@@ -0,0 +1,169 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const STORAGE_BUCKET = 'uploaded-files';
+
+interface MessageRow {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+}
+
+// The branch on screen when the link was opened: the path to the session's active message,
+// continued through the newest replies, or the branch of the newest message. Mirrors
+// activeBranch in src/lib/messageTree.ts.
+function activeBranch<T extends MessageRow>(messages: T[], activeId: string | null): T[] {
+  if (messages.length === 0) return [];
+  const byId = new Map(messages.map(message => [message.id, message]));
+  // Rows arrive oldest first, so the last child seen is the newest
+  const newestChild = new Map<string, T>();
+  for (const message of messages) {
+    if (message.parent_id) newestChild.set(message.parent_id, message);
+  }
+
+  let leaf = (activeId && byId.get(activeId)) || messages[messages.length - 1];
+  const seen = new Set<string>();
+  while (newestChild.has(leaf.id) && !seen.has(leaf.id)) {
+    seen.add(leaf.id);
+    leaf = newestChild.get(leaf.id)!;
+  }
+
+  const branch: T[] = [];
+  seen.clear();
+  for (let current: T | undefined = leaf; current && !seen.has(current.id); current = current.parent_id ? byId.get(current.parent_id) : undefined) {
+    seen.add(current.id);
+    branch.unshift(current);
+  }
+  return branch;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Read a shared session, or one of its files, for whoever holds the link. The request is
+// made as the anonymous role with the token in the x-share-token header, so the share
+// policies decide what is visible; the caller's own session is deliberately not used.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token, fileId } = await req.json();
+    if (!token || typeof token !== 'string') {
+      return jsonResponse({ error: 'Share token is required' }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      {
+        global: { headers: { 'x-share-token': token } },
+        auth: { persistSession: false, autoRefreshToken: false },
+      }
+    );
+
+    const { data: share, error: shareError } = await supabase
+      .from('session_shares')
+      .select('session_id, expires_at, revoked_at')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (shareError) {
+      throw new Error(`Failed to look up the link: ${shareError.message}`);
+    }
+    if (!share) {
+      return jsonResponse({ error: 'This link does not exist' }, 404);
+    }
+    if (share.revoked_at) {
+      return jsonResponse({ error: 'This link has been revoked' }, 410);
+    }
+    if (share.expires_at && new Date(share.expires_at) <= new Date()) {
+      return jsonResponse({ error: 'This link has expired' }, 410);
+    }
+
+    if (fileId) {
+      const { data: file, error: fileError } = await supabase
+        .from('uploaded_files')
+        .select('id, file_path, storage_path')
+        .eq('id', fileId)
+        .eq('session_id', share.session_id)
+        .maybeSingle();
+
+      if (fileError) {
+        throw new Error(`Failed to fetch the file: ${fileError.message}`);
+      }
+      if (!file) {
+        return jsonResponse({ error: 'The file is not part of this session' }, 404);
+      }
+
+      const { data: blob, error: downloadError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .download(file.storage_path);
+
+      if (downloadError || !blob) {
+        throw new Error(`Failed to download ${file.file_path}: ${downloadError?.message ?? 'no data'}`);
+      }
+
+      return jsonResponse({ id: file.id, path: file.file_path, content: await blob.text() });
+    }
+
+    const [sessionResult, messagesResult, filesResult, diagramResult] = await Promise.all([
+      supabase
+        .from('chat_sessions')
+        .select('title, tags, active_message_id, created_at, updated_at')
+        .eq('id', share.session_id)
+        .single(),
+      supabase
+        .from('chat_messages')
+        .select('id, parent_id, role, content, citations, created_at')
+        .eq('session_id', share.session_id)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('uploaded_files')
+        .select('id, file_path, file_size, file_type')
+        .eq('session_id', share.session_id)
+        .eq('status', 'success')
+        .order('uploaded_at', { ascending: false }),
+      supabase
+        .from('session_diagrams')
+        .select('version, mermaid_code, kind, node_files, created_at')
+        .eq('session_id', share.session_id)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    for (const { error } of [sessionResult, messagesResult, filesResult, diagramResult]) {
+      if (error) throw new Error(`Failed to fetch the shared session: ${error.message}`);
+    }
+
+    // Re-uploading a path keeps the older row around; only the newest copy counts
+    const seenPaths = new Set<string>();
+    const files = (filesResult.data ?? []).filter(file => {
+      if (seenPaths.has(file.file_path)) return false;
+      seenPaths.add(file.file_path);
+      return true;
+    });
+
+    const { active_message_id: activeMessageId, ...session } = sessionResult.data;
+    return jsonResponse({
+      session,
+      expiresAt: share.expires_at,
+      messages: activeBranch(messagesResult.data ?? [], activeMessageId),
+      files,
+      diagram: diagramResult.data,
+    });
+  } catch (error) {
+    console.error('Error in shared-session function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
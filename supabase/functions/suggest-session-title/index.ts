@@ -0,0 +1,103 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.52.1';
+import { completeWithFallback, resolveProviders } from '../_shared/llm/index.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_MESSAGE_CHARS = 2000; // The opening question and the start of the answer are enough
+const MAX_TITLE_LENGTH = 60;
+
+const SYSTEM_PROMPT = 'You name conversations about codebases. Reply with a short title of at most 6 words, without quotes or trailing punctuation.';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Models sometimes add quotes, a "Title:" prefix or a second line
+function cleanTitle(text: string): string {
+  const firstLine = text.trim().split('\n')[0] ?? '';
+  const title = firstLine
+    .replace(/^title:\s*/i, '')
+    .replace(/^["'`*#\s]+|["'`*.\s]+$/g, '')
+    .trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
+
+// Suggest a title from the session's first exchange. Sessions the user has named
+// themselves keep their title; the update only applies while the title is the default.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId, userApiKeys, providerOrder } = await req.json();
+    if (!sessionId) {
+      return jsonResponse({ error: 'Session ID is required' }, 400);
+    }
+
+    const providers = resolveProviders(userApiKeys, providerOrder);
+    if (providers.length === 0) {
+      return jsonResponse({ error: 'No AI API keys configured. Please add your API keys in the settings.' }, 400);
+    }
+
+    // Act as the calling user so RLS only exposes their own session
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: messages, error: messagesError } = await supabase
+      .from('chat_messages')
+      .select('role, content')
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true })
+      .limit(2);
+
+    if (messagesError) {
+      throw new Error(`Failed to fetch messages: ${messagesError.message}`);
+    }
+    if (!messages || messages.length === 0) {
+      return jsonResponse({ error: 'The session has no messages to name it from' }, 400);
+    }
+
+    const exchange = messages
+      .map(message => `${message.role === 'user' ? 'Question' : 'Answer'}: ${message.content.slice(0, MAX_MESSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const { text } = await completeWithFallback(providers, {
+      system: SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: `Title this conversation:\n\n${exchange}` }],
+      temperature: 0.2,
+      maxTokens: 30,
+    });
+
+    const title = cleanTitle(text);
+    if (!title) {
+      return jsonResponse({ error: 'No title was suggested' }, 502);
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('chat_sessions')
+      .update({ title, title_source: 'ai' })
+      .eq('id', sessionId)
+      .eq('title_source', 'default')
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Failed to save the title: ${updateError.message}`);
+    }
+
+    return jsonResponse({ title, applied: (updated ?? []).length > 0 });
+  } catch (error) {
+    console.error('Error in suggest-session-title function:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,9 @@
+-- Store each file's path relative to the uploaded folder or archive root
+ALTER TABLE public.uploaded_files ADD COLUMN file_path TEXT;
+
+-- Files uploaded before this change were flat, so their path is just the name
+UPDATE public.uploaded_files SET file_path = file_name WHERE file_path IS NULL;
+
+ALTER TABLE public.uploaded_files ALTER COLUMN file_path SET NOT NULL;
+
+CREATE INDEX idx_uploaded_files_session_path ON public.uploaded_files(session_id, file_path);
@@ -0,0 +1,2 @@
+-- Source citations for assistant answers: [{ fileId, path, startLine, endLine }]
+ALTER TABLE public.chat_messages ADD COLUMN citations JSONB NOT NULL DEFAULT '[]'::jsonb;
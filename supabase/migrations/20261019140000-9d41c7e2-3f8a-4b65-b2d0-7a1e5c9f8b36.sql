@@ -0,0 +1,78 @@
+-- Enable pgvector for chunk embeddings
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Retrieval chunks cut from uploaded files along functions, classes and headings
+CREATE TABLE public.file_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.uploaded_files(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  symbol TEXT,
+  content TEXT NOT NULL,
+  -- Vectors from different models are not comparable, so searches filter on the model
+  embedding extensions.vector(1536) NOT NULL,
+  embedding_model TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (file_id, chunk_index)
+);
+
+ALTER TABLE public.file_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chunks" 
+ON public.file_chunks FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chunks" 
+ON public.file_chunks FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chunks" 
+ON public.file_chunks FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_file_chunks_session_id ON public.file_chunks(session_id);
+CREATE INDEX idx_file_chunks_file_id ON public.file_chunks(file_id);
+CREATE INDEX idx_file_chunks_embedding ON public.file_chunks
+  USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Nearest chunks to a query embedding within one session. SECURITY INVOKER keeps RLS in force.
+CREATE OR REPLACE FUNCTION public.match_file_chunks(
+  query_embedding extensions.vector(1536),
+  match_session_id UUID,
+  match_model TEXT,
+  match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  file_path TEXT,
+  start_line INTEGER,
+  end_line INTEGER,
+  kind TEXT,
+  symbol TEXT,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.file_id,
+    f.file_path,
+    c.start_line,
+    c.end_line,
+    c.kind,
+    c.symbol,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.file_chunks c
+  JOIN public.uploaded_files f ON f.id = c.file_id
+  WHERE c.session_id = match_session_id
+    AND c.embedding_model = match_model
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,92 @@
+-- Full-text search over chunks does not need embeddings, so keep chunks even when embedding fails
+ALTER TABLE public.file_chunks ALTER COLUMN embedding DROP NOT NULL;
+ALTER TABLE public.file_chunks ALTER COLUMN embedding_model DROP NOT NULL;
+
+-- 'simple' keeps identifiers intact; camelCase is also split so "send message" finds handleSendMessage
+ALTER TABLE public.file_chunks ADD COLUMN search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple'::regconfig,
+      coalesce(symbol, '') || ' ' || content || ' ' || regexp_replace(content, '([a-z0-9])([A-Z])', '\1 \2', 'g')
+    )
+  ) STORED;
+
+CREATE INDEX idx_file_chunks_search_vector ON public.file_chunks USING gin (search_vector);
+
+-- Enable trigram matching for substring symbol search
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Functions, classes, types and exported names extracted from uploaded files during ingestion
+CREATE TABLE public.file_symbols (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id UUID NOT NULL REFERENCES public.uploaded_files(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  line INTEGER NOT NULL,
+  exported BOOLEAN NOT NULL DEFAULT false,
+  signature TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.file_symbols ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own symbols"
+ON public.file_symbols FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own symbols"
+ON public.file_symbols FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own symbols"
+ON public.file_symbols FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_file_symbols_session_id ON public.file_symbols(session_id);
+CREATE INDEX idx_file_symbols_file_id ON public.file_symbols(file_id);
+CREATE INDEX idx_file_symbols_name_trgm ON public.file_symbols
+  USING gin (name extensions.gin_trgm_ops);
+
+-- Ranked full-text matches among a session's chunks. SECURITY INVOKER keeps RLS in force.
+CREATE OR REPLACE FUNCTION public.search_file_chunks(
+  search_session_id UUID,
+  search_query TEXT,
+  match_count INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  file_path TEXT,
+  start_line INTEGER,
+  end_line INTEGER,
+  symbol TEXT,
+  content TEXT,
+  rank REAL
+)
+LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery(
+      'simple'::regconfig,
+      regexp_replace(search_query, '([a-z0-9])([A-Z])', '\1 \2', 'g')
+    ) AS q
+  )
+  SELECT
+    c.id,
+    c.file_id,
+    f.file_path,
+    c.start_line,
+    c.end_line,
+    c.symbol,
+    c.content,
+    ts_rank(c.search_vector, query.q) AS rank
+  FROM public.file_chunks c
+  JOIN public.uploaded_files f ON f.id = c.file_id
+  CROSS JOIN query
+  WHERE c.session_id = search_session_id
+    AND c.search_vector @@ query.q
+  ORDER BY rank DESC, f.file_path, c.start_line
+  LIMIT match_count;
+$$;
@@ -0,0 +1,56 @@
+-- Every generated, imported or edited diagram of a session, numbered per session
+CREATE TABLE public.session_diagrams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Assigned by the assign_session_diagram_version trigger
+  version INTEGER NOT NULL DEFAULT 0,
+  mermaid_code TEXT NOT NULL,
+  -- 'ai', 'import_graph', 'edit', 'import' or 'restore'
+  source TEXT NOT NULL,
+  provider TEXT,
+  model TEXT,
+  -- SHA-256 of the prompt sent to the provider, to tell apart regenerations of the same input
+  prompt_hash TEXT,
+  -- Relative paths of the files the diagram was built from
+  file_set JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, version)
+);
+
+ALTER TABLE public.session_diagrams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own diagrams"
+ON public.session_diagrams FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own diagrams"
+ON public.session_diagrams FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own diagrams"
+ON public.session_diagrams FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_session_diagrams_session_version ON public.session_diagrams(session_id, version DESC);
+
+-- Versions are assigned by the database so concurrent saves can't pick the same number
+CREATE OR REPLACE FUNCTION public.assign_session_diagram_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialize saves within one session
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.session_id::text));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.session_diagrams
+  WHERE session_id = NEW.session_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_session_diagram_version
+BEFORE INSERT ON public.session_diagrams
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_session_diagram_version();
@@ -0,0 +1,12 @@
+-- Diagram kind of each saved version ('architecture', 'dependencies', 'class', 'sequence',
+-- 'er', 'c4_context' or 'c4_container'); null for imported files of unknown kind
+ALTER TABLE public.session_diagrams ADD COLUMN kind TEXT;
+
+-- Import graphs are now one of several diagrams generated locally
+UPDATE public.session_diagrams
+SET source = 'static', kind = 'dependencies'
+WHERE source = 'import_graph';
+
+UPDATE public.session_diagrams
+SET kind = 'architecture'
+WHERE source = 'ai';
@@ -0,0 +1,2 @@
+-- Mermaid node id -> uploaded file path, so clicking a node in a saved diagram opens its file
+ALTER TABLE public.session_diagrams ADD COLUMN node_files JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,72 @@
+-- Session organisation: pinning, tags, and who named the session. Suggested titles
+-- only replace the default 'Session <date>' title, never one the user typed.
+ALTER TABLE public.chat_sessions
+  ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN title_source TEXT NOT NULL DEFAULT 'default'
+    CHECK (title_source IN ('default', 'ai', 'user'));
+
+CREATE INDEX idx_chat_sessions_user_listing ON public.chat_sessions(user_id, pinned DESC, updated_at DESC);
+CREATE INDEX idx_chat_sessions_tags ON public.chat_sessions USING gin (tags);
+CREATE INDEX idx_chat_sessions_title_trgm ON public.chat_sessions
+  USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX idx_chat_messages_content_trgm ON public.chat_messages
+  USING gin (content extensions.gin_trgm_ops);
+
+-- One page of the caller's sessions, pinned first, optionally filtered by a substring of
+-- the title or of any message and by a tag. total_count is the number of matches over
+-- all pages. SECURITY INVOKER keeps RLS in force.
+CREATE OR REPLACE FUNCTION public.search_chat_sessions(
+  search_query TEXT DEFAULT NULL,
+  search_tag TEXT DEFAULT NULL,
+  page_size INTEGER DEFAULT 20,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  title_source TEXT,
+  pinned BOOLEAN,
+  tags TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  message_count BIGINT,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public
+AS $$
+  WITH pattern AS (
+    SELECT CASE
+      WHEN coalesce(btrim(search_query), '') = '' THEN NULL
+      ELSE '%' || replace(replace(replace(btrim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    END AS p
+  ),
+  matches AS (
+    SELECT s.*
+    FROM public.chat_sessions s, pattern
+    WHERE s.user_id = auth.uid()
+      AND (search_tag IS NULL OR search_tag = ANY (s.tags))
+      AND (
+        pattern.p IS NULL
+        OR s.title ILIKE pattern.p
+        OR EXISTS (
+          SELECT 1 FROM public.chat_messages m
+          WHERE m.session_id = s.id AND m.content ILIKE pattern.p
+        )
+      )
+  )
+  SELECT
+    s.id,
+    s.title,
+    s.title_source,
+    s.pinned,
+    s.tags,
+    s.created_at,
+    s.updated_at,
+    (SELECT count(*) FROM public.chat_messages m WHERE m.session_id = s.id) AS message_count,
+    count(*) OVER () AS total_count
+  FROM matches s
+  ORDER BY s.pinned DESC, s.updated_at DESC
+  LIMIT greatest(page_size, 1)
+  OFFSET greatest(page_offset, 0);
+$$;
@@ -0,0 +1,93 @@
+-- Read-only links to a session. Whoever presents the token, as the x-share-token request
+-- header, can read the session with its messages, files and diagrams until the link
+-- expires or is revoked.
+CREATE TABLE public.session_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 192 random bits, hex so it can go straight into a URL
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  -- Null for links that never expire
+  expires_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.session_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_session_shares_session_id ON public.session_shares(session_id);
+
+-- The token of the current request, if any. PostgREST and Storage expose the request
+-- headers to policies as the request.headers setting.
+CREATE OR REPLACE FUNCTION public.request_share_token()
+RETURNS TEXT
+LANGUAGE sql STABLE SET search_path = public
+AS $$
+  SELECT nullif(nullif(current_setting('request.headers', true), '')::json ->> 'x-share-token', '');
+$$;
+
+-- Whether the request carries a live share token for the session. SECURITY DEFINER so
+-- the check can read session_shares, whose rows are otherwise only visible to their owner.
+CREATE OR REPLACE FUNCTION public.is_shared_session(target_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.session_shares
+    WHERE token = public.request_share_token()
+      AND session_id = target_session_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > now())
+  );
+$$;
+
+CREATE POLICY "Users can view their own share links"
+ON public.session_shares FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Lets the viewer tell an expired or revoked link apart from one that never existed
+CREATE POLICY "Share links can be read with their token"
+ON public.session_shares FOR SELECT
+USING (token = public.request_share_token());
+
+CREATE POLICY "Users can share their own sessions"
+ON public.session_shares FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.chat_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can revoke their own share links"
+ON public.session_shares FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own share links"
+ON public.session_shares FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Read-only access to shared sessions; there are deliberately no write policies
+CREATE POLICY "Shared sessions can be viewed with their token"
+ON public.chat_sessions FOR SELECT
+USING (public.is_shared_session(id));
+
+CREATE POLICY "Shared messages can be viewed with their token"
+ON public.chat_messages FOR SELECT
+USING (public.is_shared_session(session_id));
+
+CREATE POLICY "Shared files can be viewed with their token"
+ON public.uploaded_files FOR SELECT
+USING (public.is_shared_session(session_id));
+
+CREATE POLICY "Shared diagrams can be viewed with their token"
+ON public.session_diagrams FOR SELECT
+USING (public.is_shared_session(session_id));
+
+CREATE POLICY "Shared file contents can be downloaded with their token"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'uploaded-files'
+  AND EXISTS (
+    SELECT 1 FROM public.uploaded_files f
+    WHERE f.storage_path = storage.objects.name AND public.is_shared_session(f.session_id)
+  )
+);
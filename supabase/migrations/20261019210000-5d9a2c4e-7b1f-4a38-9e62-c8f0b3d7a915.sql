@@ -0,0 +1,20 @@
+-- Conversations are trees: editing a question or regenerating an answer adds a sibling
+-- under the same parent instead of replacing the message
+ALTER TABLE public.chat_messages
+  ADD COLUMN parent_id UUID REFERENCES public.chat_messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_chat_messages_parent_id ON public.chat_messages(parent_id);
+
+-- Existing conversations are a single branch, each message answering the one before it
+UPDATE public.chat_messages m
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, lag(id) OVER (PARTITION BY session_id ORDER BY created_at, id) AS previous_id
+  FROM public.chat_messages
+) ordered
+WHERE m.id = ordered.id AND ordered.previous_id IS NOT NULL;
+
+-- Last message of the branch the user was looking at; history loads this branch.
+-- Null falls back to the most recent message.
+ALTER TABLE public.chat_sessions
+  ADD COLUMN active_message_id UUID REFERENCES public.chat_messages(id) ON DELETE SET NULL;
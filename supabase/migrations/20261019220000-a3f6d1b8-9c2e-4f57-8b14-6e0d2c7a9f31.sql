@@ -0,0 +1,5 @@
+-- Broadcast changes to a session's messages, files and diagrams so other open tabs and
+-- devices stay in sync. Realtime applies the tables' RLS policies to every subscriber.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.uploaded_files;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.session_diagrams;
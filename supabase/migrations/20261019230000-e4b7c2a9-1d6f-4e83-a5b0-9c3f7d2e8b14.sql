@@ -0,0 +1,191 @@
+-- Team workspaces. Members are owners, mentors or interns; codebases are uploaded once
+-- to a workspace and attached to any number of its members' sessions.
+CREATE TABLE public.workspaces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'mentor', 'intern')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+-- Single-use invitations. Whoever accepts a live token joins with its role; when an email
+-- is set, only a signed-in user with that email can accept it.
+CREATE TABLE public.workspace_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('mentor', 'intern')),
+  email TEXT,
+  -- 192 random bits, hex so it can go straight into a URL
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.codebases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Codebases a session asks about, next to the files uploaded to the session itself
+CREATE TABLE public.session_codebases (
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  codebase_id UUID NOT NULL REFERENCES public.codebases(id) ON DELETE CASCADE,
+  attached_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, codebase_id)
+);
+
+-- Sessions started in a workspace can be read by its owners and mentors
+ALTER TABLE public.chat_sessions
+  ADD COLUMN workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+-- A file is uploaded either to a session or to a codebase. Its chunks and symbols follow it.
+ALTER TABLE public.uploaded_files
+  ADD COLUMN codebase_id UUID REFERENCES public.codebases(id) ON DELETE CASCADE,
+  ADD CONSTRAINT uploaded_files_single_owner CHECK (session_id IS NULL OR codebase_id IS NULL);
+
+ALTER TABLE public.file_chunks
+  ADD COLUMN codebase_id UUID REFERENCES public.codebases(id) ON DELETE CASCADE;
+
+ALTER TABLE public.file_symbols
+  ADD COLUMN codebase_id UUID REFERENCES public.codebases(id) ON DELETE CASCADE;
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.codebases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.session_codebases ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_workspace_members_user_id ON public.workspace_members(user_id);
+CREATE INDEX idx_workspace_invitations_workspace_id ON public.workspace_invitations(workspace_id);
+CREATE INDEX idx_codebases_workspace_id ON public.codebases(workspace_id);
+CREATE INDEX idx_session_codebases_codebase_id ON public.session_codebases(codebase_id);
+CREATE INDEX idx_chat_sessions_workspace_id ON public.chat_sessions(workspace_id);
+CREATE INDEX idx_uploaded_files_codebase_id ON public.uploaded_files(codebase_id);
+CREATE INDEX idx_file_chunks_codebase_id ON public.file_chunks(codebase_id);
+CREATE INDEX idx_file_symbols_codebase_id ON public.file_symbols(codebase_id);
+
+CREATE TRIGGER update_workspaces_updated_at
+    BEFORE UPDATE ON public.workspaces
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_codebases_updated_at
+    BEFORE UPDATE ON public.codebases
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whoever creates a workspace owns it. SECURITY DEFINER because members are otherwise
+-- only added by accepting an invitation.
+CREATE OR REPLACE FUNCTION public.add_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO public.workspace_members (workspace_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'owner');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_workspace_owner
+AFTER INSERT ON public.workspaces
+FOR EACH ROW
+EXECUTE FUNCTION public.add_workspace_owner();
+
+-- What an invitation link offers, for the page that asks whether to accept it. Returns
+-- no row for unknown tokens. SECURITY DEFINER because invitees can't read the workspace yet.
+CREATE OR REPLACE FUNCTION public.get_workspace_invitation(invitation_token TEXT)
+RETURNS TABLE (
+  workspace_id UUID,
+  workspace_name TEXT,
+  role TEXT,
+  email TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  -- 'pending', 'accepted', 'revoked' or 'expired'
+  status TEXT
+)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT
+    w.id,
+    w.name,
+    i.role,
+    i.email,
+    i.expires_at,
+    CASE
+      WHEN i.accepted_at IS NOT NULL THEN 'accepted'
+      WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN i.expires_at <= now() THEN 'expired'
+      ELSE 'pending'
+    END
+  FROM public.workspace_invitations i
+  JOIN public.workspaces w ON w.id = i.workspace_id
+  WHERE i.token = invitation_token;
+$$;
+
+-- Join the invitation's workspace as the calling user and use the invitation up. Existing
+-- members keep their role. Returns the workspace id.
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(invitation_token TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.workspace_invitations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to accept an invitation' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO invitation
+  FROM public.workspace_invitations
+  WHERE token = invitation_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found' USING ERRCODE = 'P0002';
+  ELSIF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has already been used' USING ERRCODE = '22023';
+  ELSIF invitation.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invitation has been revoked' USING ERRCODE = '22023';
+  ELSIF invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired' USING ERRCODE = '22023';
+  ELSIF invitation.email IS NOT NULL
+    AND lower(invitation.email) IS DISTINCT FROM lower(auth.jwt() ->> 'email') THEN
+    RAISE EXCEPTION 'This invitation was sent to another email address' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (invitation.workspace_id, auth.uid(), invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  UPDATE public.workspace_invitations
+  SET accepted_by = auth.uid(), accepted_at = now()
+  WHERE id = invitation.id;
+
+  RETURN invitation.workspace_id;
+END;
+$$;
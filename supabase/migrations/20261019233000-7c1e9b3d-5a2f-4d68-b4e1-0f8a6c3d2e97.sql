@@ -0,0 +1,435 @@
+-- Access is now granted through workspace membership as well as ownership:
+--   * everyone keeps full access to their own sessions and files, and only a session's
+--     owner can add messages, diagrams, files, chunks or symbols to it
+--   * owners and mentors can read the sessions started in their workspace
+--   * every member can read the workspace's codebases; owners and mentors manage them
+--   * owners manage members; owners invite anyone, mentors invite interns
+-- Share-link policies are unchanged.
+
+-- The calling user's role in a workspace, or null. The helpers below are SECURITY DEFINER
+-- so policies on one table can consult the others without recursing into their policies.
+CREATE OR REPLACE FUNCTION public.workspace_role(target_workspace_id UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT role FROM public.workspace_members
+  WHERE workspace_id = target_workspace_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_session(target_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_sessions s
+    WHERE s.id = target_session_id
+      AND (s.user_id = auth.uid() OR public.workspace_role(s.workspace_id) IN ('owner', 'mentor'))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_codebase(target_codebase_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.codebases c
+    WHERE c.id = target_codebase_id AND public.workspace_role(c.workspace_id) IS NOT NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_codebase(target_codebase_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.codebases c
+    WHERE c.id = target_codebase_id AND public.workspace_role(c.workspace_id) IN ('owner', 'mentor')
+  );
+$$;
+
+-- Only the owner may put rows into a session, even where others can read it
+CREATE OR REPLACE FUNCTION public.owns_session(target_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_sessions s
+    WHERE s.id = target_session_id AND s.user_id = auth.uid()
+  );
+$$;
+
+-- Workspaces
+CREATE POLICY "Members can view their workspaces"
+ON public.workspaces FOR SELECT
+USING (public.workspace_role(id) IS NOT NULL OR auth.uid() = created_by);
+
+CREATE POLICY "Users can create workspaces"
+ON public.workspaces FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Owners can update their workspaces"
+ON public.workspaces FOR UPDATE
+USING (public.workspace_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their workspaces"
+ON public.workspaces FOR DELETE
+USING (public.workspace_role(id) = 'owner');
+
+-- Members join through add_workspace_owner and accept_workspace_invitation only
+CREATE POLICY "Members can view their workspace's members"
+ON public.workspace_members FOR SELECT
+USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+-- Only the role can change; moving a row to another workspace or user would add a member
+REVOKE UPDATE ON public.workspace_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.workspace_members TO authenticated;
+
+CREATE POLICY "Owners can change members' roles"
+ON public.workspace_members FOR UPDATE
+USING (public.workspace_role(workspace_id) = 'owner' AND role <> 'owner')
+WITH CHECK (role IN ('mentor', 'intern'));
+
+CREATE POLICY "Owners can remove members and members can leave"
+ON public.workspace_members FOR DELETE
+USING (role <> 'owner' AND (public.workspace_role(workspace_id) = 'owner' OR auth.uid() = user_id));
+
+-- Invitations
+CREATE POLICY "Owners and mentors can view invitations"
+ON public.workspace_invitations FOR SELECT
+USING (public.workspace_role(workspace_id) IN ('owner', 'mentor'));
+
+CREATE POLICY "Owners and mentors can invite"
+ON public.workspace_invitations FOR INSERT
+WITH CHECK (
+  auth.uid() = invited_by
+  AND (
+    public.workspace_role(workspace_id) = 'owner'
+    OR (public.workspace_role(workspace_id) = 'mentor' AND role = 'intern')
+  )
+);
+
+-- Revoking is the only change allowed. Anything else could raise a mentor's intern
+-- invitation to mentor, reopen a used or revoked token, or extend its expiry.
+REVOKE UPDATE ON public.workspace_invitations FROM anon, authenticated;
+GRANT UPDATE (revoked_at) ON public.workspace_invitations TO authenticated;
+
+CREATE POLICY "Owners and inviting mentors can revoke invitations"
+ON public.workspace_invitations FOR UPDATE
+USING (
+  public.workspace_role(workspace_id) = 'owner'
+  OR (public.workspace_role(workspace_id) = 'mentor' AND auth.uid() = invited_by)
+)
+WITH CHECK (revoked_at IS NOT NULL);
+
+CREATE POLICY "Owners and inviting mentors can delete invitations"
+ON public.workspace_invitations FOR DELETE
+USING (
+  public.workspace_role(workspace_id) = 'owner'
+  OR (public.workspace_role(workspace_id) = 'mentor' AND auth.uid() = invited_by)
+);
+
+-- Codebases
+CREATE POLICY "Members can view their workspace's codebases"
+ON public.codebases FOR SELECT
+USING (public.workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Owners and mentors can create codebases"
+ON public.codebases FOR INSERT
+WITH CHECK (auth.uid() = created_by AND public.workspace_role(workspace_id) IN ('owner', 'mentor'));
+
+-- Renaming only; moving a codebase would hand its files to another workspace
+REVOKE UPDATE ON public.codebases FROM anon, authenticated;
+GRANT UPDATE (name, description) ON public.codebases TO authenticated;
+
+CREATE POLICY "Owners and mentors can update codebases"
+ON public.codebases FOR UPDATE
+USING (public.workspace_role(workspace_id) IN ('owner', 'mentor'));
+
+CREATE POLICY "Owners and mentors can delete codebases"
+ON public.codebases FOR DELETE
+USING (public.workspace_role(workspace_id) IN ('owner', 'mentor'));
+
+-- Attachments: a session can use the codebases of the workspace it was started in
+CREATE POLICY "Attached codebases can be viewed with their session"
+ON public.session_codebases FOR SELECT
+USING (public.can_view_session(session_id));
+
+CREATE POLICY "Users can attach workspace codebases to their own sessions"
+ON public.session_codebases FOR INSERT
+WITH CHECK (
+  auth.uid() = attached_by
+  AND EXISTS (
+    SELECT 1 FROM public.chat_sessions s
+    JOIN public.codebases c ON c.workspace_id = s.workspace_id
+    WHERE s.id = session_id AND c.id = codebase_id AND s.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can detach codebases from their own sessions"
+ON public.session_codebases FOR DELETE
+USING (EXISTS (SELECT 1 FROM public.chat_sessions s WHERE s.id = session_id AND s.user_id = auth.uid()));
+
+-- Sessions
+DROP POLICY "Users can view their own sessions" ON public.chat_sessions;
+DROP POLICY "Users can create their own sessions" ON public.chat_sessions;
+DROP POLICY "Users can update their own sessions" ON public.chat_sessions;
+
+CREATE POLICY "Users can view their own and their workspace's sessions"
+ON public.chat_sessions FOR SELECT
+USING (auth.uid() = user_id OR public.workspace_role(workspace_id) IN ('owner', 'mentor'));
+
+CREATE POLICY "Users can create their own sessions"
+ON public.chat_sessions FOR INSERT
+WITH CHECK (auth.uid() = user_id AND (workspace_id IS NULL OR public.workspace_role(workspace_id) IS NOT NULL));
+
+CREATE POLICY "Users can update their own sessions"
+ON public.chat_sessions FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND (workspace_id IS NULL OR public.workspace_role(workspace_id) IS NOT NULL));
+
+-- Messages and diagrams are read with their session and written only by its owner. Now
+-- that others read them, rows in someone else's session would reach them and their chats.
+DROP POLICY "Users can view their own messages" ON public.chat_messages;
+DROP POLICY "Users can create their own messages" ON public.chat_messages;
+DROP POLICY "Users can update their own messages" ON public.chat_messages;
+
+CREATE POLICY "Messages can be viewed with their session"
+ON public.chat_messages FOR SELECT
+USING (auth.uid() = user_id OR public.can_view_session(session_id));
+
+CREATE POLICY "Users can create messages in their own sessions"
+ON public.chat_messages FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.owns_session(session_id));
+
+CREATE POLICY "Users can update messages in their own sessions"
+ON public.chat_messages FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND public.owns_session(session_id));
+
+DROP POLICY "Users can view their own diagrams" ON public.session_diagrams;
+DROP POLICY "Users can create their own diagrams" ON public.session_diagrams;
+
+CREATE POLICY "Diagrams can be viewed with their session"
+ON public.session_diagrams FOR SELECT
+USING (auth.uid() = user_id OR public.can_view_session(session_id));
+
+CREATE POLICY "Users can create diagrams in their own sessions"
+ON public.session_diagrams FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.owns_session(session_id));
+
+-- Files belong to a session or to a codebase
+DROP POLICY "Users can view their own files" ON public.uploaded_files;
+DROP POLICY "Users can upload their own files" ON public.uploaded_files;
+DROP POLICY "Users can update their own files" ON public.uploaded_files;
+DROP POLICY "Users can delete their own files" ON public.uploaded_files;
+
+CREATE POLICY "Files can be viewed with their session or codebase"
+ON public.uploaded_files FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR public.can_view_session(session_id)
+  OR public.can_view_codebase(codebase_id)
+);
+
+CREATE POLICY "Users can upload to their own sessions and managed codebases"
+ON public.uploaded_files FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (session_id IS NOT NULL OR codebase_id IS NOT NULL)
+  AND (session_id IS NULL OR public.owns_session(session_id))
+  AND (codebase_id IS NULL OR public.can_manage_codebase(codebase_id))
+  AND (storage.foldername(storage_path))[1] = auth.uid()::text
+);
+
+-- Rows can't be moved into sessions or codebases the uploader couldn't have uploaded to,
+-- nor pointed at another user's stored objects
+CREATE POLICY "Users can update their own files"
+ON public.uploaded_files FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (session_id IS NULL OR public.owns_session(session_id))
+  AND (codebase_id IS NULL OR public.can_manage_codebase(codebase_id))
+  AND (storage.foldername(storage_path))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Uploaders and codebase managers can delete files"
+ON public.uploaded_files FOR DELETE
+USING (auth.uid() = user_id OR public.can_manage_codebase(codebase_id));
+
+-- Chunks and symbols are written by ingestion as the file's uploader, and must sit in the
+-- same session or codebase as their file so retrieval can't be fed foreign content
+DROP POLICY "Users can view their own chunks" ON public.file_chunks;
+DROP POLICY "Users can create their own chunks" ON public.file_chunks;
+DROP POLICY "Users can delete their own chunks" ON public.file_chunks;
+
+CREATE POLICY "Chunks can be viewed with their session or codebase"
+ON public.file_chunks FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR public.can_view_session(session_id)
+  OR public.can_view_codebase(codebase_id)
+);
+
+CREATE POLICY "Uploaders can create chunks of their files"
+ON public.file_chunks FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.uploaded_files f
+    WHERE f.id = file_chunks.file_id
+      AND f.user_id = auth.uid()
+      AND f.session_id IS NOT DISTINCT FROM file_chunks.session_id
+      AND f.codebase_id IS NOT DISTINCT FROM file_chunks.codebase_id
+  )
+);
+
+CREATE POLICY "Uploaders and codebase managers can delete chunks"
+ON public.file_chunks FOR DELETE
+USING (auth.uid() = user_id OR public.can_manage_codebase(codebase_id));
+
+DROP POLICY "Users can view their own symbols" ON public.file_symbols;
+DROP POLICY "Users can create their own symbols" ON public.file_symbols;
+DROP POLICY "Users can delete their own symbols" ON public.file_symbols;
+
+CREATE POLICY "Symbols can be viewed with their session or codebase"
+ON public.file_symbols FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR public.can_view_session(session_id)
+  OR public.can_view_codebase(codebase_id)
+);
+
+CREATE POLICY "Uploaders can create symbols of their files"
+ON public.file_symbols FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.uploaded_files f
+    WHERE f.id = file_symbols.file_id
+      AND f.user_id = auth.uid()
+      AND f.session_id IS NOT DISTINCT FROM file_symbols.session_id
+      AND f.codebase_id IS NOT DISTINCT FROM file_symbols.codebase_id
+  )
+);
+
+CREATE POLICY "Uploaders and codebase managers can delete symbols"
+ON public.file_symbols FOR DELETE
+USING (auth.uid() = user_id OR public.can_manage_codebase(codebase_id));
+
+-- Stored bytes follow their uploaded_files row. Objects stay under the uploader's folder,
+-- so the existing per-user policies still cover uploads. The folder must also be the row
+-- owner's, or a row pointing at someone else's object would unlock it.
+CREATE POLICY "File contents can be downloaded with their session or codebase"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'uploaded-files'
+  AND EXISTS (
+    SELECT 1 FROM public.uploaded_files f
+    WHERE f.storage_path = storage.objects.name
+      AND (storage.foldername(storage.objects.name))[1] = f.user_id::text
+      AND (public.can_view_session(f.session_id) OR public.can_view_codebase(f.codebase_id))
+  )
+);
+
+-- Remove the object before its uploaded_files row, which this check reads
+CREATE POLICY "Codebase managers can delete codebase file contents"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'uploaded-files'
+  AND EXISTS (
+    SELECT 1 FROM public.uploaded_files f
+    WHERE f.storage_path = storage.objects.name
+      AND (storage.foldername(storage.objects.name))[1] = f.user_id::text
+      AND public.can_manage_codebase(f.codebase_id)
+  )
+);
+
+-- Retrieval and search cover the session's own files and its attached codebases
+CREATE OR REPLACE FUNCTION public.match_file_chunks(
+  query_embedding extensions.vector(1536),
+  match_session_id UUID,
+  match_model TEXT,
+  match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  file_path TEXT,
+  start_line INTEGER,
+  end_line INTEGER,
+  kind TEXT,
+  symbol TEXT,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.file_id,
+    f.file_path,
+    c.start_line,
+    c.end_line,
+    c.kind,
+    c.symbol,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.file_chunks c
+  JOIN public.uploaded_files f ON f.id = c.file_id
+  WHERE (
+      c.session_id = match_session_id
+      OR c.codebase_id IN (
+        SELECT sc.codebase_id FROM public.session_codebases sc WHERE sc.session_id = match_session_id
+      )
+    )
+    AND c.embedding_model = match_model
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_file_chunks(
+  search_session_id UUID,
+  search_query TEXT,
+  match_count INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  file_id UUID,
+  file_path TEXT,
+  start_line INTEGER,
+  end_line INTEGER,
+  symbol TEXT,
+  content TEXT,
+  rank REAL
+)
+LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery(
+      'simple'::regconfig,
+      regexp_replace(search_query, '([a-z0-9])([A-Z])', '\1 \2', 'g')
+    ) AS q
+  )
+  SELECT
+    c.id,
+    c.file_id,
+    f.file_path,
+    c.start_line,
+    c.end_line,
+    c.symbol,
+    c.content,
+    ts_rank(c.search_vector, query.q) AS rank
+  FROM public.file_chunks c
+  JOIN public.uploaded_files f ON f.id = c.file_id
+  CROSS JOIN query
+  WHERE (
+      c.session_id = search_session_id
+      OR c.codebase_id IN (
+        SELECT sc.codebase_id FROM public.session_codebases sc WHERE sc.session_id = search_session_id
+      )
+    )
+    AND c.search_vector @@ query.q
+  ORDER BY rank DESC, f.file_path, c.start_line
+  LIMIT match_count;
+$$;
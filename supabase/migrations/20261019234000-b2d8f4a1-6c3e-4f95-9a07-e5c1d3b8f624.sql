@@ -0,0 +1,31 @@
+-- Share links can only be revoked. Without this an owner could point an existing link at
+-- any session id and skip the ownership check made when the link was created.
+REVOKE UPDATE ON public.session_shares FROM anon, authenticated;
+GRANT UPDATE (revoked_at) ON public.session_shares TO authenticated;
+
+DROP POLICY "Users can revoke their own share links" ON public.session_shares;
+
+CREATE POLICY "Users can revoke their own share links"
+ON public.session_shares FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND revoked_at IS NOT NULL
+  AND EXISTS (SELECT 1 FROM public.chat_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+);
+
+-- storage_path is written by whoever inserts the row, so also require the object to sit in
+-- the row owner's folder; otherwise a row naming another user's object would unlock it
+DROP POLICY "Shared file contents can be downloaded with their token" ON storage.objects;
+
+CREATE POLICY "Shared file contents can be downloaded with their token"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'uploaded-files'
+  AND EXISTS (
+    SELECT 1 FROM public.uploaded_files f
+    WHERE f.storage_path = storage.objects.name
+      AND (storage.foldername(storage.objects.name))[1] = f.user_id::text
+      AND public.is_shared_session(f.session_id)
+  )
+);